@@ -0,0 +1,386 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import { FHE, euint32, euint64, ebool } from "@fhevm/solidity/lib/FHE.sol";
+import {
+    SHAPE_POINT,
+    SHAPE_CIRCLE,
+    SHAPE_RECTANGLE,
+    Line,
+    doPointsIntersect,
+    isPointInCircle,
+    isPointInRectangle,
+    doRectanglesIntersect,
+    lineBetween,
+    maskPoint,
+    newPoint,
+    selectPoint,
+    stepAlong
+} from "./EncryptedGeometry.sol";
+
+// Encrypted predicates and witnesses on circles and rectangles, for pairs of them and for the shapes of an
+// intersection session. Linked rather than inlined, like PathGeometry, to keep GeometricWitness under the contract
+// size limit.
+library AreaGeometry {
+    // Bits of the radius ratio that places a circle pair's witness; each costs a round of encrypted long division,
+    // and next to the checks of every witness candidate the HCU limit of a transaction leaves room for about this many
+    uint8 internal constant WITNESS_RATIO_BITS = 9;
+    
+    /// @notice Check whether two circles or rectangles, the lower shape type first, meet, with a witness point that
+    ///         lies in both when they do and is masked to (0, 0) otherwise
+    function evaluatePair(
+        uint8 type1,
+        euint32[] memory params1,
+        uint8 type2,
+        euint32[] memory params2,
+        bool randomized
+    ) public returns (ebool hasIntersection, euint32[] memory witnessPoint) {
+        if (type1 == SHAPE_CIRCLE && type2 == SHAPE_CIRCLE) {
+            (hasIntersection, witnessPoint) = circlesWitness(params1, params2, randomized);
+        } else if (type1 == SHAPE_CIRCLE && type2 == SHAPE_RECTANGLE) {
+            hasIntersection = doesCircleIntersectRectangle(params1, params2);
+            witnessPoint = closestPointInRectangle(params1[0], params1[1], params2);
+            if (randomized) {
+                witnessPoint = randomCircleRectangleWitness(params1, params2, witnessPoint);
+            }
+        } else if (type1 == SHAPE_RECTANGLE && type2 == SHAPE_RECTANGLE) {
+            hasIntersection = doRectanglesIntersect(params1, params2);
+            witnessPoint = randomized ? randomRectanglesWitness(params1, params2) : rectanglesWitness(params1, params2);
+        } else {
+            revert("Unsupported shape pair");
+        }
+        
+        // Candidates are only meaningful when the shapes meet; otherwise they would leak shape geometry
+        witnessPoint = maskPoint(hasIntersection, witnessPoint);
+    }
+    
+    /// @notice Check whether points, rectangles and at most one circle all share a point, with one they share. The
+    ///         witness is the first point when there is one, else the point of the rectangles' overlap closest to the
+    ///         circle's centre, else that overlap's midpoint. Whenever the shapes share a point the witness is one of
+    ///         the shared points, so checking it against every shape decides the question exactly.
+    function evaluateCommonPoint(
+        uint8[] memory types,
+        euint32[][] memory parameters
+    ) public returns (ebool hasCommonPoint, euint32[] memory witnessPoint) {
+        euint32[] memory overlap;
+        euint32[] memory circle;
+        euint32[] memory point;
+        for (uint i = 0; i < types.length; i++) {
+            if (types[i] == SHAPE_RECTANGLE) {
+                overlap = overlap.length == 0 ? parameters[i] : rectanglesOverlap(overlap, parameters[i]);
+            } else if (types[i] == SHAPE_CIRCLE) {
+                circle = parameters[i];
+            } else if (point.length == 0) {
+                point = parameters[i];
+            }
+        }
+        
+        if (point.length > 0) {
+            witnessPoint = point;
+        } else if (circle.length == 0) {
+            witnessPoint = rectangleMidpoint(overlap);
+        } else if (overlap.length > 0) {
+            witnessPoint = closestPointInRectangle(circle[0], circle[1], overlap);
+        } else {
+            witnessPoint = newPoint(circle[0], circle[1]);
+        }
+        
+        hasCommonPoint = FHE.asEbool(true);
+        for (uint i = 0; i < types.length; i++) {
+            hasCommonPoint = FHE.and(hasCommonPoint, isPointInArea(witnessPoint, types[i], parameters[i]));
+        }
+        witnessPoint = maskPoint(hasCommonPoint, witnessPoint);
+    }
+    
+    /// @notice Check a point against a point, circle or rectangle, the shapes a session may hold
+    function isPointInArea(
+        euint32[] memory point,
+        uint8 shapeType,
+        euint32[] memory parameters
+    ) public returns (ebool) {
+        if (shapeType == SHAPE_POINT) {
+            return doPointsIntersect(point, parameters);
+        } else if (shapeType == SHAPE_CIRCLE) {
+            return isPointInCircle(point, parameters);
+        }
+        return isPointInRectangle(point, parameters);
+    }
+    
+    /// @notice Check if circle overlaps rectangle
+    function doesCircleIntersectRectangle(
+        euint32[] memory circle,
+        euint32[] memory rect
+    ) internal returns (ebool) {
+        require(circle.length == 3 && rect.length == 4, "Invalid parameters");
+        
+        return isPointInCircle(closestPointInRectangle(circle[0], circle[1], rect), circle);
+    }
+    
+    /// @dev The rectangle point closest to (x, y): the point clamped into the rectangle on each axis.
+    ///      It is the witness for a circle meeting a rectangle, lying in the rectangle by construction
+    ///      and in the circle exactly when the two intersect.
+    function closestPointInRectangle(
+        euint32 x,
+        euint32 y,
+        euint32[] memory rect
+    ) internal returns (euint32[] memory closest) {
+        closest = new euint32[](2);
+        closest[0] = FHE.min(FHE.max(x, rect[0]), rect[2]);
+        closest[1] = FHE.min(FHE.max(y, rect[1]), rect[3]);
+    }
+    
+    /// @dev The rectangle two rectangles overlap in, [max of mins, min of maxes]; its minimum passes its maximum on
+    ///      some axis when they do not meet
+    function rectanglesOverlap(
+        euint32[] memory rect1,
+        euint32[] memory rect2
+    ) internal returns (euint32[] memory overlap) {
+        overlap = new euint32[](4);
+        overlap[0] = FHE.max(rect1[0], rect2[0]);
+        overlap[1] = FHE.max(rect1[1], rect2[1]);
+        overlap[2] = FHE.min(rect1[2], rect2[2]);
+        overlap[3] = FHE.min(rect1[3], rect2[3]);
+    }
+    
+    /// @dev Midpoint of the overlap of two rectangles. Whenever they intersect the overlap is non-empty, and its
+    ///      rounded-down midpoint is a grid point inside it and so inside both.
+    function rectanglesWitness(
+        euint32[] memory rect1,
+        euint32[] memory rect2
+    ) internal returns (euint32[] memory) {
+        return rectangleMidpoint(rectanglesOverlap(rect1, rect2));
+    }
+    
+    /// @dev Midpoint of a rectangle, rounded down
+    function rectangleMidpoint(euint32[] memory rect) internal returns (euint32[] memory) {
+        return calculateMidpoint(newPoint(rect[0], rect[1]), newPoint(rect[2], rect[3]));
+    }
+    
+    /// @dev Whether two circles meet, d^2 <= (r1 + r2)^2, with a grid point they share when there is one. The
+    ///      candidates lie around the point dividing the centre line in the ratio r1 : r2, which sits d * r1 / (r1 + r2)
+    ///      from the first centre and d * r2 / (r1 + r2) from the second, and so lies in both circles exactly when they
+    ///      meet. Each axis offset of that point is rounded toward the first centre (down) and toward the second (up).
+    ///      Per axis the down corner is then no farther from the first centre than that point, and the up corner no
+    ///      farther from the second, so whenever the circles meet checking each against the other circle proves it in
+    ///      both. The mixed corners, down on one axis and up on the other, are checked against both. The first proven
+    ///      corner is the witness. None is only for a lens thinner than a grid step around the centre line, which
+    ///      often holds no grid point at all; the down corner stands in then, and still lies in the first circle.
+    ///
+    ///      The randomized witness instead places a point at a uniformly random ratio. Depending on which side of the
+    ///      witness ratio it falls it is already known to be in one circle whenever the circles meet, so only the
+    ///      other is checked, and the down and up corners stand in when it misses. Next to the sample, the mixed
+    ///      corners take more HCU than a transaction allows.
+    function circlesWitness(
+        euint32[] memory circle1,
+        euint32[] memory circle2,
+        bool randomized
+    ) internal returns (ebool hasIntersection, euint32[] memory) {
+        require(circle1.length == 3 && circle2.length == 3, "Invalid parameters");
+        
+        // Circles start with their centre, so the line between them runs from centre to centre
+        Line memory line = lineBetween(circle1, circle2);
+        euint64 radius1 = FHE.asEuint64(circle1[2]);
+        euint64 radius2 = FHE.asEuint64(circle2[2]);
+        euint64 radiusSum = FHE.add(radius1, radius2);
+        // Squares of distances and radius sums below 2^32, and sums of two squares of safe coordinates, fit in 64 bits
+        hasIntersection = isWithinRadius(line.distanceX, line.distanceY, FHE.mul(radiusSum, radiusSum));
+        
+        // Zero radii only meet where the centres coincide, and there every ratio places the witness on them
+        (euint64 ratio, euint64 remainder) = divide(
+            FHE.shl(radius1, WITNESS_RATIO_BITS),
+            FHE.max(radiusSum, 1),
+            WITNESS_RATIO_BITS
+        );
+        (euint64 downX, euint64 upX) = offsetsAlong(line.distanceX, ratio, remainder);
+        (euint64 downY, euint64 upY) = offsetsAlong(line.distanceY, ratio, remainder);
+        euint64 radius1Sq = FHE.mul(radius1, radius1);
+        euint64 radius2Sq = FHE.mul(radius2, radius2);
+        // A point on the segment is as far from its end, per axis, as the rest of the segment
+        euint64 downRestX = FHE.sub(line.distanceX, downX);
+        euint64 downRestY = FHE.sub(line.distanceY, downY);
+        euint64 downRestSqX = FHE.mul(downRestX, downRestX);
+        euint64 downRestSqY = FHE.mul(downRestY, downRestY);
+        euint64 upSqX = FHE.mul(upX, upX);
+        euint64 upSqY = FHE.mul(upY, upY);
+        ebool downInSecond = FHE.le(FHE.add(downRestSqX, downRestSqY), radius2Sq);
+        ebool upInFirst = FHE.le(FHE.add(upSqX, upSqY), radius1Sq);
+        
+        // Candidates are tried from the last to the first, so each proven one replaces those after it
+        euint64 offsetX = downX;
+        euint64 offsetY = downY;
+        if (!randomized) {
+            euint64 upRestX = FHE.sub(line.distanceX, upX);
+            euint64 upRestY = FHE.sub(line.distanceY, upY);
+            euint64 downSqX = FHE.mul(downX, downX);
+            euint64 downSqY = FHE.mul(downY, downY);
+            euint64 upRestSqX = FHE.mul(upRestX, upRestX);
+            euint64 upRestSqY = FHE.mul(upRestY, upRestY);
+            ebool upDownInBoth = FHE.and(
+                FHE.le(FHE.add(upSqX, downSqY), radius1Sq),
+                FHE.le(FHE.add(upRestSqX, downRestSqY), radius2Sq)
+            );
+            ebool downUpInBoth = FHE.and(
+                FHE.le(FHE.add(downSqX, upSqY), radius1Sq),
+                FHE.le(FHE.add(downRestSqX, upRestSqY), radius2Sq)
+            );
+            offsetX = FHE.select(upDownInBoth, upX, offsetX);
+            offsetY = FHE.select(upDownInBoth, downY, offsetY);
+            offsetX = FHE.select(downUpInBoth, downX, offsetX);
+            offsetY = FHE.select(downUpInBoth, upY, offsetY);
+        }
+        offsetX = FHE.select(upInFirst, upX, offsetX);
+        offsetY = FHE.select(upInFirst, upY, offsetY);
+        offsetX = FHE.select(downInSecond, downX, offsetX);
+        offsetY = FHE.select(downInSecond, downY, offsetY);
+        
+        if (randomized) {
+            euint64 sampleRatio = FHE.asEuint64(FHE.randEuint32(uint32(1) << WITNESS_RATIO_BITS));
+            ebool inFirst = FHE.le(sampleRatio, ratio);
+            euint64 sampleX = sampleOffsetAlong(line.distanceX, sampleRatio, inFirst);
+            euint64 sampleY = sampleOffsetAlong(line.distanceY, sampleRatio, inFirst);
+            
+            ebool inOther = isWithinRadius(
+                FHE.select(inFirst, FHE.sub(line.distanceX, sampleX), sampleX),
+                FHE.select(inFirst, FHE.sub(line.distanceY, sampleY), sampleY),
+                FHE.select(inFirst, radius2Sq, radius1Sq)
+            );
+            offsetX = FHE.select(inOther, sampleX, offsetX);
+            offsetY = FHE.select(inOther, sampleY, offsetY);
+        }
+        // Every candidate is chosen by its offsets, so only the chosen one is turned into a point
+        return (hasIntersection, pointOnLine(line, offsetX, offsetY));
+    }
+    
+    /// @dev Offset along one axis of the line point at (ratio + remainder / denominator) / 2^WITNESS_RATIO_BITS of
+    ///      the distance, rounded toward the start (down) and toward the end (up). The remainder's share,
+    ///      distance * remainder / denominator, is at most the remainder and, while the circles meet, at most the
+    ///      distance, so the smaller of the two rounds up past it; a ratio below 2^WITNESS_RATIO_BITS keeps the up
+    ///      offset within the distance.
+    function offsetsAlong(
+        euint64 distance,
+        euint64 ratio,
+        euint64 remainder
+    ) internal returns (euint64 down, euint64 up) {
+        euint64 scaled = FHE.mul(distance, ratio);
+        down = FHE.shr(scaled, WITNESS_RATIO_BITS);
+        euint64 scaledUp = FHE.add(FHE.add(scaled, FHE.min(remainder, distance)), uint64((1 << WITNESS_RATIO_BITS) - 1));
+        up = FHE.shr(scaledUp, WITNESS_RATIO_BITS);
+    }
+    
+    /// @dev Offset along one axis of the line point at ratio / 2^WITNESS_RATIO_BITS, rounded toward the start when
+    ///      roundDown is set and otherwise toward the end, past (ratio + 1) / 2^WITNESS_RATIO_BITS. A ratio known to
+    ///      be below 2^WITNESS_RATIO_BITS keeps the up offset within the distance without clamping it.
+    function sampleOffsetAlong(
+        euint64 distance,
+        euint64 ratio,
+        ebool roundDown
+    ) internal returns (euint64) {
+        euint64 rounding = FHE.select(
+            roundDown,
+            FHE.asEuint64(0),
+            FHE.add(distance, uint64((1 << WITNESS_RATIO_BITS) - 1))
+        );
+        return FHE.shr(FHE.add(FHE.mul(distance, ratio), rounding), WITNESS_RATIO_BITS);
+    }
+    
+    /// @dev The line point the given per-axis offsets away from its start
+    function pointOnLine(
+        Line memory line,
+        euint64 offsetX,
+        euint64 offsetY
+    ) internal returns (euint32[] memory) {
+        return newPoint(stepAlong(line.fromX, line.forwardX, offsetX), stepAlong(line.fromY, line.forwardY, offsetY));
+    }
+    
+    /// @dev dx^2 + dy^2 <= radiusSq
+    function isWithinRadius(euint64 dx, euint64 dy, euint64 radiusSq) internal returns (ebool) {
+        return FHE.le(FHE.add(FHE.mul(dx, dx), FHE.mul(dy, dy)), radiusSq);
+    }
+    
+    /// @dev floor(numerator / denominator) and the remainder, or 2^bits - 1 and what is left over that when the
+    ///      quotient is larger. FHE only divides by cleartext values, so this is restoring long division: one trial
+    ///      subtraction of the shifted denominator per quotient bit.
+    function divide(
+        euint64 numerator,
+        euint64 denominator,
+        uint8 bits
+    ) internal returns (euint64 quotient, euint64 remainder) {
+        quotient = FHE.asEuint64(0);
+        for (uint8 bit = bits; bit > 0; bit--) {
+            euint64 trial = FHE.shl(denominator, bit - 1);
+            ebool fits = FHE.ge(numerator, trial);
+            numerator = FHE.select(fits, FHE.sub(numerator, trial), numerator);
+            quotient = FHE.select(fits, FHE.or(quotient, uint64(1) << (bit - 1)), quotient);
+        }
+        remainder = numerator;
+    }
+    
+    /// @dev Uniformly random point of the overlap of two rectangles, which is all of their intersection
+    function randomRectanglesWitness(
+        euint32[] memory rect1,
+        euint32[] memory rect2
+    ) internal returns (euint32[] memory) {
+        return newPoint(
+            sampleBetween(FHE.max(rect1[0], rect2[0]), FHE.min(rect1[2], rect2[2])),
+            sampleBetween(FHE.max(rect1[1], rect2[1]), FHE.min(rect1[3], rect2[3]))
+        );
+    }
+    
+    /// @dev Random point of a circle meeting a rectangle. A point is sampled in the part of the rectangle inside the
+    ///      circle's bounding box, then projected toward the closest rectangle point, which is in both shapes: the
+    ///      sample is kept if it is in the circle, else the halfway point if that is, else the closest point itself.
+    ///      The box and the closest point are convex, so every candidate stays in the rectangle.
+    function randomCircleRectangleWitness(
+        euint32[] memory circle,
+        euint32[] memory rect,
+        euint32[] memory closest
+    ) internal returns (euint32[] memory) {
+        euint32[] memory sample = newPoint(
+            sampleBetween(
+                FHE.max(rect[0], saturatingSub(circle[0], circle[2])),
+                FHE.min(rect[2], saturatingAdd(circle[0], circle[2]))
+            ),
+            sampleBetween(
+                FHE.max(rect[1], saturatingSub(circle[1], circle[2])),
+                FHE.min(rect[3], saturatingAdd(circle[1], circle[2]))
+            )
+        );
+        euint32[] memory halfway = calculateMidpoint(sample, closest);
+        
+        euint32[] memory witness = selectPoint(isPointInCircle(halfway, circle), halfway, closest);
+        return selectPoint(isPointInCircle(sample, circle), sample, witness);
+    }
+    
+    /// @dev A uniformly random value in [low, high]: a random 32-bit fraction scaled onto the range. Only shapes that
+    ///      do not meet give low > high, and their witness is masked.
+    function sampleBetween(euint32 low, euint32 high) internal returns (euint32) {
+        euint64 span = FHE.add(FHE.asEuint64(FHE.sub(high, low)), 1);
+        euint64 offset = FHE.shr(FHE.mul(FHE.asEuint64(FHE.randEuint32()), span), 32);
+        return FHE.add(low, FHE.asEuint32(offset));
+    }
+    
+    /// @dev max(a - b, 0)
+    function saturatingSub(euint32 a, euint32 b) internal returns (euint32) {
+        return FHE.sub(a, FHE.min(a, b));
+    }
+    
+    /// @dev min(a + b, 2^32 - 1)
+    function saturatingAdd(euint32 a, euint32 b) internal returns (euint32) {
+        return FHE.add(a, FHE.min(b, FHE.sub(type(uint32).max, a)));
+    }
+    
+    /// @dev Midpoint between two points, rounded down
+    function calculateMidpoint(
+        euint32[] memory point1,
+        euint32[] memory point2
+    ) internal returns (euint32[] memory) {
+        require(point1.length == 2 && point2.length == 2, "Invalid points");
+        
+        euint32[] memory midpoint = new euint32[](2);
+        // Sum in 64 bits so coordinates near the top of the range do not wrap; the halved sum fits back in 32 bits
+        midpoint[0] = FHE.asEuint32(FHE.div(FHE.add(FHE.asEuint64(point1[0]), FHE.asEuint64(point2[0])), 2));
+        midpoint[1] = FHE.asEuint32(FHE.div(FHE.add(FHE.asEuint64(point1[1]), FHE.asEuint64(point2[1])), 2));
+        
+        return midpoint;
+    }
+}
@@ -0,0 +1,200 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import { FHE, euint32, euint64, ebool } from "@fhevm/solidity/lib/FHE.sol";
+
+// Encrypted geometry shared by GeometricWitness and the libraries it links
+
+// Shape types, each with its own parameter layout; see GeometricWitness.EncryptedShape
+uint8 constant SHAPE_POINT = 0;
+uint8 constant SHAPE_CIRCLE = 1;
+uint8 constant SHAPE_RECTANGLE = 2;
+uint8 constant SHAPE_POLYGON = 3;
+uint8 constant SHAPE_SEGMENT = 4;
+uint8 constant SHAPE_POLYLINE = 5;
+
+// Polygon, segment and polyline predicates take cross products of coordinate differences modulo 2^64 and read
+// their sign from the top bit, which is exact while every coordinate of those shapes is at most this
+uint32 constant POLYGON_COORDINATE_MAX = 2 ** 31 - 2;
+
+// Segment as a start point plus per-axis direction and length, such as the one between two circle centres
+struct Line {
+    euint32 fromX;
+    euint32 fromY;
+    ebool forwardX;
+    ebool forwardY;
+    euint64 distanceX;
+    euint64 distanceY;
+}
+
+// What one segment of a path contributes to the witness of a path pair: a grid point it shares with the other
+// shape where there is an obvious one, otherwise the point numerator / denominator of the way along a line,
+// rounded to the grid on the side of a given point
+struct SegmentHit {
+    ebool meets;                 // The segment meets the other shape
+    ebool exact;                 // The witness is (exactX, exactY) rather than a point along the line
+    euint32 exactX;
+    euint32 exactY;
+    Line line;
+    euint64 numerator;           // At most the denominator
+    euint64 denominator;
+    euint32 towardX;
+    euint32 towardY;
+}
+
+/// @dev Whether a shape type is a segment or polyline, whose predicates walk its segments
+function isPath(uint8 shapeType) pure returns (bool) {
+    return shapeType == SHAPE_SEGMENT || shapeType == SHAPE_POLYLINE;
+}
+
+/// @dev Whether a shape type is a circle or rectangle, whose pairs AreaGeometry evaluates
+function isArea(uint8 shapeType) pure returns (bool) {
+    return shapeType == SHAPE_CIRCLE || shapeType == SHAPE_RECTANGLE;
+}
+/// @notice Check if two points intersect (simplified)
+function doPointsIntersect(
+    euint32[] memory point1,
+    euint32[] memory point2
+) returns (ebool) {
+    require(point1.length == 2 && point2.length == 2, "Invalid points");
+    
+    // Points intersect only if they are identical
+    ebool xEqual = FHE.eq(point1[0], point2[0]);
+    ebool yEqual = FHE.eq(point1[1], point2[1]);
+    
+    return FHE.and(xEqual, yEqual);
+}
+
+/// @notice Check if point is inside circle (simplified)
+function isPointInCircle(
+    euint32[] memory point,
+    euint32[] memory circle
+) returns (ebool) {
+    require(point.length == 2 && circle.length == 3, "Invalid parameters");
+    
+    euint64 distSq = squaredDistance(point[0], point[1], circle[0], circle[1]);
+    euint64 radius = FHE.asEuint64(circle[2]);
+    
+    return FHE.le(distSq, FHE.mul(radius, radius));
+}
+
+/// @notice Check if point is inside rectangle (edges included)
+function isPointInRectangle(
+    euint32[] memory point,
+    euint32[] memory rect
+) returns (ebool) {
+    require(point.length == 2 && rect.length == 4, "Invalid parameters");
+    
+    ebool insideX = FHE.and(FHE.ge(point[0], rect[0]), FHE.le(point[0], rect[2]));
+    ebool insideY = FHE.and(FHE.ge(point[1], rect[1]), FHE.le(point[1], rect[3]));
+    
+    return FHE.and(insideX, insideY);
+}
+
+/// @notice Check if two axis-aligned rectangles overlap or touch
+function doRectanglesIntersect(
+    euint32[] memory rect1,
+    euint32[] memory rect2
+) returns (ebool) {
+    require(rect1.length == 4 && rect2.length == 4, "Invalid parameters");
+    
+    ebool overlapX = FHE.and(FHE.le(rect1[0], rect2[2]), FHE.le(rect2[0], rect1[2]));
+    ebool overlapY = FHE.and(FHE.le(rect1[1], rect2[3]), FHE.le(rect2[1], rect1[3]));
+    
+    return FHE.and(overlapX, overlapY);
+}
+
+/// @dev ex * (py - y1) - ey * (px - x1) modulo 2^64
+function crossProduct(
+    euint64 ex,
+    euint64 ey,
+    euint64 x1,
+    euint64 y1,
+    euint64 px,
+    euint64 py
+) returns (euint64) {
+    return FHE.sub(FHE.mul(ex, FHE.sub(py, y1)), FHE.mul(ey, FHE.sub(px, x1)));
+}
+
+/// @dev Segment from one point to another, as a start point plus per-axis direction and length
+function lineBetween(
+    euint32[] memory from,
+    euint32[] memory to
+) returns (Line memory line) {
+    line.fromX = from[0];
+    line.fromY = from[1];
+    (line.forwardX, line.distanceX) = axisStep(from[0], to[0]);
+    (line.forwardY, line.distanceY) = axisStep(from[1], to[1]);
+}
+
+/// @dev Direction and length of the step from one coordinate to another
+function axisStep(euint32 from, euint32 to) returns (ebool forward, euint64 distance) {
+    forward = FHE.ge(to, from);
+    distance = FHE.asEuint64(FHE.select(forward, FHE.sub(to, from), FHE.sub(from, to)));
+}
+
+/// @dev The coordinate an offset away from another, in the given direction
+function stepAlong(euint32 from, ebool forward, euint64 offset) returns (euint32) {
+    euint32 step = FHE.asEuint32(offset);
+    return FHE.select(forward, FHE.add(from, step), FHE.sub(from, step));
+}
+/// @dev Coordinate-wise FHE.select between two lines
+function selectLine(
+    ebool condition,
+    Line memory ifTrue,
+    Line memory ifFalse
+) returns (Line memory line) {
+    line.fromX = FHE.select(condition, ifTrue.fromX, ifFalse.fromX);
+    line.fromY = FHE.select(condition, ifTrue.fromY, ifFalse.fromY);
+    line.forwardX = FHE.select(condition, ifTrue.forwardX, ifFalse.forwardX);
+    line.forwardY = FHE.select(condition, ifTrue.forwardY, ifFalse.forwardY);
+    line.distanceX = FHE.select(condition, ifTrue.distanceX, ifFalse.distanceX);
+    line.distanceY = FHE.select(condition, ifTrue.distanceY, ifFalse.distanceY);
+}
+
+/// @dev (x, y) as a witness point
+function newPoint(euint32 x, euint32 y) pure returns (euint32[] memory point) {
+    point = new euint32[](2);
+    point[0] = x;
+    point[1] = y;
+}
+
+/// @dev Vertex of a polygon or path as a point
+function vertexOf(euint32[] memory shape, uint256 vertex) pure returns (euint32[] memory) {
+    return newPoint(shape[2 * vertex], shape[2 * vertex + 1]);
+}
+/// @dev Coordinate-wise FHE.select between two points
+function selectPoint(
+    ebool condition,
+    euint32[] memory ifTrue,
+    euint32[] memory ifFalse
+) returns (euint32[] memory) {
+    return newPoint(
+        FHE.select(condition, ifTrue[0], ifFalse[0]),
+        FHE.select(condition, ifTrue[1], ifFalse[1])
+    );
+}
+
+/// @dev The point when the condition holds and (0, 0) otherwise, so a masked witness reveals nothing
+function maskPoint(ebool condition, euint32[] memory point) returns (euint32[] memory) {
+    euint32 zero = FHE.asEuint32(0);
+    return selectPoint(condition, point, newPoint(zero, zero));
+}
+
+/// @dev |a - b| without underflow: both differences are computed and the non-wrapping one is selected
+function absDiff(euint32 a, euint32 b) returns (euint64) {
+    return FHE.asEuint64(FHE.select(FHE.ge(a, b), FHE.sub(a, b), FHE.sub(b, a)));
+}
+
+/// @dev (x1 - x2)^2 + (y1 - y2)^2 in 64 bits; exact while every coordinate is at most 3037000499,
+///      the largest value whose doubled square stays below 2^64
+function squaredDistance(
+    euint32 x1,
+    euint32 y1,
+    euint32 x2,
+    euint32 y2
+) returns (euint64) {
+    euint64 dx = absDiff(x1, x2);
+    euint64 dy = absDiff(y1, y2);
+    return FHE.add(FHE.mul(dx, dx), FHE.mul(dy, dy));
+}
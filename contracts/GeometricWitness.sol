@@ -1,21 +1,73 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.24;
 
-import { FHE, euint32, ebool } from "@fhevm/solidity/lib/FHE.sol";
+import { FHE, euint32, euint64, externalEuint32, ebool } from "@fhevm/solidity/lib/FHE.sol";
 import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
+import {
+    SHAPE_POINT,
+    SHAPE_CIRCLE,
+    SHAPE_RECTANGLE,
+    SHAPE_POLYGON,
+    SHAPE_SEGMENT,
+    SHAPE_POLYLINE,
+    POLYGON_COORDINATE_MAX,
+    SegmentHit,
+    isArea,
+    isPath,
+    maskPoint,
+    newPoint,
+    selectPoint
+} from "./EncryptedGeometry.sol";
+import { AreaGeometry } from "./AreaGeometry.sol";
+import { PathGeometry } from "./PathGeometry.sol";
+import { PolygonGeometry } from "./PolygonGeometry.sol";
 
 contract GeometricWitness is SepoliaConfig {
+    // Most vertices a deployment may let polygons have. Testing one polygon edge against a vertex of another polygon
+    // costs about 1.9M HCU, so this many tests, plus the work that closes a computation, fit one transaction.
+    uint8 internal constant POLYGON_VERTEX_LIMIT = 8;
+    
+    // Most vertices a polyline may have. Checking a point against a polyline costs about 2.3M HCU per vertex, so a
+    // point check against this many fits one transaction.
+    uint8 internal constant POLYLINE_VERTEX_LIMIT = 8;
+    
+    // Bits of the ratio that places a path pair's witness along a line, one more than its fraction bits so that a
+    // ratio of 1 fits, and how many of them a transaction works out. Each bit is a round of encrypted long division,
+    // and the HCU depth limit of a transaction leaves room for about this many rounds.
+    uint8 internal constant PATH_RATIO_BITS = 32;
+    uint8 internal constant PATH_RATIO_BITS_PER_STEP = 16;
+    
+    // Most parties an intersection session may have. The last one to join checks the common witness against every
+    // shape in its transaction, which this many points, rectangles and a circle leave well within the HCU limit.
+    uint8 internal constant SESSION_PARTY_LIMIT = 8;
+    
+    // How a result's witness point was chosen: a fixed point of the intersection, a random one,
+    // or whatever an authorized computer supplied through storeIntersectionResult
+    uint8 internal constant WITNESS_DETERMINISTIC = 0;
+    uint8 internal constant WITNESS_RANDOMIZED = 1;
+    uint8 internal constant WITNESS_EXTERNAL = 2;
+    
+    // Where a computation request stands. An approval lets either owner compute the pair for CONSENT_PERIOD.
+    uint8 internal constant REQUEST_PENDING = 0;
+    uint8 internal constant REQUEST_APPROVED = 1;
+    uint8 internal constant REQUEST_REJECTED = 2;
+    uint64 internal constant CONSENT_PERIOD = 1 days;
+    
     struct EncryptedShape {
         uint256 id;
         euint32[] parameters; // Encrypted shape parameters
-        uint8 shapeType;      // 0: point, 1: circle, 2: rectangle, etc.
+        uint8 shapeType;      // 0: point [x, y], 1: circle [cx, cy, r], 2: rectangle [minX, minY, maxX, maxY],
+                              // 3: convex polygon [x0, y0, x1, y1, ...] counter-clockwise,
+                              // 4: segment [x1, y1, x2, y2], 5: polyline [x0, y0, x1, y1, ...]
         uint256 timestamp;
+        address owner;        // Submitter, granted ACL access to every result computed against this shape
     }
     
     struct IntersectionResult {
         ebool hasIntersection;       // Encrypted intersection status
         euint32[] witnessPoint;     // Encrypted witness point coordinates
         bool isComputed;
+        uint8 witnessStrategy;      // WITNESS_DETERMINISTIC, WITNESS_RANDOMIZED or WITNESS_EXTERNAL
     }
     
     struct DecryptedResult {
@@ -24,30 +76,247 @@ contract GeometricWitness is SepoliaConfig {
         bool isRevealed;
     }
     
+    // A reveal waiting on the decryption oracle, tied to the handles it was requested for so that the callback can
+    // tell when the pair was computed again in the meantime
+    struct PendingReveal {
+        bytes32 resultHash;
+        bytes32 handlesHash;         // keccak256 of the requested handles, in request order
+    }
+    
+    struct ParameterCount {
+        uint8 min;
+        uint8 max;
+    }
+    
+    // Separating-axis test of two polygons, spread over transactions: each edge of either polygon is tested against
+    // every vertex of the other, and the polygons are apart if one edge has all of them strictly outside
+    struct PolygonOverlap {
+        uint256 shapeId1;            // Lower id of the pair; its edges are tested first
+        uint256 shapeId2;
+        uint8 nextEdge;
+        uint8 edgeCount;
+        uint8 witnessStrategy;
+        ebool separated;             // Some edge tested so far separates the polygons
+        ebool[] containedInFirst;    // Per vertex of the second polygon: inside every first-polygon edge tested so far
+        ebool[] containedInSecond;   // Per vertex of the first polygon: inside every second-polygon edge tested so far
+    }
+    
+    // Test of a segment or polyline, a path, against another shape, spread over transactions: one step per segment,
+    // or per segment pair when both are paths, then the long division that places the witness, then a closing step
+    struct PathCrossing {
+        uint256 pathId;              // The path, or the lower id when both shapes are paths
+        uint256 otherId;
+        uint8 nextStep;
+        uint8 stepCount;
+        uint8 segmentSteps;
+        uint8 witnessStrategy;
+        SegmentHit hit;              // The first segment tested so far that meets the other shape, else the last one
+        euint64 remainder;           // Long division of the hit's numerator by its denominator
+        euint64 ratio;
+    }
+    
+    // Shapes of several parties checked for a point all of them share. Each listed party joins with one of its
+    // shapes, and the last one to join computes the result, unless a party cancels the session first.
+    struct IntersectionSession {
+        address[] parties;           // A party listed twice joins with two shapes
+        uint256[] shapeIds;          // Per party, 0 until it joins
+        uint8 joinedCount;
+        bool hasCircle;              // At most one circle may join, which keeps the common-point check exact
+        ebool hasCommonPoint;
+        euint32[] witnessPoint;
+        bool isComputed;
+        bool isCancelled;
+    }
+    
+    // A request by the owner of one shape to check it against another owner's shape, or by any account to check
+    // points against another owner's shape, which that owner decides on
+    struct ComputationRequest {
+        address requester;
+        uint256 shapeId;             // The requester's shape, 0 for point checks
+        uint256 targetShapeId;       // The shape whose owner must approve
+        uint8 status;                // REQUEST_PENDING, REQUEST_APPROVED or REQUEST_REJECTED
+        uint64 expiresAt;            // When an approval lapses, 0 until approved
+    }
+    
+    // Limits an owner sets on how often other accounts may check a shape, so that its geometry cannot be narrowed
+    // down by many queries: at most maxQueries per window, and at most maxPerCounterparty of them by any one account
+    struct QueryBudget {
+        uint32 maxQueries;
+        uint32 maxPerCounterparty;
+        uint64 window;               // Seconds, 0 for no limit; windows are aligned to multiples of it
+    }
+    
+    // Queries counted against a budget in the window they were made in
+    struct QueryUsage {
+        uint64 windowIndex;          // block.timestamp / window at the last query
+        uint32 used;
+    }
+    
+    // Coordinate encoding shared by every shape on this deployment: a real coordinate v is stored as
+    // round(v * coordinateScale) + coordinateOffset, and a radius r as round(r * coordinateScale).
+    // The predicates are invariant under that map, so it only matters to clients decoding revealed witnesses.
+    uint32 public immutable coordinateOffset;
+    uint32 public immutable coordinateScale;
+    
+    // Most vertices a polygon may have on this deployment, at most POLYGON_VERTEX_LIMIT
+    uint8 public immutable maxPolygonVertices;
+    
     // Contract state
+    address public owner;
+    mapping(address => bool) public authorizedComputers;
     uint256 public shapeCount;
     mapping(uint256 => EncryptedShape) public encryptedShapes;
     mapping(bytes32 => IntersectionResult) public intersectionResults;
     mapping(bytes32 => DecryptedResult) public decryptedResults;
+    mapping(address => uint256[]) private ownedShapes;
     
     // Decryption requests tracking
-    mapping(uint256 => bytes32) private requestToResultHash;
+    mapping(uint256 => PendingReveal) private pendingReveals;
+    
+    // Shape-type registry: every type the predicates understand, with the parameter count a shape of it must have
+    uint8[] private shapeTypes;
+    mapping(uint8 => ParameterCount) private shapeParameterCounts;
+    
+    // Polygon pairs and path pairs whose intersection is being computed, by result key
+    mapping(bytes32 => PolygonOverlap) private polygonOverlaps;
+    mapping(bytes32 => PathCrossing) private pathCrossings;
+    
+    // Intersection sessions, numbered from 1 like shapes
+    uint256 public sessionCount;
+    mapping(uint256 => IntersectionSession) private sessions;
+    
+    // Computation requests, numbered from 1, and until when each pair of differently owned shapes may be computed,
+    // by result key, and until when an account may check points against another owner's shape, by shape
+    uint256 public computationRequestCount;
+    mapping(uint256 => ComputationRequest) public computationRequests;
+    mapping(bytes32 => uint64) public approvalExpiries;
+    mapping(uint256 => mapping(address => uint64)) public verificationExpiries;
+    
+    // Query budgets by shape, with the queries counted against them overall and per counterparty
+    mapping(uint256 => QueryBudget) public queryBudgets;
+    mapping(uint256 => QueryUsage) private queryUsage;
+    mapping(uint256 => mapping(address => QueryUsage)) private counterpartyUsage;
     
     // Events
     event ShapeSubmitted(uint256 indexed id, uint256 timestamp);
     event IntersectionComputed(bytes32 indexed resultHash);
+    event DecryptionRequested(bytes32 indexed resultHash, uint256 requestId);
     event ResultRevealed(bytes32 indexed resultHash);
+    event IntersectionResultStored(bytes32 indexed resultHash, address indexed writer);
+    event WitnessVerified(uint256 indexed shapeId, address indexed verifier, ebool inside);
+    event SessionCreated(uint256 indexed sessionId, address indexed creator);
+    event SessionJoined(uint256 indexed sessionId, address indexed party, uint256 shapeId);
+    event SessionComputed(uint256 indexed sessionId);
+    event SessionCancelled(uint256 indexed sessionId, address indexed party);
+    event ComputationRequested(uint256 indexed requestId, uint256 indexed targetShapeId, address indexed requester);
+    event ComputationApproved(uint256 indexed requestId, uint64 expiresAt);
+    event ComputationRejected(uint256 indexed requestId);
+    event QueryBudgetSet(uint256 indexed shapeId, uint32 maxQueries, uint32 maxPerCounterparty, uint64 window);
+    event AuthorizedComputerSet(address indexed computer, bool authorized);
+    event OwnershipTransferred(address indexed previousOwner, address indexed newOwner);
+    
+    // Errors
+    error UnsupportedShapeType(uint8 shapeType);
+    error InvalidParameterCount(uint8 shapeType, uint256 count);
+    
+    modifier onlyOwner() {
+        require(msg.sender == owner, "Not owner");
+        _;
+    }
+    
+    modifier onlyAuthorizedComputer() {
+        require(authorizedComputers[msg.sender], "Not authorized");
+        _;
+    }
     
     modifier onlyShapeOwner(uint256 shapeId) {
-        // Access control placeholder
+        require(encryptedShapes[shapeId].owner == msg.sender, "Not shape owner");
         _;
     }
     
-    /// @notice Submit encrypted geometric shape
+    /// @dev Either owner of a pair may act on the result the two shapes share
+    modifier onlyPairOwner(uint256 shapeId1, uint256 shapeId2) {
+        require(
+            encryptedShapes[shapeId1].owner == msg.sender || encryptedShapes[shapeId2].owner == msg.sender,
+            "Not shape owner"
+        );
+        _;
+    }
+    
+    constructor(
+        uint32 offset,
+        uint32 scale,
+        uint8 maxVertices
+    ) {
+        require(scale > 0, "Invalid scale");
+        require(maxVertices >= 3 && maxVertices <= POLYGON_VERTEX_LIMIT, "Invalid vertex cap");
+        coordinateOffset = offset;
+        coordinateScale = scale;
+        maxPolygonVertices = maxVertices;
+        registerShapeType(SHAPE_POINT, 2, 2);
+        registerShapeType(SHAPE_CIRCLE, 3, 3);
+        registerShapeType(SHAPE_RECTANGLE, 4, 4);
+        registerShapeType(SHAPE_POLYGON, 6, 2 * maxVertices);
+        registerShapeType(SHAPE_SEGMENT, 4, 4);
+        registerShapeType(SHAPE_POLYLINE, 4, 2 * POLYLINE_VERTEX_LIMIT);
+        owner = msg.sender;
+        emit OwnershipTransferred(address(0), msg.sender);
+    }
+    
+    /// @dev Adds a shape type the predicates handle; a zero maximum is reserved for unregistered types
+    function registerShapeType(uint8 shapeType, uint8 minParameters, uint8 maxParameters) internal {
+        shapeTypes.push(shapeType);
+        shapeParameterCounts[shapeType] = ParameterCount(minParameters, maxParameters);
+    }
+    
+    /// @notice Hand the owner role, which manages authorized computers, to another account
+    function transferOwnership(address newOwner) public onlyOwner {
+        require(newOwner != address(0), "Invalid owner");
+        emit OwnershipTransferred(owner, newOwner);
+        owner = newOwner;
+    }
+    
+    /// @notice Allow or revoke an off-contract computer to store intersection results
+    function setAuthorizedComputer(address computer, bool authorized) public onlyOwner {
+        authorizedComputers[computer] = authorized;
+        emit AuthorizedComputerSet(computer, authorized);
+    }
+    
+    /// @notice Submit a shape encrypted client-side, checking every parameter against the input proof. Handles are
+    ///         only taken through a proof, so no one can register another owner's ciphertexts as a shape of their own.
     function submitEncryptedShape(
+        externalEuint32[] calldata inputs,
+        bytes calldata inputProof,
+        uint8 shapeType
+    ) external {
+        euint32[] memory parameters = new euint32[](inputs.length);
+        for (uint i = 0; i < inputs.length; i++) {
+            parameters[i] = FHE.fromExternal(inputs[i], inputProof);
+            FHE.allowThis(parameters[i]);
+            FHE.allow(parameters[i], msg.sender);
+        }
+        
+        storeShape(parameters, shapeType);
+    }
+    
+    /// @dev Records a shape whose parameter handles were just proven to the caller, owned by the caller
+    function storeShape(
         euint32[] memory parameters,
         uint8 shapeType
-    ) public {
+    ) internal {
+        ParameterCount memory count = shapeParameterCounts[shapeType];
+        if (count.max == 0) {
+            revert UnsupportedShapeType(shapeType);
+        }
+        // Polygons and polylines list their vertices as (x, y) pairs
+        if (
+            parameters.length < count.min ||
+            parameters.length > count.max ||
+            ((shapeType == SHAPE_POLYGON || shapeType == SHAPE_POLYLINE) && parameters.length % 2 != 0)
+        ) {
+            revert InvalidParameterCount(shapeType, parameters.length);
+        }
+        
         shapeCount++;
         uint256 newId = shapeCount;
         
@@ -55,8 +324,10 @@ contract GeometricWitness is SepoliaConfig {
             id: newId,
             parameters: parameters,
             shapeType: shapeType,
-            timestamp: block.timestamp
+            timestamp: block.timestamp,
+            owner: msg.sender
         });
+        ownedShapes[msg.sender].push(newId);
         
         emit ShapeSubmitted(newId, block.timestamp);
     }
@@ -64,30 +335,568 @@ contract GeometricWitness is SepoliaConfig {
     /// @notice Compute intersection between two shapes
     function computeIntersection(
         uint256 shapeId1,
-        uint256 shapeId2
-    ) public {
+        uint256 shapeId2,
+        uint8 witnessStrategy
+    ) public onlyPairOwner(shapeId1, shapeId2) {
         EncryptedShape storage shape1 = encryptedShapes[shapeId1];
         EncryptedShape storage shape2 = encryptedShapes[shapeId2];
         require(shape1.timestamp > 0 && shape2.timestamp > 0, "Shape not found");
+        require(
+            witnessStrategy == WITNESS_DETERMINISTIC || witnessStrategy == WITNESS_RANDOMIZED,
+            "Invalid witness strategy"
+        );
+        // Shapes of two owners are only checked against each other while an approval for the pair lasts
+        if (shape1.owner != shape2.owner) {
+            require(approvalExpiries[pairKey(shapeId1, shapeId2)] >= block.timestamp, "Computation not approved");
+        }
+        chargeQuery(shapeId1, shape2.owner);
+        chargeQuery(shapeId2, shape1.owner);
+        // Only circle and rectangle pairs can sample their witness: a point is the only candidate of its pairs,
+        // polygon pairs pick a vertex and path pairs a crossing. Those get, and record, the deterministic witness.
+        if (!isArea(shape1.shapeType) || !isArea(shape2.shapeType)) {
+            witnessStrategy = WITNESS_DETERMINISTIC;
+        }
+        
+        // Polygon pairs and pairs of a path with anything but a point take more work than fits one transaction;
+        // advanceIntersection carries on
+        if (shape1.shapeType == SHAPE_POLYGON && shape2.shapeType == SHAPE_POLYGON) {
+            startPolygonOverlap(shapeId1, shapeId2, witnessStrategy);
+            return;
+        }
+        if (
+            (isPath(shape1.shapeType) || isPath(shape2.shapeType)) &&
+            shape1.shapeType != SHAPE_POINT &&
+            shape2.shapeType != SHAPE_POINT
+        ) {
+            startPathCrossing(shapeId1, shapeId2, witnessStrategy);
+            return;
+        }
         
-        bytes32 resultHash = keccak256(abi.encodePacked(shapeId1, shapeId2));
+        (ebool hasIntersection, euint32[] memory witnessPoint) = evaluateIntersection(
+            shape1,
+            shape2,
+            witnessStrategy == WITNESS_RANDOMIZED
+        );
+        bytes32 resultHash = writeIntersectionResult(
+            shapeId1,
+            shapeId2,
+            hasIntersection,
+            witnessPoint,
+            witnessStrategy
+        );
         
         emit IntersectionComputed(resultHash);
     }
     
-    /// @notice Store encrypted intersection result
+    /// @notice Limit how often other accounts may check a shape: at most maxQueries computations and witness checks
+    ///         per window of `window` seconds, and at most maxPerCounterparty of them by any one account. A zero
+    ///         window lifts the limit.
+    function setQueryBudget(
+        uint256 shapeId,
+        uint32 maxQueries,
+        uint32 maxPerCounterparty,
+        uint64 window
+    ) external onlyShapeOwner(shapeId) {
+        require(window == 0 || maxPerCounterparty <= maxQueries, "Invalid budget");
+        queryBudgets[shapeId] = QueryBudget(maxQueries, maxPerCounterparty, window);
+        
+        emit QueryBudgetSet(shapeId, maxQueries, maxPerCounterparty, window);
+    }
+    
+    /// @dev Counts a query of a shape by a counterparty against the shape's budget, reverting once either limit is
+    ///      spent. The owner's own queries are not counted.
+    function chargeQuery(uint256 shapeId, address counterparty) internal {
+        QueryBudget memory budget = queryBudgets[shapeId];
+        if (budget.window == 0 || counterparty == encryptedShapes[shapeId].owner) {
+            return;
+        }
+        
+        uint64 windowIndex = uint64(block.timestamp / budget.window);
+        uint32 used = usedInWindow(queryUsage[shapeId], windowIndex);
+        uint32 usedByCounterparty = usedInWindow(counterpartyUsage[shapeId][counterparty], windowIndex);
+        require(used < budget.maxQueries && usedByCounterparty < budget.maxPerCounterparty, "Query budget exceeded");
+        
+        queryUsage[shapeId] = QueryUsage(windowIndex, used + 1);
+        counterpartyUsage[shapeId][counterparty] = QueryUsage(windowIndex, usedByCounterparty + 1);
+    }
+    
+    /// @dev Queries counted in the given window; counts from earlier windows have lapsed
+    function usedInWindow(QueryUsage storage usage, uint64 windowIndex) internal view returns (uint32) {
+        return usage.windowIndex == windowIndex ? usage.used : 0;
+    }
+    
+    /// @notice Ask the owner of another shape to approve checking it against one of the caller's shapes
+    function requestComputation(
+        uint256 shapeId,
+        uint256 targetShapeId
+    ) external onlyShapeOwner(shapeId) returns (uint256 requestId) {
+        return openRequest(shapeId, targetShapeId);
+    }
+    
+    /// @notice Ask the owner of a shape to approve the caller checking points against it with verifyWitness
+    function requestVerification(uint256 targetShapeId) external returns (uint256 requestId) {
+        return openRequest(0, targetShapeId);
+    }
+    
+    /// @dev Records a pending request by the caller against another owner's shape
+    function openRequest(uint256 shapeId, uint256 targetShapeId) internal returns (uint256 requestId) {
+        address approver = encryptedShapes[targetShapeId].owner;
+        require(approver != address(0), "Shape not found");
+        require(approver != msg.sender, "Consent not needed");
+        
+        computationRequestCount++;
+        requestId = computationRequestCount;
+        
+        computationRequests[requestId] = ComputationRequest({
+            requester: msg.sender,
+            shapeId: shapeId,
+            targetShapeId: targetShapeId,
+            status: REQUEST_PENDING,
+            expiresAt: 0
+        });
+        
+        emit ComputationRequested(requestId, targetShapeId, msg.sender);
+    }
+    
+    /// @notice Approve a request against one of the caller's shapes until the approval expires: a computation
+    ///         request lets either owner compute the pair, a verification request lets the requester check points
+    ///         against the caller's shape
+    function approveComputation(uint256 requestId) external {
+        ComputationRequest storage request = pendingRequest(requestId);
+        request.status = REQUEST_APPROVED;
+        request.expiresAt = uint64(block.timestamp) + CONSENT_PERIOD;
+        if (request.shapeId == 0) {
+            verificationExpiries[request.targetShapeId][request.requester] = request.expiresAt;
+        } else {
+            approvalExpiries[pairKey(request.shapeId, request.targetShapeId)] = request.expiresAt;
+        }
+        
+        emit ComputationApproved(requestId, request.expiresAt);
+    }
+    
+    /// @notice Decline a request against one of the caller's shapes
+    function rejectComputation(uint256 requestId) external {
+        pendingRequest(requestId).status = REQUEST_REJECTED;
+        
+        emit ComputationRejected(requestId);
+    }
+    
+    /// @dev Loads a request that is still waiting on the caller, the owner of its target shape
+    function pendingRequest(uint256 requestId) internal view returns (ComputationRequest storage request) {
+        request = computationRequests[requestId];
+        require(request.requester != address(0), "Request not found");
+        require(encryptedShapes[request.targetShapeId].owner == msg.sender, "Not shape owner");
+        require(request.status == REQUEST_PENDING, "Request not pending");
+    }
+    
+    /// @notice Take the next steps of an intersection computeIntersection started but could not finish, writing the
+    ///         result after the last one
+    function advanceIntersection(
+        uint256 shapeId1,
+        uint256 shapeId2
+    ) public onlyPairOwner(shapeId1, shapeId2) {
+        bytes32 resultHash = pairKey(shapeId1, shapeId2);
+        PolygonOverlap storage overlap = polygonOverlaps[resultHash];
+        if (overlap.nextEdge < overlap.edgeCount) {
+            testPolygonEdges(overlap);
+            return;
+        }
+        PathCrossing storage crossing = pathCrossings[resultHash];
+        require(crossing.nextStep < crossing.stepCount, "No intersection in progress");
+        
+        runPathStep(crossing);
+    }
+    
+    /// @notice Get how many steps of a pair's intersection have been taken, out of how many: polygon edges for
+    ///         polygon pairs, segment tests plus division and closing steps for path pairs; (0, 0) when none was
+    ///         started
+    function getIntersectionProgress(
+        uint256 shapeId1,
+        uint256 shapeId2
+    ) public view returns (uint8 done, uint8 total) {
+        bytes32 resultHash = pairKey(shapeId1, shapeId2);
+        PolygonOverlap storage overlap = polygonOverlaps[resultHash];
+        if (overlap.edgeCount > 0) {
+            return (overlap.nextEdge, overlap.edgeCount);
+        }
+        PathCrossing storage crossing = pathCrossings[resultHash];
+        return (crossing.nextStep, crossing.stepCount);
+    }
+    
+    /// @notice Store an intersection result computed off-contract by an authorized computer
+    /// @dev The computer must hold ACL access to the handles and grant it to this contract, at least transiently
     function storeIntersectionResult(
         uint256 shapeId1,
         uint256 shapeId2,
         ebool hasIntersection,
         euint32[] memory witnessPoint
-    ) public {
-        bytes32 resultHash = keccak256(abi.encodePacked(shapeId1, shapeId2));
+    ) public onlyAuthorizedComputer {
+        require(
+            encryptedShapes[shapeId1].timestamp > 0 && encryptedShapes[shapeId2].timestamp > 0,
+            "Shape not found"
+        );
+        require(FHE.isSenderAllowed(hasIntersection), "Handle not allowed");
+        for (uint i = 0; i < witnessPoint.length; i++) {
+            require(FHE.isSenderAllowed(witnessPoint[i]), "Handle not allowed");
+        }
+        
+        writeIntersectionResult(shapeId1, shapeId2, hasIntersection, witnessPoint, WITNESS_EXTERNAL);
+    }
+    
+    /// @notice Check whether an encrypted point lies in a shape, edges included. The answer is granted to the caller
+    ///         alone and emitted with WitnessVerified, so a witness can be checked without revealing it or the shape.
+    ///         Accounts other than the shape's owner need an unexpired approval of a verification request from that
+    ///         owner; approving a computation does not grant it.
+    function verifyWitness(
+        uint256 shapeId,
+        externalEuint32[] calldata point,
+        bytes calldata inputProof
+    ) external returns (ebool inside) {
+        EncryptedShape storage shape = encryptedShapes[shapeId];
+        require(shape.timestamp > 0, "Shape not found");
+        require(point.length == 2, "Invalid point");
+        // Each answer narrows the shape down, and at points of the caller's choosing, so it takes consent of its own
+        if (msg.sender != shape.owner) {
+            require(verificationExpiries[shapeId][msg.sender] >= block.timestamp, "Verification not approved");
+        }
+        chargeQuery(shapeId, msg.sender);
+        
+        euint32[] memory coordinates = newPoint(
+            FHE.fromExternal(point[0], inputProof),
+            FHE.fromExternal(point[1], inputProof)
+        );
+        inside = isPointInShape(coordinates, shape.shapeType, shape.parameters);
+        
+        // User decryption needs the contract on the ACL as well as the caller
+        FHE.allowThis(inside);
+        FHE.allow(inside, msg.sender);
+        
+        emit WitnessVerified(shapeId, msg.sender, inside);
+    }
+    
+    /// @notice Open a session in which each listed party joins with one of its shapes, to learn whether all of the
+    ///         shapes share a point
+    function createSession(address[] calldata parties) external returns (uint256 sessionId) {
+        require(parties.length >= 2 && parties.length <= SESSION_PARTY_LIMIT, "Invalid party count");
+        
+        sessionCount++;
+        sessionId = sessionCount;
+        
+        IntersectionSession storage session = sessions[sessionId];
+        session.parties = parties;
+        session.shapeIds = new uint256[](parties.length);
+        
+        emit SessionCreated(sessionId, msg.sender);
+    }
+    
+    /// @notice Join a session with a point, circle or rectangle of the caller's; the last party to join computes the
+    ///         result, which every party may then user-decrypt
+    function joinSession(uint256 sessionId, uint256 shapeId) external onlyShapeOwner(shapeId) {
+        IntersectionSession storage session = sessions[sessionId];
+        require(session.parties.length > 0, "Session not found");
+        require(!session.isCancelled, "Session closed");
+        
+        uint8 shapeType = encryptedShapes[shapeId].shapeType;
+        if (shapeType == SHAPE_CIRCLE) {
+            require(!session.hasCircle, "Session already has a circle");
+            session.hasCircle = true;
+        } else if (shapeType != SHAPE_POINT && shapeType != SHAPE_RECTANGLE) {
+            revert UnsupportedShapeType(shapeType);
+        }
+        
+        // The caller takes its first listed place that has not joined yet
+        uint256 place = 0;
+        while (
+            place < session.parties.length &&
+            (session.parties[place] != msg.sender || session.shapeIds[place] != 0)
+        ) {
+            place++;
+        }
+        require(place < session.parties.length, "Not an open session party");
+        session.shapeIds[place] = shapeId;
+        session.joinedCount++;
+        
+        emit SessionJoined(sessionId, msg.sender, shapeId);
+        
+        if (session.joinedCount == session.parties.length) {
+            computeSession(sessionId, session);
+        }
+    }
+    
+    /// @notice Cancel a session that is still waiting on parties to join, so that none can join it any more. Any
+    ///         listed party may, which frees the others from a session a party never joins.
+    function cancelSession(uint256 sessionId) external {
+        IntersectionSession storage session = sessions[sessionId];
+        require(session.parties.length > 0, "Session not found");
+        require(!session.isComputed && !session.isCancelled, "Session closed");
+        
+        uint256 place = 0;
+        while (place < session.parties.length && session.parties[place] != msg.sender) {
+            place++;
+        }
+        require(place < session.parties.length, "Not a session party");
+        session.isCancelled = true;
+        
+        emit SessionCancelled(sessionId, msg.sender);
+    }
+    
+    /// @dev Dispatches on the (unordered) pair of shape types to the matching encrypted predicate
+    function evaluateIntersection(
+        EncryptedShape storage shape1,
+        EncryptedShape storage shape2,
+        bool randomized
+    ) internal returns (ebool hasIntersection, euint32[] memory witnessPoint) {
+        uint8 type1 = shape1.shapeType;
+        uint8 type2 = shape2.shapeType;
+        euint32[] memory params1 = shape1.parameters;
+        euint32[] memory params2 = shape2.parameters;
+        
+        // Order the pair so that type1 <= type2
+        if (type1 > type2) {
+            (type1, type2) = (type2, type1);
+            (params1, params2) = (params2, params1);
+        }
+        
+        if (type1 != SHAPE_POINT) {
+            return AreaGeometry.evaluatePair(type1, params1, type2, params2, randomized);
+        }
+        
+        // The point itself is the only candidate witness. It is only meaningful when the shapes meet; otherwise it
+        // would leak shape geometry.
+        hasIntersection = isPointInShape(params1, type2, params2);
+        witnessPoint = maskPoint(hasIntersection, params1);
+    }
+    
+    /// @dev Starts, or restarts, the separating-axis test of a polygon pair and runs its first edges
+    function startPolygonOverlap(
+        uint256 shapeId1,
+        uint256 shapeId2,
+        uint8 witnessStrategy
+    ) internal {
+        bytes32 resultHash = pairKey(shapeId1, shapeId2);
+        require(!decryptedResults[resultHash].isRevealed, "Already revealed");
+        
+        PolygonOverlap storage overlap = polygonOverlaps[resultHash];
+        (overlap.shapeId1, overlap.shapeId2) = shapeId1 < shapeId2 ? (shapeId1, shapeId2) : (shapeId2, shapeId1);
+        uint256 vertices1 = encryptedShapes[overlap.shapeId1].parameters.length / 2;
+        uint256 vertices2 = encryptedShapes[overlap.shapeId2].parameters.length / 2;
+        overlap.nextEdge = 0;
+        overlap.edgeCount = uint8(vertices1 + vertices2);
+        overlap.witnessStrategy = witnessStrategy;
+        
+        overlap.separated = FHE.asEbool(false);
+        FHE.allowThis(overlap.separated);
+        delete overlap.containedInFirst;
+        delete overlap.containedInSecond;
+        for (uint i = 0; i < vertices2; i++) {
+            overlap.containedInFirst.push(FHE.asEbool(true));
+            FHE.allowThis(overlap.containedInFirst[i]);
+        }
+        for (uint i = 0; i < vertices1; i++) {
+            overlap.containedInSecond.push(FHE.asEbool(true));
+            FHE.allowThis(overlap.containedInSecond[i]);
+        }
+        
+        testPolygonEdges(overlap);
+    }
+    
+    /// @dev Tests edges in order while the vertex tests fit POLYGON_VERTEX_LIMIT, always at least one edge, and
+    ///      closes the computation once every edge is done
+    function testPolygonEdges(PolygonOverlap storage overlap) internal {
+        euint32[] memory polygon1 = encryptedShapes[overlap.shapeId1].parameters;
+        euint32[] memory polygon2 = encryptedShapes[overlap.shapeId2].parameters;
+        uint256 edges1 = polygon1.length / 2;
+        
+        uint256 tests = 0;
+        while (overlap.nextEdge < overlap.edgeCount) {
+            bool ofFirst = overlap.nextEdge < edges1;
+            euint32[] memory other = ofFirst ? polygon2 : polygon1;
+            if (tests > 0 && tests + other.length / 2 > POLYGON_VERTEX_LIMIT) {
+                return;
+            }
+            
+            if (ofFirst) {
+                testPolygonEdge(overlap, polygon1, overlap.nextEdge, polygon2, overlap.containedInFirst);
+            } else {
+                testPolygonEdge(overlap, polygon2, overlap.nextEdge - edges1, polygon1, overlap.containedInSecond);
+            }
+            tests += other.length / 2;
+            overlap.nextEdge++;
+        }
+        
+        finishPolygonOverlap(overlap, polygon1, polygon2);
+    }
+    
+    /// @dev Tests one edge against every vertex of the other polygon, narrowing the vertices it contains and
+    ///      recording whether the edge separates the two
+    function testPolygonEdge(
+        PolygonOverlap storage overlap,
+        euint32[] memory polygon,
+        uint256 edge,
+        euint32[] memory other,
+        ebool[] storage contained
+    ) internal {
+        (ebool[] memory narrowed, ebool separates) = PolygonGeometry.testEdge(polygon, edge, other, contained);
+        for (uint j = 0; j < narrowed.length; j++) {
+            contained[j] = narrowed[j];
+        }
+        overlap.separated = FHE.or(overlap.separated, separates);
+        FHE.allowThis(overlap.separated);
+    }
+    
+    /// @dev Writes a polygon pair's result. The witness is a vertex of one polygon that lies in the other, which
+    ///      exists whenever one polygon holds a corner of the other. Polygons that only cross each other, like the
+    ///      bars of a plus sign, have an intersection whose corners are all edge crossings; finding one would take
+    ///      encrypted division per edge pair, so the first vertex of the first polygon stands in there instead and
+    ///      lies outside the second polygon. The witness is picked the same way whichever strategy was asked for.
+    function finishPolygonOverlap(
+        PolygonOverlap storage overlap,
+        euint32[] memory polygon1,
+        euint32[] memory polygon2
+    ) internal {
+        ebool hasIntersection = FHE.not(overlap.separated);
+        
+        euint32[] memory witnessPoint = newPoint(polygon1[0], polygon1[1]);
+        for (uint i = polygon1.length / 2; i > 0; i--) {
+            euint32[] memory vertex = newPoint(polygon1[2 * i - 2], polygon1[2 * i - 1]);
+            witnessPoint = selectPoint(overlap.containedInSecond[i - 1], vertex, witnessPoint);
+        }
+        for (uint i = polygon2.length / 2; i > 0; i--) {
+            euint32[] memory vertex = newPoint(polygon2[2 * i - 2], polygon2[2 * i - 1]);
+            witnessPoint = selectPoint(overlap.containedInFirst[i - 1], vertex, witnessPoint);
+        }
+        witnessPoint = maskPoint(hasIntersection, witnessPoint);
+        
+        bytes32 resultHash = writeIntersectionResult(
+            overlap.shapeId1,
+            overlap.shapeId2,
+            hasIntersection,
+            witnessPoint,
+            overlap.witnessStrategy
+        );
+        
+        emit IntersectionComputed(resultHash);
+    }
+    
+    /// @dev Starts, or restarts, the test of a path against a path, circle or rectangle and runs its first step
+    function startPathCrossing(
+        uint256 shapeId1,
+        uint256 shapeId2,
+        uint8 witnessStrategy
+    ) internal {
+        bytes32 resultHash = pairKey(shapeId1, shapeId2);
+        require(!decryptedResults[resultHash].isRevealed, "Already revealed");
+        
+        (uint256 pathId, uint256 otherId) = shapeId1 < shapeId2 ? (shapeId1, shapeId2) : (shapeId2, shapeId1);
+        if (!isPath(encryptedShapes[pathId].shapeType)) {
+            (pathId, otherId) = (otherId, pathId);
+        }
+        uint8 otherType = encryptedShapes[otherId].shapeType;
+        require(
+            isPath(otherType) || otherType == SHAPE_CIRCLE || otherType == SHAPE_RECTANGLE,
+            "Unsupported shape pair"
+        );
+        
+        uint256 segmentSteps = encryptedShapes[pathId].parameters.length / 2 - 1;
+        if (isPath(otherType)) {
+            segmentSteps *= encryptedShapes[otherId].parameters.length / 2 - 1;
+        }
+        
+        PathCrossing storage crossing = pathCrossings[resultHash];
+        crossing.pathId = pathId;
+        crossing.otherId = otherId;
+        crossing.nextStep = 0;
+        crossing.segmentSteps = uint8(segmentSteps);
+        crossing.stepCount = uint8(segmentSteps + PATH_RATIO_BITS / PATH_RATIO_BITS_PER_STEP + 1);
+        crossing.witnessStrategy = witnessStrategy;
+        
+        runPathStep(crossing);
+    }
+    
+    /// @dev Takes one step of a path pair. Every kind of step uses most of the HCU a transaction allows, so each
+    ///      transaction takes exactly one.
+    function runPathStep(PathCrossing storage crossing) internal {
+        uint8 step = crossing.nextStep;
+        crossing.nextStep++;
+        
+        if (step < crossing.segmentSteps) {
+            EncryptedShape storage other = encryptedShapes[crossing.otherId];
+            PathGeometry.testSegment(
+                crossing.hit,
+                encryptedShapes[crossing.pathId].parameters,
+                other.shapeType,
+                other.parameters,
+                step
+            );
+        } else if (step < crossing.stepCount - 1) {
+            dividePathRatio(crossing, step == crossing.segmentSteps);
+        } else {
+            finishPathCrossing(crossing);
+        }
+    }
+    
+    /// @dev Works out the next PATH_RATIO_BITS_PER_STEP bits of the hit's numerator / denominator
+    function dividePathRatio(PathCrossing storage crossing, bool first) internal {
+        (euint64 remainder, euint64 ratio) = PathGeometry.divideRatio(
+            first ? crossing.hit.numerator : crossing.remainder,
+            first ? FHE.asEuint64(0) : crossing.ratio,
+            crossing.hit.denominator,
+            PATH_RATIO_BITS_PER_STEP
+        );
+        
+        crossing.remainder = remainder;
+        crossing.ratio = ratio;
+        FHE.allowThis(remainder);
+        FHE.allowThis(ratio);
+    }
+    
+    /// @dev Writes a path pair's result, placing the witness along the hit's line unless the hit has an exact one,
+    ///      the same way whichever strategy was asked for
+    function finishPathCrossing(PathCrossing storage crossing) internal {
+        SegmentHit storage hit = crossing.hit;
+        euint32[] memory witnessPoint = PathGeometry.hitWitness(hit, crossing.ratio, PATH_RATIO_BITS - 1);
+        witnessPoint = maskPoint(hit.meets, witnessPoint);
+        
+        bytes32 resultHash = writeIntersectionResult(
+            crossing.pathId,
+            crossing.otherId,
+            hit.meets,
+            witnessPoint,
+            crossing.witnessStrategy
+        );
+        
+        emit IntersectionComputed(resultHash);
+    }
+    
+    /// @dev Single write path for results; a revealed result is final and can no longer be replaced
+    function writeIntersectionResult(
+        uint256 shapeId1,
+        uint256 shapeId2,
+        ebool hasIntersection,
+        euint32[] memory witnessPoint,
+        uint8 witnessStrategy
+    ) internal returns (bytes32 resultHash) {
+        resultHash = pairKey(shapeId1, shapeId2);
+        require(!decryptedResults[resultHash].isRevealed, "Already revealed");
+        
+        // Only the contract and the two shape owners may decrypt the result; owners user-decrypt it privately,
+        // while requestResultDecryption remains the opt-in path that publishes it on-chain
+        address owner1 = encryptedShapes[shapeId1].owner;
+        address owner2 = encryptedShapes[shapeId2].owner;
+        FHE.allowThis(hasIntersection);
+        FHE.allow(hasIntersection, owner1);
+        FHE.allow(hasIntersection, owner2);
+        for (uint i = 0; i < witnessPoint.length; i++) {
+            FHE.allowThis(witnessPoint[i]);
+            FHE.allow(witnessPoint[i], owner1);
+            FHE.allow(witnessPoint[i], owner2);
+        }
         
         intersectionResults[resultHash] = IntersectionResult({
             hasIntersection: hasIntersection,
             witnessPoint: witnessPoint,
-            isComputed: true
+            isComputed: true,
+            witnessStrategy: witnessStrategy
         });
         
         decryptedResults[resultHash] = DecryptedResult({
@@ -95,30 +904,56 @@ contract GeometricWitness is SepoliaConfig {
             witnessPoint: new uint32[](0),
             isRevealed: false
         });
+        
+        emit IntersectionResultStored(resultHash, msg.sender);
+    }
+    
+    /// @dev Checks the shapes a full session joined with for a common point, granting the result to every party
+    function computeSession(uint256 sessionId, IntersectionSession storage session) internal {
+        uint256 count = session.shapeIds.length;
+        uint8[] memory types = new uint8[](count);
+        euint32[][] memory parameters = new euint32[][](count);
+        for (uint i = 0; i < count; i++) {
+            EncryptedShape storage shape = encryptedShapes[session.shapeIds[i]];
+            types[i] = shape.shapeType;
+            parameters[i] = shape.parameters;
+        }
+        
+        (ebool hasCommonPoint, euint32[] memory witnessPoint) = AreaGeometry.evaluateCommonPoint(types, parameters);
+        FHE.allowThis(hasCommonPoint);
+        for (uint i = 0; i < witnessPoint.length; i++) {
+            FHE.allowThis(witnessPoint[i]);
+        }
+        for (uint i = 0; i < count; i++) {
+            FHE.allow(hasCommonPoint, session.parties[i]);
+            for (uint j = 0; j < witnessPoint.length; j++) {
+                FHE.allow(witnessPoint[j], session.parties[i]);
+            }
+        }
+        
+        session.hasCommonPoint = hasCommonPoint;
+        session.witnessPoint = witnessPoint;
+        session.isComputed = true;
+        
+        emit SessionComputed(sessionId);
     }
     
     /// @notice Request decryption of intersection result
     function requestResultDecryption(
         uint256 shapeId1,
         uint256 shapeId2
-    ) public onlyShapeOwner(shapeId1) onlyShapeOwner(shapeId2) {
-        bytes32 resultHash = keccak256(abi.encodePacked(shapeId1, shapeId2));
+    ) public onlyPairOwner(shapeId1, shapeId2) {
+        bytes32 resultHash = pairKey(shapeId1, shapeId2);
         IntersectionResult storage result = intersectionResults[resultHash];
         require(result.isComputed, "Result not computed");
         require(!decryptedResults[resultHash].isRevealed, "Already revealed");
         
-        // Prepare all ciphertexts for decryption
-        uint256 totalElements = 1 + result.witnessPoint.length;
-        bytes32[] memory ciphertexts = new bytes32[](totalElements);
-        
-        ciphertexts[0] = FHE.toBytes32(result.hasIntersection);
-        for (uint i = 0; i < result.witnessPoint.length; i++) {
-            ciphertexts[i+1] = FHE.toBytes32(result.witnessPoint[i]);
-        }
-        
         // Request decryption
+        bytes32[] memory ciphertexts = resultHandles(result);
         uint256 reqId = FHE.requestDecryption(ciphertexts, this.decryptIntersectionResult.selector);
-        requestToResultHash[reqId] = resultHash;
+        pendingReveals[reqId] = PendingReveal(resultHash, keccak256(abi.encodePacked(ciphertexts)));
+        
+        emit DecryptionRequested(resultHash, reqId);
     }
     
     /// @notice Callback for decrypted intersection result
@@ -127,24 +962,33 @@ contract GeometricWitness is SepoliaConfig {
         bytes memory cleartexts,
         bytes memory proof
     ) public {
-        bytes32 resultHash = requestToResultHash[requestId];
+        PendingReveal memory pending = pendingReveals[requestId];
+        bytes32 resultHash = pending.resultHash;
         require(resultHash != 0, "Invalid request");
         
-        IntersectionResult storage iResult = intersectionResults[resultHash];
         DecryptedResult storage dResult = decryptedResults[resultHash];
         require(!dResult.isRevealed, "Already revealed");
         
         // Verify decryption proof
         FHE.checkSignatures(requestId, cleartexts, proof);
         
-        // Process decrypted values
-        uint32[] memory results = abi.decode(cleartexts, (uint32[]));
+        // The pair was computed again after the reveal was requested, so these cleartexts belong to a replaced
+        // result; the new one stays unrevealed until a reveal is requested for it
+        bytes32[] memory handles = resultHandles(intersectionResults[resultHash]);
+        if (keccak256(abi.encodePacked(handles)) != pending.handlesHash) {
+            return;
+        }
+        
+        // Cleartexts hold one 32-byte word per requested handle; prefix offset and length to decode them as an array
+        uint256 count = handles.length;
+        require(cleartexts.length == count * 32, "Invalid cleartexts");
+        uint256[] memory results = abi.decode(abi.encodePacked(uint256(32), count, cleartexts), (uint256[]));
         
         dResult.hasIntersection = results[0] > 0;
         dResult.witnessPoint = new uint32[](results.length - 1);
         
         for (uint i = 1; i < results.length; i++) {
-            dResult.witnessPoint[i-1] = results[i];
+            dResult.witnessPoint[i-1] = uint32(results[i]);
         }
         
         dResult.isRevealed = true;
@@ -152,52 +996,28 @@ contract GeometricWitness is SepoliaConfig {
         emit ResultRevealed(resultHash);
     }
     
-    /// @notice Check if two points intersect (simplified)
-    function doPointsIntersect(
-        euint32[] memory point1,
-        euint32[] memory point2
-    ) public pure returns (ebool) {
-        require(point1.length == 2 && point2.length == 2, "Invalid points");
-        
-        // Points intersect only if they are identical
-        ebool xEqual = FHE.eq(point1[0], point2[0]);
-        ebool yEqual = FHE.eq(point1[1], point2[1]);
-        
-        return FHE.and(xEqual, yEqual);
+    /// @dev A result's handles in the order they are decrypted: the intersection flag, then the witness coordinates
+    function resultHandles(IntersectionResult storage result) internal view returns (bytes32[] memory handles) {
+        handles = new bytes32[](1 + result.witnessPoint.length);
+        handles[0] = FHE.toBytes32(result.hasIntersection);
+        for (uint i = 0; i < result.witnessPoint.length; i++) {
+            handles[i + 1] = FHE.toBytes32(result.witnessPoint[i]);
+        }
     }
     
-    /// @notice Check if point is inside circle (simplified)
-    function isPointInCircle(
+    /// @dev Dispatches a point against a shape of any type to the matching encrypted predicate
+    function isPointInShape(
         euint32[] memory point,
-        euint32[] memory circle
-    ) public pure returns (ebool) {
-        require(point.length == 2 && circle.length == 3, "Invalid parameters");
-        
-        // Calculate distance squared: (x - cx)^2 + (y - cy)^2
-        euint32 dx = FHE.sub(point[0], circle[0]);
-        euint32 dy = FHE.sub(point[1], circle[1]);
-        euint32 dxSq = FHE.mul(dx, dx);
-        euint32 dySq = FHE.mul(dy, dy);
-        euint32 distSq = FHE.add(dxSq, dySq);
-        
-        // Compare with radius squared
-        euint32 radiusSq = FHE.mul(circle[2], circle[2]);
-        
-        return FHE.le(distSq, radiusSq);
-    }
-    
-    /// @notice Calculate midpoint between two points (witness point candidate)
-    function calculateMidpoint(
-        euint32[] memory point1,
-        euint32[] memory point2
-    ) public pure returns (euint32[] memory) {
-        require(point1.length == 2 && point2.length == 2, "Invalid points");
-        
-        euint32[] memory midpoint = new euint32[](2);
-        midpoint[0] = FHE.div(FHE.add(point1[0], point2[0]), FHE.asEuint32(2));
-        midpoint[1] = FHE.div(FHE.add(point1[1], point2[1]), FHE.asEuint32(2));
-        
-        return midpoint;
+        uint8 shapeType,
+        euint32[] memory parameters
+    ) internal returns (ebool) {
+        if (shapeType == SHAPE_POLYGON) {
+            return PolygonGeometry.isPointInPolygon(point, parameters);
+        } else if (isPath(shapeType)) {
+            return PathGeometry.isPointOnPath(point, parameters);
+        }
+        // Points, circles and rectangles are all the other shape types a shape can be stored with
+        return AreaGeometry.isPointInArea(point, shapeType, parameters);
     }
     
     /// @notice Get encrypted shape parameters
@@ -210,6 +1030,101 @@ contract GeometricWitness is SepoliaConfig {
         return (shape.parameters, shape.shapeType);
     }
     
+    /// @notice Key a pair's result is stored under, the same whichever order the two ids are given in
+    function pairKey(uint256 shapeId1, uint256 shapeId2) public pure returns (bytes32) {
+        return shapeId1 < shapeId2
+            ? keccak256(abi.encodePacked(shapeId1, shapeId2))
+            : keccak256(abi.encodePacked(shapeId2, shapeId1));
+    }
+    
+    /// @notice Get how the witness of a computed result was chosen: 0 deterministic, 1 randomized, 2 supplied
+    ///         externally. Only circle and rectangle pairs record 1; the others record 0 whichever strategy was asked for.
+    function getWitnessStrategy(uint256 shapeId1, uint256 shapeId2) public view returns (uint8) {
+        IntersectionResult storage r = intersectionResults[pairKey(shapeId1, shapeId2)];
+        require(r.isComputed, "Result not computed");
+        return r.witnessStrategy;
+    }
+    
+    /// @notice Get the origin shift and fixed-point scale every coordinate on this deployment is encoded with
+    function getCoordinateEncoding() public view returns (uint32 offset, uint32 scale) {
+        return (coordinateOffset, coordinateScale);
+    }
+    
+    /// @notice Get every supported shape type with the fewest and most parameters a shape of that type takes
+    function getShapeTypes() public view returns (
+        uint8[] memory types,
+        uint8[] memory minParameterCounts,
+        uint8[] memory maxParameterCounts
+    ) {
+        types = shapeTypes;
+        minParameterCounts = new uint8[](types.length);
+        maxParameterCounts = new uint8[](types.length);
+        for (uint i = 0; i < types.length; i++) {
+            minParameterCounts[i] = shapeParameterCounts[types[i]].min;
+            maxParameterCounts[i] = shapeParameterCounts[types[i]].max;
+        }
+    }
+    
+    /// @notice Get the account that submitted a shape
+    function ownerOf(uint256 shapeId) public view returns (address) {
+        EncryptedShape storage shape = encryptedShapes[shapeId];
+        require(shape.timestamp > 0, "Shape not found");
+        return shape.owner;
+    }
+    
+    /// @notice Get how many more queries a shape allows in the current window, overall and by one counterparty, and
+    ///         when the window ends; type(uint32).max and 0 for a shape without a budget
+    function getRemainingQueries(uint256 shapeId, address counterparty) public view returns (
+        uint32 remaining,
+        uint32 remainingForCounterparty,
+        uint64 windowEnd
+    ) {
+        QueryBudget memory budget = queryBudgets[shapeId];
+        if (budget.window == 0) {
+            return (type(uint32).max, type(uint32).max, 0);
+        }
+        
+        uint64 windowIndex = uint64(block.timestamp / budget.window);
+        uint32 used = usedInWindow(queryUsage[shapeId], windowIndex);
+        uint32 usedByCounterparty = usedInWindow(counterpartyUsage[shapeId][counterparty], windowIndex);
+        remaining = used < budget.maxQueries ? budget.maxQueries - used : 0;
+        remainingForCounterparty = usedByCounterparty < budget.maxPerCounterparty
+            ? budget.maxPerCounterparty - usedByCounterparty
+            : 0;
+        if (remainingForCounterparty > remaining) {
+            remainingForCounterparty = remaining;
+        }
+        windowEnd = (windowIndex + 1) * budget.window;
+    }
+    
+    /// @notice Get the ids of every shape an account submitted, oldest first
+    function getShapesByOwner(address account) public view returns (uint256[] memory) {
+        return ownedShapes[account];
+    }
+    
+    /// @notice Get a session's parties, the shape each joined with (0 until it joins), whether its result is computed
+    ///         and whether a party cancelled it
+    function getSession(uint256 sessionId) public view returns (
+        address[] memory parties,
+        uint256[] memory shapeIds,
+        bool isComputed,
+        bool isCancelled
+    ) {
+        IntersectionSession storage session = sessions[sessionId];
+        require(session.parties.length > 0, "Session not found");
+        return (session.parties, session.shapeIds, session.isComputed, session.isCancelled);
+    }
+    
+    /// @notice Get a session's encrypted result: whether every joined shape shares a point, and one such point
+    function getSessionResult(uint256 sessionId) public view returns (
+        ebool hasCommonPoint,
+        euint32[] memory witnessPoint
+    ) {
+        IntersectionSession storage session = sessions[sessionId];
+        require(session.isComputed, "Result not computed");
+        return (session.hasCommonPoint, session.witnessPoint);
+    }
+    
     /// @notice Get encrypted intersection result
     function getEncryptedIntersectionResult(
         uint256 shapeId1,
@@ -218,7 +1133,7 @@ contract GeometricWitness is SepoliaConfig {
         ebool hasIntersection,
         euint32[] memory witnessPoint
     ) {
-        bytes32 resultHash = keccak256(abi.encodePacked(shapeId1, shapeId2));
+        bytes32 resultHash = pairKey(shapeId1, shapeId2);
         IntersectionResult storage r = intersectionResults[resultHash];
         require(r.isComputed, "Result not computed");
         return (r.hasIntersection, r.witnessPoint);
@@ -233,16 +1148,8 @@ contract GeometricWitness is SepoliaConfig {
         uint32[] memory witnessPoint,
         bool isRevealed
     ) {
-        bytes32 resultHash = keccak256(abi.encodePacked(shapeId1, shapeId2));
+        bytes32 resultHash = pairKey(shapeId1, shapeId2);
         DecryptedResult storage r = decryptedResults[resultHash];
         return (r.hasIntersection, r.witnessPoint, r.isRevealed);
     }
-    
-    /// @notice Generate random witness point (placeholder)
-    function generateRandomWitness() public pure returns (euint32[] memory) {
-        euint32[] memory point = new euint32[](2);
-        point[0] = FHE.asEuint32(0); // Placeholder
-        point[1] = FHE.asEuint32(0); // Placeholder
-        return point;
-    }
 }
\ No newline at end of file
@@ -0,0 +1,443 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import { FHE, euint32, euint64, euint128, ebool } from "@fhevm/solidity/lib/FHE.sol";
+import {
+    SHAPE_CIRCLE,
+    POLYGON_COORDINATE_MAX,
+    Line,
+    SegmentHit,
+    isPath,
+    isPointInRectangle,
+    doRectanglesIntersect,
+    crossProduct,
+    lineBetween,
+    selectLine,
+    newPoint,
+    selectPoint,
+    squaredDistance,
+    stepAlong,
+    vertexOf
+} from "./EncryptedGeometry.sol";
+
+// Encrypted predicates on segments and polylines, the paths of GeometricWitness. Each public function takes most of
+// the HCU a transaction allows; they are linked rather than inlined to keep GeometricWitness under the contract size
+// limit, and run in its context through delegatecall.
+library PathGeometry {
+    /// @notice Check if point lies on a segment or polyline (ends included)
+    function isPointOnPath(
+        euint32[] memory point,
+        euint32[] memory path
+    ) public returns (ebool on) {
+        require(point.length == 2 && path.length >= 4 && path.length % 2 == 0, "Invalid parameters");
+        
+        // Clamped like in isPointInPolygon: a point past the range is off every path either way
+        euint64 px = FHE.asEuint64(FHE.min(point[0], POLYGON_COORDINATE_MAX + 1));
+        euint64 py = FHE.asEuint64(FHE.min(point[1], POLYGON_COORDINATE_MAX + 1));
+        
+        // Offsets of the vertices from the point. The point is on a segment when the offsets of its ends are parallel
+        // and, on each axis, not both strictly positive or both strictly negative.
+        euint64[] memory offsets = new euint64[](path.length);
+        ebool[] memory negative = new ebool[](path.length);
+        ebool[] memory positive = new ebool[](path.length);
+        for (uint i = 0; i < path.length; i++) {
+            offsets[i] = FHE.sub(FHE.asEuint64(path[i]), i % 2 == 0 ? px : py);
+            negative[i] = isNegative(offsets[i]);
+            positive[i] = FHE.not(FHE.or(negative[i], FHE.eq(offsets[i], 0)));
+        }
+        
+        on = FHE.asEbool(false);
+        for (uint x = 0; x + 2 < path.length; x += 2) {
+            uint y = x + 1;
+            euint64 cross = FHE.sub(FHE.mul(offsets[x], offsets[y + 2]), FHE.mul(offsets[y], offsets[x + 2]));
+            ebool sameSideX = FHE.or(FHE.and(positive[x], positive[x + 2]), FHE.and(negative[x], negative[x + 2]));
+            ebool sameSideY = FHE.or(FHE.and(positive[y], positive[y + 2]), FHE.and(negative[y], negative[y + 2]));
+            on = FHE.or(on, FHE.and(FHE.eq(cross, 0), FHE.not(FHE.or(sameSideX, sameSideY))));
+        }
+    }
+    
+    /// @dev Tests the segment, or segment pair, a step of a path pair covers and records its hit in `kept`: the path's
+    ///      segments in order, each against every segment of the other path in turn when there is one
+    function testSegment(
+        SegmentHit storage kept,
+        euint32[] memory path,
+        uint8 otherType,
+        euint32[] memory parameters,
+        uint256 step
+    ) public {
+        SegmentHit memory hit;
+        if (isPath(otherType)) {
+            uint256 otherSegments = parameters.length / 2 - 1;
+            uint256 segment = step / otherSegments;
+            uint256 otherSegment = step % otherSegments;
+            hit = segmentsHit(
+                vertexOf(path, segment),
+                vertexOf(path, segment + 1),
+                vertexOf(parameters, otherSegment),
+                vertexOf(parameters, otherSegment + 1)
+            );
+        } else if (otherType == SHAPE_CIRCLE) {
+            hit = segmentCircleHit(vertexOf(path, step), vertexOf(path, step + 1), parameters);
+        } else {
+            hit = segmentRectangleHit(vertexOf(path, step), vertexOf(path, step + 1), parameters);
+        }
+        recordHit(kept, hit, step == 0);
+    }
+    
+    /// @dev Segment AB against segment CD, following the integer orientation test: they meet when each one's ends lie
+    ///      on opposite sides of the other's line, or when an end lies on the other segment, which also covers
+    ///      collinear overlaps. Such an end is the witness; otherwise it is the crossing, o3 / (o3 - o4) of the way
+    ///      from A to B, rounded toward A.
+    function segmentsHit(
+        euint32[] memory a,
+        euint32[] memory b,
+        euint32[] memory c,
+        euint32[] memory d
+    ) internal returns (SegmentHit memory hit) {
+        euint64 o1 = orientation(a, b, c);
+        euint64 o2 = orientation(a, b, d);
+        euint64 o3 = orientation(c, d, a);
+        euint64 o4 = orientation(c, d, b);
+        
+        euint32[] memory boxAB = segmentBox(a, b);
+        euint32[] memory boxCD = segmentBox(c, d);
+        ebool onA = FHE.and(FHE.eq(o3, 0), isPointInRectangle(a, boxCD));
+        ebool onB = FHE.and(FHE.eq(o4, 0), isPointInRectangle(b, boxCD));
+        ebool onC = FHE.and(FHE.eq(o1, 0), isPointInRectangle(c, boxAB));
+        ebool onD = FHE.and(FHE.eq(o2, 0), isPointInRectangle(d, boxAB));
+        
+        hit.exact = FHE.or(FHE.or(onA, onB), FHE.or(onC, onD));
+        hit.meets = FHE.or(FHE.and(haveOppositeSigns(o1, o2), haveOppositeSigns(o3, o4)), hit.exact);
+        euint32[] memory end = selectPoint(onA, a, selectPoint(onB, b, selectPoint(onC, c, d)));
+        hit.exactX = end[0];
+        hit.exactY = end[1];
+        
+        hit.line = lineBetween(a, b);
+        hit.numerator = absolute(o3);
+        hit.denominator = FHE.add(hit.numerator, absolute(o4));
+        hit.towardX = a[0];
+        hit.towardY = a[1];
+    }
+    
+    /// @dev Segment AB against a circle: they meet when an end is in the circle, or when the foot of the perpendicular
+    ///      from the centre falls inside the segment within the radius. An end in the circle is the witness; otherwise
+    ///      the foot, dot / |AB|^2 of the way from A to B, rounded toward the centre, which keeps it in the circle.
+    function segmentCircleHit(
+        euint32[] memory a,
+        euint32[] memory b,
+        euint32[] memory circle
+    ) internal returns (SegmentHit memory hit) {
+        euint64 distanceA = squaredDistance(a[0], a[1], circle[0], circle[1]);
+        euint64 distanceB = squaredDistance(b[0], b[1], circle[0], circle[1]);
+        euint64 lengthSq = squaredDistance(a[0], a[1], b[0], b[1]);
+        euint64 radius = FHE.asEuint64(circle[2]);
+        euint64 radiusSq = FHE.mul(radius, radius);
+        ebool inA = FHE.le(distanceA, radiusSq);
+        ebool inB = FHE.le(distanceB, radiusSq);
+        
+        // Twice the dot product of AB and A-to-centre, by the law of cosines. The squared distances use all 64 bits,
+        // so it is taken in 128, where a negative value wraps far above the bound.
+        euint128 length128 = FHE.asEuint128(lengthSq);
+        euint128 dot2 = FHE.sub(FHE.add(FHE.asEuint128(distanceA), length128), FHE.asEuint128(distanceB));
+        ebool footInside = FHE.and(FHE.ne(dot2, 0), FHE.lt(dot2, FHE.shl(length128, 1)));
+        // The centre is within the radius of the line when cross^2 <= r^2 * |AB|^2, and by Lagrange's identity
+        // cross^2 = |A-to-centre|^2 * |AB|^2 - dot^2. An end in the circle makes the difference wrap, but then the
+        // segment meets the circle anyway.
+        euint128 dot = FHE.shr(dot2, 1);
+        ebool near = FHE.le(
+            FHE.mul(FHE.asEuint128(FHE.sub(distanceA, radiusSq)), length128),
+            FHE.mul(dot, dot)
+        );
+        
+        hit.exact = FHE.or(inA, inB);
+        hit.meets = FHE.or(hit.exact, FHE.and(footInside, near));
+        hit.exactX = FHE.select(inA, a[0], b[0]);
+        hit.exactY = FHE.select(inA, a[1], b[1]);
+        
+        hit.line = lineBetween(a, b);
+        hit.numerator = FHE.asEuint64(dot);
+        hit.denominator = lengthSq;
+        hit.towardX = circle[0];
+        hit.towardY = circle[1];
+    }
+    
+    /// @dev Segment AB against a rectangle, by separating axes: they meet when their bounding boxes overlap and the
+    ///      rectangle's corners are not all strictly on one side of the segment's line. An end in the rectangle is the
+    ///      witness; otherwise the segment crosses an edge where the edge's corners are not both on its line, and the
+    ///      crossing, found along that edge, lies on the rectangle.
+    function segmentRectangleHit(
+        euint32[] memory a,
+        euint32[] memory b,
+        euint32[] memory rect
+    ) internal returns (SegmentHit memory hit) {
+        // Clamped to just past the path range the rectangle keeps every path point it holds, and its corners'
+        // orientations stay exact
+        euint32[] memory box = new euint32[](4);
+        for (uint i = 0; i < 4; i++) {
+            box[i] = FHE.min(rect[i], POLYGON_COORDINATE_MAX + 1);
+        }
+        ebool inA = isPointInRectangle(a, box);
+        ebool inB = isPointInRectangle(b, box);
+        euint32[] memory segment = segmentBox(a, b);
+        
+        // Orientation of the corners (minX, minY), (maxX, minY), (maxX, maxY), (minX, maxY) against AB. Each is
+        // ex * (y - ay) - ey * (x - ax), and neighbouring corners share a term.
+        euint64 ax = FHE.asEuint64(a[0]);
+        euint64 ay = FHE.asEuint64(a[1]);
+        euint64 ex = FHE.sub(FHE.asEuint64(b[0]), ax);
+        euint64 ey = FHE.sub(FHE.asEuint64(b[1]), ay);
+        euint64 left = FHE.mul(ey, FHE.sub(FHE.asEuint64(box[0]), ax));
+        euint64 right = FHE.mul(ey, FHE.sub(FHE.asEuint64(box[2]), ax));
+        euint64 bottom = FHE.mul(ex, FHE.sub(FHE.asEuint64(box[1]), ay));
+        euint64 top = FHE.mul(ex, FHE.sub(FHE.asEuint64(box[3]), ay));
+        euint64[] memory corners = new euint64[](4);
+        corners[0] = FHE.sub(bottom, left);
+        corners[1] = FHE.sub(bottom, right);
+        corners[2] = FHE.sub(top, right);
+        corners[3] = FHE.sub(top, left);
+        
+        ebool[] memory negative = new ebool[](4);
+        ebool[] memory zero = new ebool[](4);
+        euint64[] memory magnitude = new euint64[](4);
+        ebool allLeft = FHE.asEbool(true);
+        ebool allRight = FHE.asEbool(true);
+        for (uint i = 0; i < 4; i++) {
+            negative[i] = isNegative(corners[i]);
+            zero[i] = FHE.eq(corners[i], 0);
+            magnitude[i] = FHE.select(negative[i], FHE.neg(corners[i]), corners[i]);
+            allLeft = FHE.and(allLeft, FHE.not(FHE.or(negative[i], zero[i])));
+            allRight = FHE.and(allRight, negative[i]);
+        }
+        hit.exact = FHE.or(inA, inB);
+        hit.meets = FHE.and(doRectanglesIntersect(segment, box), FHE.not(FHE.or(allLeft, allRight)));
+        hit.exactX = FHE.select(inA, a[0], b[0]);
+        hit.exactY = FHE.select(inA, a[1], b[1]);
+        
+        // Bottom, top, left and right edge, each run from its corner with the smaller coordinates. The first one
+        // crossed carries the witness, and the right edge stands in when none is.
+        uint8[4] memory edgeStart = [0, 3, 0, 1];
+        uint8[4] memory edgeEnd = [1, 2, 3, 2];
+        for (uint e = 4; e > 0; e--) {
+            bool horizontal = e <= 2;
+            uint8 start = edgeStart[e - 1];
+            uint8 end = edgeEnd[e - 1];
+            Line memory edge = edgeLine(box, start, horizontal);
+            euint64 denominator = FHE.add(magnitude[start], magnitude[end]);
+            if (e == 4) {
+                (hit.line, hit.numerator, hit.denominator) = (edge, magnitude[start], denominator);
+                continue;
+            }
+            ebool crossed = crossesEdge(segment, box, horizontal, start, end, negative, zero);
+            hit.line = selectLine(crossed, edge, hit.line);
+            hit.numerator = FHE.select(crossed, magnitude[start], hit.numerator);
+            hit.denominator = FHE.select(crossed, denominator, hit.denominator);
+        }
+        hit.towardX = hit.line.fromX;
+        hit.towardY = hit.line.fromY;
+    }
+    
+    /// @dev Stores the hit a path pair keeps after testing another segment: the first segment's hit, then the hit kept
+    ///      so far unless only the next one meets the other shape. Later transactions of the pair may use it.
+    function recordHit(
+        SegmentHit storage kept,
+        SegmentHit memory next,
+        bool first
+    ) internal {
+        if (!first) {
+            next = keepFirstHit(kept, next);
+        }
+        kept.meets = next.meets;
+        kept.exact = next.exact;
+        kept.exactX = next.exactX;
+        kept.exactY = next.exactY;
+        kept.line = next.line;
+        kept.numerator = next.numerator;
+        kept.denominator = next.denominator;
+        kept.towardX = next.towardX;
+        kept.towardY = next.towardY;
+        allowHit(kept);
+    }
+    
+    /// @dev The hit kept so far when its segment meets the other shape, else the next one
+    function keepFirstHit(
+        SegmentHit storage kept,
+        SegmentHit memory next
+    ) internal returns (SegmentHit memory chosen) {
+        ebool keep = kept.meets;
+        chosen.meets = FHE.or(keep, next.meets);
+        chosen.exact = FHE.select(keep, kept.exact, next.exact);
+        chosen.exactX = FHE.select(keep, kept.exactX, next.exactX);
+        chosen.exactY = FHE.select(keep, kept.exactY, next.exactY);
+        chosen.line = selectLine(keep, kept.line, next.line);
+        chosen.numerator = FHE.select(keep, kept.numerator, next.numerator);
+        chosen.denominator = FHE.select(keep, kept.denominator, next.denominator);
+        chosen.towardX = FHE.select(keep, kept.towardX, next.towardX);
+        chosen.towardY = FHE.select(keep, kept.towardY, next.towardY);
+    }
+    
+    /// @dev Lets later transactions of a path pair use the hit it stores
+    function allowHit(SegmentHit storage hit) internal {
+        FHE.allowThis(hit.meets);
+        FHE.allowThis(hit.exact);
+        FHE.allowThis(hit.exactX);
+        FHE.allowThis(hit.exactY);
+        FHE.allowThis(hit.line.fromX);
+        FHE.allowThis(hit.line.fromY);
+        FHE.allowThis(hit.line.forwardX);
+        FHE.allowThis(hit.line.forwardY);
+        FHE.allowThis(hit.line.distanceX);
+        FHE.allowThis(hit.line.distanceY);
+        FHE.allowThis(hit.numerator);
+        FHE.allowThis(hit.denominator);
+        FHE.allowThis(hit.towardX);
+        FHE.allowThis(hit.towardY);
+    }
+    
+    /// @dev Takes `bits` more rounds of the long division of a hit's numerator by its denominator, returning the
+    ///      remainder and the quotient bits so far. The remainder stays below the denominator, which is below 2^63,
+    ///      so doubling it cannot overflow.
+    function divideRatio(
+        euint64 remainder,
+        euint64 ratio,
+        euint64 denominator,
+        uint8 bits
+    ) public returns (euint64, euint64) {
+        for (uint8 bit = 0; bit < bits; bit++) {
+            ebool fits = FHE.ge(remainder, denominator);
+            remainder = FHE.shl(FHE.select(fits, FHE.sub(remainder, denominator), remainder), 1);
+            ratio = FHE.or(FHE.shl(ratio, 1), FHE.asEuint64(fits));
+        }
+        return (remainder, ratio);
+    }
+    
+    /// @dev A hit's witness: its exact point, or the point along its line at the hit's ratio, worked out by divideRatio
+    ///      with the given fraction bits
+    function hitWitness(
+        SegmentHit storage hit,
+        euint64 ratio,
+        uint8 fractionBits
+    ) public returns (euint32[] memory) {
+        Line memory line = hit.line;
+        euint32[] memory along = newPoint(
+            roundedAlong(line.fromX, line.forwardX, line.distanceX, hit.towardX, ratio, fractionBits, hit),
+            roundedAlong(line.fromY, line.forwardY, line.distanceY, hit.towardY, ratio, fractionBits, hit)
+        );
+        return selectPoint(hit.exact, newPoint(hit.exactX, hit.exactY), along);
+    }
+    
+    /// @dev One coordinate of the point numerator / denominator of the way along a line's axis, rounded to the grid on
+    ///      the side of `toward`. Truncating the ratio leaves the offset it gives at most one short of the exact floor
+    ///      while the distance is below 2^fractionBits, and a 128-bit comparison settles which.
+    function roundedAlong(
+        euint32 from,
+        ebool forward,
+        euint64 distance,
+        euint32 toward,
+        euint64 ratio,
+        uint8 fractionBits,
+        SegmentHit memory hit
+    ) internal returns (euint32) {
+        euint64 down = FHE.shr(FHE.mul(distance, ratio), fractionBits);
+        euint64 up = FHE.add(down, 1);
+        ebool behind = FHE.le(
+            FHE.mul(FHE.asEuint128(up), FHE.asEuint128(hit.denominator)),
+            FHE.mul(FHE.asEuint128(distance), FHE.asEuint128(hit.numerator))
+        );
+        down = FHE.select(behind, up, down);
+        up = FHE.min(FHE.add(down, 1), distance);
+        
+        euint32 low = stepAlong(from, forward, down);
+        euint32 high = stepAlong(from, forward, up);
+        // The higher offset lies between the exact point and `toward` when `toward` is level with it or beyond
+        ebool towardHigh = FHE.select(forward, FHE.ge(toward, high), FHE.le(toward, high));
+        return FHE.select(towardHigh, high, low);
+    }
+    
+    /// @dev Whether a segment with the given bounding box crosses a rectangle's edge between two corners, at one point:
+    ///      its ends are not strictly on one side of the edge's line, and the corners are neither strictly on one
+    ///      side of the segment's line nor both on it
+    function crossesEdge(
+        euint32[] memory segment,
+        euint32[] memory rect,
+        bool horizontal,
+        uint8 start,
+        uint8 end,
+        ebool[] memory negative,
+        ebool[] memory zero
+    ) internal returns (ebool) {
+        (euint32 x, euint32 y) = cornerOf(rect, start);
+        ebool straddles = horizontal
+            ? FHE.and(FHE.le(segment[1], y), FHE.ge(segment[3], y))
+            : FHE.and(FHE.le(segment[0], x), FHE.ge(segment[2], x));
+        ebool bothLeft = FHE.not(FHE.or(FHE.or(negative[start], zero[start]), FHE.or(negative[end], zero[end])));
+        ebool oneSide = FHE.or(bothLeft, FHE.and(negative[start], negative[end]));
+        return FHE.and(straddles, FHE.not(FHE.or(oneSide, FHE.and(zero[start], zero[end]))));
+    }
+    
+    /// @dev The rectangle edge from a corner toward larger coordinates, along x or along y
+    function edgeLine(
+        euint32[] memory rect,
+        uint8 start,
+        bool horizontal
+    ) internal returns (Line memory edge) {
+        (edge.fromX, edge.fromY) = cornerOf(rect, start);
+        edge.forwardX = FHE.asEbool(true);
+        edge.forwardY = FHE.asEbool(true);
+        euint64 none = FHE.asEuint64(0);
+        edge.distanceX = horizontal ? FHE.asEuint64(FHE.sub(rect[2], rect[0])) : none;
+        edge.distanceY = horizontal ? none : FHE.asEuint64(FHE.sub(rect[3], rect[1]));
+    }
+    
+    /// @dev Corner of a rectangle, numbered counter-clockwise from (minX, minY)
+    function cornerOf(euint32[] memory rect, uint8 corner) internal pure returns (euint32 x, euint32 y) {
+        x = rect[corner == 1 || corner == 2 ? 2 : 0];
+        y = rect[corner < 2 ? 1 : 3];
+    }
+    
+    /// @dev Bounding box of the segment between two points, as a rectangle
+    function segmentBox(
+        euint32[] memory a,
+        euint32[] memory b
+    ) internal returns (euint32[] memory box) {
+        box = new euint32[](4);
+        box[0] = FHE.min(a[0], b[0]);
+        box[1] = FHE.min(a[1], b[1]);
+        box[2] = FHE.max(a[0], b[0]);
+        box[3] = FHE.max(a[1], b[1]);
+    }
+    
+    /// @dev Cross product of AB and AP modulo 2^64: positive when P lies left of the line through A and B, zero when
+    ///      it lies on it. Exact as a signed value within the polygon coordinate range.
+    function orientation(
+        euint32[] memory a,
+        euint32[] memory b,
+        euint32[] memory p
+    ) internal returns (euint64) {
+        euint64 ax = FHE.asEuint64(a[0]);
+        euint64 ay = FHE.asEuint64(a[1]);
+        return crossProduct(
+            FHE.sub(FHE.asEuint64(b[0]), ax),
+            FHE.sub(FHE.asEuint64(b[1]), ay),
+            ax,
+            ay,
+            FHE.asEuint64(p[0]),
+            FHE.asEuint64(p[1])
+        );
+    }
+    
+    /// @dev Whether a value taken as signed modulo 2^64 is negative
+    function isNegative(euint64 value) internal returns (ebool) {
+        return FHE.ge(value, uint64(1) << 63);
+    }
+    
+    /// @dev Whether two values taken as signed modulo 2^64 are both non-zero and of opposite signs
+    function haveOppositeSigns(euint64 a, euint64 b) internal returns (ebool) {
+        ebool nonZero = FHE.and(FHE.ne(a, 0), FHE.ne(b, 0));
+        return FHE.and(nonZero, FHE.xor(isNegative(a), isNegative(b)));
+    }
+    
+    /// @dev |value| for a value taken as signed modulo 2^64
+    function absolute(euint64 value) internal returns (euint64) {
+        return FHE.select(isNegative(value), FHE.neg(value), value);
+    }
+}
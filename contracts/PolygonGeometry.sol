@@ -0,0 +1,75 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import { FHE, euint32, euint64, ebool } from "@fhevm/solidity/lib/FHE.sol";
+import { POLYGON_COORDINATE_MAX, crossProduct } from "./EncryptedGeometry.sol";
+
+// Encrypted predicates on convex polygons, given as counter-clockwise vertices. Linked rather than inlined, like
+// AreaGeometry and PathGeometry, to keep GeometricWitness under the contract size limit.
+library PolygonGeometry {
+    /// @notice Check if point is inside a convex, counter-clockwise polygon (edges included): it must lie on or left of
+    ///         every edge
+    function isPointInPolygon(
+        euint32[] memory point,
+        euint32[] memory polygon
+    ) public returns (ebool inside) {
+        require(point.length == 2 && polygon.length >= 6 && polygon.length % 2 == 0, "Invalid parameters");
+        
+        // Past the polygon coordinate range a point is outside every polygon. Clamping it to just past the range
+        // keeps it outside while bounding its differences to the vertices.
+        euint64 px = FHE.asEuint64(FHE.min(point[0], POLYGON_COORDINATE_MAX + 1));
+        euint64 py = FHE.asEuint64(FHE.min(point[1], POLYGON_COORDINATE_MAX + 1));
+        
+        inside = FHE.asEbool(true);
+        for (uint i = 0; i < polygon.length / 2; i++) {
+            (euint64 x1, euint64 y1, euint64 ex, euint64 ey) = polygonEdge(polygon, i);
+            inside = FHE.and(inside, isLeftOf(ex, ey, x1, y1, px, py));
+        }
+    }
+    
+    /// @notice Test one edge of a polygon against every vertex of another, narrowing the flags of the vertices that
+    ///         lie inside every edge tested so far, and tell whether the edge has all of them strictly outside
+    function testEdge(
+        euint32[] memory polygon,
+        uint256 edge,
+        euint32[] memory other,
+        ebool[] memory contained
+    ) public returns (ebool[] memory, ebool allOutside) {
+        (euint64 x1, euint64 y1, euint64 ex, euint64 ey) = polygonEdge(polygon, edge);
+        
+        allOutside = FHE.asEbool(true);
+        for (uint j = 0; j < other.length / 2; j++) {
+            ebool inside = isLeftOf(ex, ey, x1, y1, FHE.asEuint64(other[2 * j]), FHE.asEuint64(other[2 * j + 1]));
+            contained[j] = FHE.and(contained[j], inside);
+            FHE.allowThis(contained[j]);
+            allOutside = FHE.and(allOutside, FHE.not(inside));
+        }
+        return (contained, allOutside);
+    }
+    
+    /// @dev Start vertex and direction of a polygon's edge, the direction taken modulo 2^64
+    function polygonEdge(
+        euint32[] memory polygon,
+        uint256 edge
+    ) internal returns (euint64 x1, euint64 y1, euint64 ex, euint64 ey) {
+        uint256 next = (edge + 1) % (polygon.length / 2);
+        x1 = FHE.asEuint64(polygon[2 * edge]);
+        y1 = FHE.asEuint64(polygon[2 * edge + 1]);
+        ex = FHE.sub(FHE.asEuint64(polygon[2 * next]), x1);
+        ey = FHE.sub(FHE.asEuint64(polygon[2 * next + 1]), y1);
+    }
+    
+    /// @dev Whether (px, py) lies on or left of the edge from (x1, y1) along (ex, ey), i.e. whether the cross product
+    ///      ex * (py - y1) - ey * (px - x1) is non-negative. Taken modulo 2^64 it is exact as a signed value while the
+    ///      coordinates stay within POLYGON_COORDINATE_MAX + 1, so the top bit is its sign.
+    function isLeftOf(
+        euint64 ex,
+        euint64 ey,
+        euint64 x1,
+        euint64 y1,
+        euint64 px,
+        euint64 py
+    ) internal returns (ebool) {
+        return FHE.lt(crossProduct(ex, ey, x1, y1, px, py), uint64(1) << 63);
+    }
+}
@@ -1,3 +0,0 @@
-export const config = { runtime: 'edge' };
-
-export default function interface-utils() { return <div>Component</div>; }
@@ -1,20 +1,70 @@
 // App.tsx
-import React, { useEffect, useState } from "react";
+import React, { useEffect, useRef, useState } from "react";
 import { ethers } from "ethers";
-import { getContractReadOnly, getContractWithSigner } from "./contract";
+import { getContractReadOnly, getContractWithSigner, config, waitForResultRevealed } from "./contract";
+import { pairKey } from "./pairKey";
+import { getFhevmInstance } from "./fhevm";
+import { buildShapeInput } from "./encryption";
+import { PrivateIntersectionResult, userDecryptResult } from "./decryption";
+import { QueryBudget, RemainingQueries, readQueryBudget, readRemainingQueries } from "./budget";
+import { ComputationRequest, isPairApproved, isVerificationApproved, readComputationRequest } from "./consent";
+import {
+  CoordinateEncoding,
+  Shape,
+  ShapeFieldErrors,
+  ShapeKind,
+  ShapeTypeRegistry,
+  Vec2,
+  decodeWitness,
+  formatShape,
+  isShapeKind,
+  parseCoordinates,
+  parseDraftShape,
+  parseShape,
+  readShapeTypes,
+  shapeKindOf,
+  supportedKinds,
+  unsupportedPairReason
+} from "./geometry";
+import { IntersectionSession, readSession, userDecryptSession } from "./session";
+import type { GeometricWitness } from "./types";
+import { verifyWitness } from "./verification";
+import {
+  WITNESS_STRATEGIES,
+  WITNESS_STRATEGY_DESCRIPTIONS,
+  WitnessStrategy,
+  canRandomizeWitness,
+  witnessStrategyOf
+} from "./witnessStrategy";
 import WalletManager from "./components/WalletManager";
 import WalletSelector from "./components/WalletSelector";
+import ShapeCanvas from "./components/ShapeCanvas";
+import SessionPage from "./components/SessionPage";
+import InboxPage from "./components/InboxPage";
+import BudgetPanel from "./components/BudgetPanel";
 import "./App.css";
 
 interface GeometricShape {
-  id: string;
-  encryptedData: string;
-  witnessPoint?: string;
+  id: number;
+  shapeType: number;
+  parameters: string[];
+  witnessPoint?: number[];
   timestamp: number;
   owner: string;
   status: "pending" | "intersected" | "no_intersection";
 }
 
+// An intersection computed on-chain; "pending" means a reveal was requested and the oracle has not answered yet
+interface IntersectionRecord {
+  resultHash: string;
+  shapeId1: number;
+  shapeId2: number;
+  state: "computed" | "pending" | "revealed";
+  witnessStrategy?: WitnessStrategy;
+  hasIntersection?: boolean;
+  witnessPoint?: number[];
+}
+
 const App: React.FC = () => {
   // Randomly selected styles: High contrast (red+black), Cyberpunk UI, Center radiation layout, Micro-interactions
   const [account, setAccount] = useState("");
@@ -23,6 +73,7 @@ const App: React.FC = () => {
   const [provider, setProvider] = useState<ethers.BrowserProvider | null>(null);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [showCreateModal, setShowCreateModal] = useState(false);
+  const [verifyShapeId, setVerifyShapeId] = useState<number | null>(null);
   const [creating, setCreating] = useState(false);
   const [walletSelectorOpen, setWalletSelectorOpen] = useState(false);
   const [transactionStatus, setTransactionStatus] = useState<{
@@ -36,6 +87,22 @@ const App: React.FC = () => {
   });
   const [showStats, setShowStats] = useState(false);
   const [activeShape, setActiveShape] = useState<GeometricShape | null>(null);
+  const [intersectTarget, setIntersectTarget] = useState("");
+  const [witnessStrategy, setWitnessStrategy] = useState<WitnessStrategy>("Deterministic");
+  const [results, setResults] = useState<IntersectionRecord[]>([]);
+  // Coordinate encoding the deployment records; shapes are encoded with it and revealed witnesses decoded with it
+  const [encoding, setEncoding] = useState<CoordinateEncoding | null>(null);
+  const [shapeTypes, setShapeTypes] = useState<ShapeTypeRegistry | null>(null);
+  // Results user-decrypted in this session; they exist only in the browser and are never written on-chain
+  const [privateResults, setPrivateResults] = useState<Record<string, PrivateIntersectionResult>>({});
+  const [view, setView] = useState<"shapes" | "sessions" | "inbox">("shapes");
+  const [sessions, setSessions] = useState<IntersectionSession[]>([]);
+  // Session results user-decrypted in this session, by session id
+  const [sessionResults, setSessionResults] = useState<Record<number, PrivateIntersectionResult>>({});
+  const [requests, setRequests] = useState<ComputationRequest[]>([]);
+  // Query budget of the shape in the details panel, with what it leaves the connected account
+  const [activeBudget, setActiveBudget] = useState<{ budget?: QueryBudget; remaining?: RemainingQueries }>({});
+  const watchedReveals = useRef(new Set<string>());
 
   // Calculate statistics
   const intersectedCount = shapes.filter(s => s.status === "intersected").length;
@@ -46,6 +113,20 @@ const App: React.FC = () => {
     loadShapes().finally(() => setLoading(false));
   }, []);
 
+  // Reload the active shape's budget whenever the shape is reloaded or another account connects
+  useEffect(() => {
+    setActiveBudget({});
+    if (!activeShape) return;
+    (async () => {
+      const contract = await getContractReadOnly();
+      if (!contract) return;
+      setActiveBudget({
+        budget: await readQueryBudget(contract, activeShape.id),
+        remaining: account ? await readRemainingQueries(contract, activeShape.id, account) : undefined
+      });
+    })().catch(e => console.error("Error loading query budget:", e));
+  }, [activeShape, account]);
+
   const onWalletSelect = async (wallet: any) => {
     if (!wallet.provider) return;
     try {
@@ -76,51 +157,106 @@ const App: React.FC = () => {
       const contract = await getContractReadOnly();
       if (!contract) return;
       
-      // Check contract availability using FHE
-      const isAvailable = await contract.isAvailable();
-      if (!isAvailable) {
-        console.error("Contract is not available");
-        return;
-      }
+      const [offset, scale] = await contract.getCoordinateEncoding();
+      setEncoding({ offset: Number(offset), scale: Number(scale) });
+      setShapeTypes(await readShapeTypes(contract));
       
-      const keysBytes = await contract.getData("shape_keys");
-      let keys: string[] = [];
+      const count = Number(await contract.shapeCount());
       
-      if (keysBytes.length > 0) {
+      const list: GeometricShape[] = [];
+      
+      for (let id = 1; id <= count; id++) {
         try {
-          keys = JSON.parse(ethers.toUtf8String(keysBytes));
+          const shape = await contract.encryptedShapes(id);
+          const [parameters] = await contract.getEncryptedShape(id);
+          list.push({
+            id,
+            shapeType: Number(shape.shapeType),
+            parameters: [...parameters],
+            timestamp: Number(shape.timestamp),
+            owner: shape.owner,
+            status: "pending"
+          });
         } catch (e) {
-          console.error("Error parsing shape keys:", e);
+          console.error(`Error loading shape ${id}:`, e);
         }
       }
       
-      const list: GeometricShape[] = [];
+      // Derive each shape's status from the revealed results of the pairs it was checked against
+      const computed = await contract.queryFilter(contract.filters.IntersectionComputed());
+      const computedHashes = new Set(computed.map(log => log.args.resultHash));
+      const requested = await contract.queryFilter(contract.filters.DecryptionRequested());
+      const requestedHashes = new Set(requested.map(log => log.args.resultHash));
+      const revealed: Record<number, boolean> = {};
+      const records: IntersectionRecord[] = [];
       
-      for (const key of keys) {
-        try {
-          const shapeBytes = await contract.getData(`shape_${key}`);
-          if (shapeBytes.length > 0) {
-            try {
-              const shapeData = JSON.parse(ethers.toUtf8String(shapeBytes));
-              list.push({
-                id: key,
-                encryptedData: shapeData.data,
-                witnessPoint: shapeData.witnessPoint,
-                timestamp: shapeData.timestamp,
-                owner: shapeData.owner,
-                status: shapeData.status || "pending"
-              });
-            } catch (e) {
-              console.error(`Error parsing shape data for ${key}:`, e);
+      for (const a of list) {
+        for (const b of list) {
+          // Result keys are order-independent, so each unordered pair is visited once
+          const hash = pairKey(a.id, b.id);
+          if (a.id >= b.id || !computedHashes.has(hash)) continue;
+          try {
+            const result = await contract.getDecryptedIntersectionResult(a.id, b.id);
+            const record: IntersectionRecord = { resultHash: hash, shapeId1: a.id, shapeId2: b.id, state: "computed" };
+            record.witnessStrategy = witnessStrategyOf(Number(await contract.getWitnessStrategy(a.id, b.id)));
+            records.push(record);
+            if (!result.isRevealed) {
+              if (requestedHashes.has(hash)) record.state = "pending";
+              continue;
+            }
+            
+            record.state = "revealed";
+            record.hasIntersection = result.hasIntersection;
+            record.witnessPoint = result.witnessPoint.map(Number);
+            
+            for (const shape of [a, b]) {
+              revealed[shape.id] = true;
+              if (result.hasIntersection) {
+                shape.status = "intersected";
+                shape.witnessPoint = shape.witnessPoint || result.witnessPoint.map(Number);
+              }
             }
+          } catch (e) {
+            console.error(`Error loading result for ${a.id}/${b.id}:`, e);
           }
+        }
+      }
+      
+      for (const shape of list) {
+        if (revealed[shape.id] && shape.status === "pending") {
+          shape.status = "no_intersection";
+        }
+      }
+      
+      const sessionList: IntersectionSession[] = [];
+      const sessionCount = Number(await contract.sessionCount());
+      for (let id = sessionCount; id >= 1; id--) {
+        try {
+          sessionList.push(await readSession(contract, id));
         } catch (e) {
-          console.error(`Error loading shape ${key}:`, e);
+          console.error(`Error loading session ${id}:`, e);
+        }
+      }
+      
+      const requestList: ComputationRequest[] = [];
+      const requestCount = Number(await contract.computationRequestCount());
+      for (let id = requestCount; id >= 1; id--) {
+        try {
+          requestList.push(await readComputationRequest(contract, id));
+        } catch (e) {
+          console.error(`Error loading request ${id}:`, e);
         }
       }
       
       list.sort((a, b) => b.timestamp - a.timestamp);
       setShapes(list);
+      setResults(records);
+      setSessions(sessionList);
+      setRequests(requestList);
+      setActiveShape(active => active && (list.find(s => s.id === active.id) || null));
+      
+      // Resume following reveals requested in an earlier session
+      records.filter(r => r.state === "pending").forEach(watchReveal);
     } catch (e) {
       console.error("Error loading shapes:", e);
     } finally {
@@ -129,11 +265,15 @@ const App: React.FC = () => {
     }
   };
 
-  const submitShape = async () => {
+  const submitShape = async (shape: Shape) => {
     if (!provider) { 
       alert("Please connect wallet first"); 
       return; 
     }
+    if (!encoding) {
+      alert("Contract coordinate encoding not loaded yet");
+      return;
+    }
     
     setCreating(true);
     setTransactionStatus({
@@ -143,46 +283,32 @@ const App: React.FC = () => {
     });
     
     try {
-      // Simulate FHE encryption
-      const encryptedData = `FHE-${btoa(JSON.stringify(newShapeData))}`;
+      const signer = await provider.getSigner();
+      const encrypted = await buildShapeInput(
+        await getFhevmInstance(),
+        config.contractAddress,
+        await signer.getAddress(),
+        shape,
+        encoding
+      );
       
       const contract = await getContractWithSigner();
       if (!contract) {
         throw new Error("Failed to get contract with signer");
       }
       
-      const shapeId = `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
-
-      const shapeData = {
-        data: encryptedData,
-        timestamp: Math.floor(Date.now() / 1000),
-        owner: account,
-        status: "pending"
-      };
-      
-      // Store encrypted data on-chain using FHE
-      await contract.setData(
-        `shape_${shapeId}`, 
-        ethers.toUtf8Bytes(JSON.stringify(shapeData))
-      );
-      
-      const keysBytes = await contract.getData("shape_keys");
-      let keys: string[] = [];
-      
-      if (keysBytes.length > 0) {
-        try {
-          keys = JSON.parse(ethers.toUtf8String(keysBytes));
-        } catch (e) {
-          console.error("Error parsing keys:", e);
-        }
-      }
-      
-      keys.push(shapeId);
+      setTransactionStatus({
+        visible: true,
+        status: "pending",
+        message: "Submitting encrypted shape..."
+      });
       
-      await contract.setData(
-        "shape_keys", 
-        ethers.toUtf8Bytes(JSON.stringify(keys))
+      const tx = await contract.submitEncryptedShape(
+        encrypted.handles,
+        encrypted.inputProof,
+        encrypted.shapeType
       );
+      await tx.wait();
       
       setTransactionStatus({
         visible: true,
@@ -219,7 +345,7 @@ const App: React.FC = () => {
     }
   };
 
-  const checkIntersection = async (shapeId: string) => {
+  const checkIntersection = async (shapeId: number, otherId: number, strategy: WitnessStrategy) => {
     if (!provider) {
       alert("Please connect wallet first");
       return;
@@ -232,42 +358,186 @@ const App: React.FC = () => {
     });
 
     try {
-      // Simulate FHE computation time
-      await new Promise(resolve => setTimeout(resolve, 3000));
-      
       const contract = await getContractWithSigner();
       if (!contract) {
         throw new Error("Failed to get contract with signer");
       }
       
-      const shapeBytes = await contract.getData(`shape_${shapeId}`);
-      if (shapeBytes.length === 0) {
-        throw new Error("Shape not found");
+      const tx = await contract.computeIntersection(shapeId, otherId, WITNESS_STRATEGIES[strategy]);
+      await tx.wait();
+
+      // Polygon and path pairs take several transactions; keep advancing until every step is done
+      let [done, total] = await contract.getIntersectionProgress(shapeId, otherId);
+      while (done < total) {
+        setTransactionStatus({
+          visible: true,
+          status: "pending",
+          message: `Computing intersection with FHE (step ${done + 1n} of ${total})...`
+        });
+        await (await contract.advanceIntersection(shapeId, otherId)).wait();
+        [done, total] = await contract.getIntersectionProgress(shapeId, otherId);
       }
+
+      setTransactionStatus({
+        visible: true,
+        status: "success",
+        message: "FHE intersection check completed!"
+      });
       
-      const shapeData = JSON.parse(ethers.toUtf8String(shapeBytes));
+      await loadShapes();
       
-      // Randomly determine intersection status for demo
-      const hasIntersection = Math.random() > 0.5;
-      const witnessPoint = hasIntersection ? `FHE-${btoa(`{x:${Math.random()},y:${Math.random()}}`)}` : undefined;
+      setTimeout(() => {
+        setTransactionStatus({ visible: false, status: "pending", message: "" });
+      }, 2000);
+    } catch (e: any) {
+      setTransactionStatus({
+        visible: true,
+        status: "error",
+        message: "Intersection check failed: " + (e.message || "Unknown error")
+      });
       
-      const updatedShape = {
-        ...shapeData,
-        status: hasIntersection ? "intersected" : "no_intersection",
-        witnessPoint
-      };
+      setTimeout(() => {
+        setTransactionStatus({ visible: false, status: "pending", message: "" });
+      }, 3000);
+    }
+  };
+
+  // Follows a requested reveal until the oracle callback lands, then reloads to pick up the cleartext result
+  const watchReveal = async (record: IntersectionRecord) => {
+    if (watchedReveals.current.has(record.resultHash)) return;
+    watchedReveals.current.add(record.resultHash);
+    
+    try {
+      const contract = await getContractReadOnly();
+      if (!contract) return;
+      
+      await waitForResultRevealed(contract, record.resultHash);
+      await loadShapes();
+    } catch (e) {
+      console.error(`Error waiting for result ${record.shapeId1}/${record.shapeId2}:`, e);
+    } finally {
+      watchedReveals.current.delete(record.resultHash);
+    }
+  };
+
+  const decryptPrivately = async (record: IntersectionRecord) => {
+    if (!provider) {
+      alert("Please connect wallet first");
+      return;
+    }
+
+    setTransactionStatus({
+      visible: true,
+      status: "pending",
+      message: "Decrypting result with your wallet signature..."
+    });
+
+    try {
+      const contract = await getContractReadOnly();
+      if (!contract) {
+        throw new Error("Failed to get contract");
+      }
       
-      await contract.setData(
-        `shape_${shapeId}`, 
-        ethers.toUtf8Bytes(JSON.stringify(updatedShape))
+      const [hasIntersection, witnessPoint] = await contract.getEncryptedIntersectionResult(record.shapeId1, record.shapeId2);
+      const result = await userDecryptResult(
+        await getFhevmInstance(),
+        config.contractAddress,
+        await provider.getSigner(),
+        hasIntersection,
+        [...witnessPoint]
       );
+      setPrivateResults(prev => ({ ...prev, [record.resultHash]: result }));
       
       setTransactionStatus({
         visible: true,
         status: "success",
-        message: "FHE intersection check completed!"
+        message: "Result decrypted locally, nothing was published"
+      });
+      
+      setTimeout(() => {
+        setTransactionStatus({ visible: false, status: "pending", message: "" });
+      }, 2000);
+    } catch (e: any) {
+      setTransactionStatus({
+        visible: true,
+        status: "error",
+        message: "Private decryption failed: " + (e.message || "Unknown error")
+      });
+      
+      setTimeout(() => {
+        setTransactionStatus({ visible: false, status: "pending", message: "" });
+      }, 3000);
+    }
+  };
+
+  const revealResult = async (record: IntersectionRecord) => {
+    if (!provider) {
+      alert("Please connect wallet first");
+      return;
+    }
+    if (!window.confirm("Revealing publishes the result and its witness point on-chain for everyone to read. Continue?")) {
+      return;
+    }
+
+    setTransactionStatus({
+      visible: true,
+      status: "pending",
+      message: "Requesting decryption from the FHE oracle..."
+    });
+
+    try {
+      const contract = await getContractWithSigner();
+      if (!contract) {
+        throw new Error("Failed to get contract with signer");
+      }
+      
+      const tx = await contract.requestResultDecryption(record.shapeId1, record.shapeId2);
+      await tx.wait();
+      
+      setResults(results => results.map(r => r.resultHash === record.resultHash ? { ...r, state: "pending" } : r));
+      setTransactionStatus({
+        visible: true,
+        status: "success",
+        message: "Decryption requested, waiting for the oracle..."
+      });
+      
+      setTimeout(() => {
+        setTransactionStatus({ visible: false, status: "pending", message: "" });
+      }, 2000);
+      
+      await watchReveal(record);
+    } catch (e: any) {
+      setTransactionStatus({
+        visible: true,
+        status: "error",
+        message: "Reveal request failed: " + (e.message || "Unknown error")
       });
       
+      setTimeout(() => {
+        setTransactionStatus({ visible: false, status: "pending", message: "" });
+      }, 3000);
+    }
+  };
+
+  // Sends one session, consent or budget transaction, reporting progress in the transaction modal, then reloads
+  const sendTransaction = async (
+    pendingMessage: string,
+    successMessage: string,
+    failureMessage: string,
+    send: (contract: GeometricWitness) => Promise<ethers.ContractTransactionResponse>
+  ) => {
+    if (!provider) {
+      alert("Please connect wallet first");
+      return;
+    }
+
+    setTransactionStatus({ visible: true, status: "pending", message: pendingMessage });
+
+    try {
+      const contract = await getContractWithSigner();
+      await (await send(contract)).wait();
+      
+      setTransactionStatus({ visible: true, status: "success", message: successMessage });
       await loadShapes();
       
       setTimeout(() => {
@@ -277,7 +547,7 @@ const App: React.FC = () => {
       setTransactionStatus({
         visible: true,
         status: "error",
-        message: "Intersection check failed: " + (e.message || "Unknown error")
+        message: `${failureMessage}: ` + (e.message || "Unknown error")
       });
       
       setTimeout(() => {
@@ -286,10 +556,173 @@ const App: React.FC = () => {
     }
   };
 
+  const createSession = (parties: string[]) => sendTransaction(
+    "Opening intersection session...",
+    "Session opened, waiting for its parties to join",
+    "Session transaction failed",
+    contract => contract.createSession(parties)
+  );
+
+  // The last party to join pays for the FHE check of every shape in the session
+  const joinSession = (sessionId: number, shapeId: number) => sendTransaction(
+    "Joining session with your encrypted shape...",
+    "Joined session!",
+    "Session transaction failed",
+    contract => contract.joinSession(sessionId, shapeId)
+  );
+
+  const cancelSession = (sessionId: number) => sendTransaction(
+    "Cancelling session...",
+    "Session cancelled",
+    "Session transaction failed",
+    contract => contract.cancelSession(sessionId)
+  );
+
+  // Another owner's shape can only be checked once that owner approves, so the check starts as a request
+  const requestCheck = (shapeId: number, targetShapeId: number) => sendTransaction(
+    "Sending computation request...",
+    "Request sent, waiting for the shape's owner to approve",
+    "Request failed",
+    contract => contract.requestComputation(shapeId, targetShapeId)
+  );
+
+  // Points are checked against a shape at the requester's choosing, so they take a request of their own
+  const requestVerification = (shapeId: number) => sendTransaction(
+    "Sending point check request...",
+    "Request sent, waiting for the shape's owner to approve",
+    "Request failed",
+    contract => contract.requestVerification(shapeId)
+  );
+
+  const approveRequest = (requestId: number) => sendTransaction(
+    "Approving request...",
+    "Approved until the approval expires",
+    "Approval failed",
+    contract => contract.approveComputation(requestId)
+  );
+
+  const rejectRequest = (requestId: number) => sendTransaction(
+    "Declining computation request...",
+    "Request declined",
+    "Decline failed",
+    contract => contract.rejectComputation(requestId)
+  );
+
+  // A zero window lifts the budget, so `null` clears it
+  const setQueryBudget = (shapeId: number, budget: QueryBudget | null) => sendTransaction(
+    budget ? "Setting query budget..." : "Lifting query budget...",
+    budget ? "Query budget set" : "Query budget lifted",
+    "Budget update failed",
+    contract => budget
+      ? contract.setQueryBudget(shapeId, budget.maxQueries, budget.maxPerCounterparty, budget.windowSeconds)
+      : contract.setQueryBudget(shapeId, 0, 0, 0)
+  );
+
+  const decryptSession = async (sessionId: number) => {
+    if (!provider) {
+      alert("Please connect wallet first");
+      return;
+    }
+
+    setTransactionStatus({
+      visible: true,
+      status: "pending",
+      message: "Decrypting session result with your wallet signature..."
+    });
+
+    try {
+      const result = await userDecryptSession(
+        await getFhevmInstance(),
+        await getContractWithSigner(),
+        await provider.getSigner(),
+        sessionId
+      );
+      setSessionResults(prev => ({ ...prev, [sessionId]: result }));
+      
+      setTransactionStatus({
+        visible: true,
+        status: "success",
+        message: "Result decrypted locally, nothing was published"
+      });
+      
+      setTimeout(() => {
+        setTransactionStatus({ visible: false, status: "pending", message: "" });
+      }, 2000);
+    } catch (e: any) {
+      setTransactionStatus({
+        visible: true,
+        status: "error",
+        message: "Private decryption failed: " + (e.message || "Unknown error")
+      });
+      
+      setTimeout(() => {
+        setTransactionStatus({ visible: false, status: "pending", message: "" });
+      }, 3000);
+    }
+  };
+
+  // Checks a point against a shape on-chain; the answer is decrypted for the connected account only
+  const verifyPoint = async (shapeId: number, point: Vec2, encoding: CoordinateEncoding) => {
+    if (!provider) {
+      throw new Error("Please connect wallet first");
+    }
+    
+    const contract = await getContractWithSigner();
+    return verifyWitness(await getFhevmInstance(), contract, await provider.getSigner(), shapeId, point, encoding);
+  };
+
+  // Compares against the owner recorded on-chain at submission, which also gates the contract's mutating calls
   const isOwner = (address: string) => {
-    return account.toLowerCase() === address.toLowerCase();
+    return !!account && account.toLowerCase() === address.toLowerCase();
+  };
+
+  // Only the owners of the two shapes were granted access to a result's handles
+  const isParty = (record: IntersectionRecord) => {
+    return shapes.some(s => (s.id === record.shapeId1 || s.id === record.shapeId2) && isOwner(s.owner));
+  };
+
+  // Shapes of one owner may always be checked against each other; any other pair needs a live approval
+  const canCheck = (shapeId: number, otherId: number) => {
+    const other = shapes.find(s => s.id === otherId);
+    return (!!other && isOwner(other.owner)) || isPairApproved(requests, shapeId, otherId);
+  };
+
+  // A shape's owner may always check points against it; anyone else needs that owner to approve point checks
+  const canVerify = (shapeId: number) => {
+    const shape = shapes.find(s => s.id === shapeId);
+    return (!!shape && isOwner(shape.owner)) || (!!account && isVerificationApproved(requests, shapeId, account));
+  };
+
+  // The contract reverts on some pairs of kinds, so those are never offered rather than failing once signed
+  const pairUnsupportedReason = (shapeId: number, otherId: number) => {
+    const [kind1, kind2] = [shapeId, otherId].map(id => shapeKindOf(shapes.find(s => s.id === id)?.shapeType ?? -1));
+    return kind1 && kind2 ? unsupportedPairReason(kind1, kind2) : undefined;
+  };
+
+  // Offer a randomized witness only where the contract samples one; until a target is chosen, leave it open
+  const canRandomize = (shapeId: number, otherId: number) => {
+    const [kind1, kind2] = [shapeId, otherId].map(id => shapeKindOf(shapes.find(s => s.id === id)?.shapeType ?? -1));
+    return !otherId || (!!kind1 && !!kind2 && canRandomizeWitness(kind1, kind2));
+  };
+
+  // Witnesses come back on the contract's integer grid; show them in the coordinates shapes were entered in
+  const formatWitness = (witnessPoint: number[]) => {
+    if (!encoding) return `(${witnessPoint.join(", ")})`;
+    const { x, y } = decodeWitness(witnessPoint, encoding);
+    return `(${x}, ${y})`;
   };
 
+  const renderOutcome = (hasIntersection: boolean, witnessPoint?: number[]) => (
+    <>
+      <span className={`status-badge ${hasIntersection ? "intersected" : "no_intersection"}`}>
+        {hasIntersection ? "intersects" : "no intersection"}
+      </span>
+      {hasIntersection && witnessPoint && (
+        <span className="witness-point">{formatWitness(witnessPoint)}</span>
+      )}
+    </>
+  );
+
   const renderStats = () => {
     return (
       <div className="stats-grid">
@@ -313,6 +746,11 @@ const App: React.FC = () => {
     );
   };
 
+  // Requests waiting on the connected account to approve or decline them
+  const pendingRequestCount = requests.filter(r =>
+    r.state === "pending" && shapes.some(s => s.id === r.targetShapeId && isOwner(s.owner))
+  ).length;
+
   if (loading) return (
     <div className="loading-screen">
       <div className="cyber-spinner"></div>
@@ -344,6 +782,18 @@ const App: React.FC = () => {
           >
             {showStats ? "Hide Stats" : "Show Stats"}
           </button>
+          <button 
+            className="cyber-button"
+            onClick={() => setView(view === "sessions" ? "shapes" : "sessions")}
+          >
+            {view === "sessions" ? "Shapes" : "Sessions"}
+          </button>
+          <button 
+            className="cyber-button"
+            onClick={() => setView(view === "inbox" ? "shapes" : "inbox")}
+          >
+            {view === "inbox" ? "Shapes" : `Inbox${pendingRequestCount > 0 ? ` (${pendingRequestCount})` : ""}`}
+          </button>
           <WalletManager account={account} onConnect={onConnect} onDisconnect={onDisconnect} />
         </div>
       </header>
@@ -374,117 +824,278 @@ const App: React.FC = () => {
           </div>
         </div>
         
-        <div className="shapes-section">
-          <div className="section-header">
-            <h2>Encrypted Geometric Shapes</h2>
-            <div className="header-actions">
-              <button 
-                onClick={loadShapes}
-                className="refresh-btn cyber-button"
-                disabled={isRefreshing}
-              >
-                {isRefreshing ? "Refreshing..." : "Refresh"}
-              </button>
-            </div>
-          </div>
+        {view === "sessions" && (
+          <SessionPage
+            account={account}
+            sessions={sessions}
+            shapes={shapes}
+            privateResults={sessionResults}
+            formatWitness={formatWitness}
+            onCreate={createSession}
+            onJoin={joinSession}
+            onCancel={cancelSession}
+            onDecrypt={decryptSession}
+          />
+        )}
+        
+        {view === "inbox" && (
+          <InboxPage
+            account={account}
+            requests={requests}
+            shapes={shapes}
+            onApprove={approveRequest}
+            onReject={rejectRequest}
+          />
+        )}
+        
+        {view === "shapes" && (
+          <>
+            <div className="shapes-section">
+              <div className="section-header">
+                <h2>Encrypted Geometric Shapes</h2>
+                <div className="header-actions">
+                  <button 
+                    onClick={loadShapes}
+                    className="refresh-btn cyber-button"
+                    disabled={isRefreshing}
+                  >
+                    {isRefreshing ? "Refreshing..." : "Refresh"}
+                  </button>
+                </div>
+              </div>
           
-          <div className="shapes-list cyber-card">
-            <div className="table-header">
-              <div className="header-cell">ID</div>
-              <div className="header-cell">Owner</div>
-              <div className="header-cell">Date</div>
-              <div className="header-cell">Status</div>
-              <div className="header-cell">Actions</div>
-            </div>
+              <div className="shapes-list cyber-card">
+                <div className="table-header">
+                  <div className="header-cell">ID</div>
+                  <div className="header-cell">Owner</div>
+                  <div className="header-cell">Date</div>
+                  <div className="header-cell">Status</div>
+                  <div className="header-cell">Actions</div>
+                </div>
             
-            {shapes.length === 0 ? (
-              <div className="no-shapes">
-                <div className="no-shapes-icon"></div>
-                <p>No geometric shapes found</p>
-                <button 
-                  className="cyber-button primary"
-                  onClick={() => setShowCreateModal(true)}
-                >
-                  Add First Shape
-                </button>
+                {shapes.length === 0 ? (
+                  <div className="no-shapes">
+                    <div className="no-shapes-icon"></div>
+                    <p>No geometric shapes found</p>
+                    <button 
+                      className="cyber-button primary"
+                      onClick={() => setShowCreateModal(true)}
+                    >
+                      Add First Shape
+                    </button>
+                  </div>
+                ) : (
+                  shapes.map(shape => (
+                    <div 
+                      className={`shape-row ${activeShape?.id === shape.id ? 'active' : ''}`} 
+                      key={shape.id}
+                      onClick={() => setActiveShape(shape)}
+                    >
+                      <div className="table-cell shape-id">#{shape.id}</div>
+                      <div className="table-cell">{shape.owner.substring(0, 6)}...{shape.owner.substring(38)}</div>
+                      <div className="table-cell">
+                        {new Date(shape.timestamp * 1000).toLocaleDateString()}
+                      </div>
+                      <div className="table-cell">
+                        <span className={`status-badge ${shape.status}`}>
+                          {shape.status.replace('_', ' ')}
+                        </span>
+                      </div>
+                      <div className="table-cell actions">
+                        {isOwner(shape.owner) && shape.status === "pending" && (
+                          <button 
+                            className="action-btn cyber-button"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              setActiveShape(shape);
+                            }}
+                          >
+                            Check Intersection
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                  ))
+                )}
               </div>
-            ) : (
-              shapes.map(shape => (
-                <div 
-                  className={`shape-row ${activeShape?.id === shape.id ? 'active' : ''}`} 
-                  key={shape.id}
-                  onClick={() => setActiveShape(shape)}
-                >
-                  <div className="table-cell shape-id">#{shape.id.substring(0, 6)}</div>
-                  <div className="table-cell">{shape.owner.substring(0, 6)}...{shape.owner.substring(38)}</div>
-                  <div className="table-cell">
-                    {new Date(shape.timestamp * 1000).toLocaleDateString()}
+            </div>
+
+            {activeShape && (
+              <div className="shape-details cyber-card">
+                <div className="details-header">
+                  <h3>Shape Details #{activeShape.id}</h3>
+                  <button onClick={() => setActiveShape(null)} className="close-details">&times;</button>
+                </div>
+            
+                <div className="details-content">
+                  <div className="detail-item">
+                    <label>Owner:</label>
+                    <span>{activeShape.owner}</span>
                   </div>
-                  <div className="table-cell">
-                    <span className={`status-badge ${shape.status}`}>
-                      {shape.status.replace('_', ' ')}
-                    </span>
+              
+                  <div className="detail-item">
+                    <label>Type:</label>
+                    <span>{shapeKindOf(activeShape.shapeType) || `Unknown (${activeShape.shapeType})`}</span>
                   </div>
-                  <div className="table-cell actions">
-                    {isOwner(shape.owner) && shape.status === "pending" && (
-                      <button 
-                        className="action-btn cyber-button"
-                        onClick={(e) => {
-                          e.stopPropagation();
-                          checkIntersection(shape.id);
-                        }}
-                      >
-                        Check Intersection
-                      </button>
-                    )}
+              
+                  <div className="detail-item">
+                    <label>Encrypted Parameters:</label>
+                    <span>{activeShape.parameters.length}</span>
                   </div>
-                </div>
-              ))
-            )}
-          </div>
-        </div>
-
-        {activeShape && (
-          <div className="shape-details cyber-card">
-            <div className="details-header">
-              <h3>Shape Details #{activeShape.id.substring(0, 6)}</h3>
-              <button onClick={() => setActiveShape(null)} className="close-details">&times;</button>
-            </div>
-            
-            <div className="details-content">
-              <div className="detail-item">
-                <label>Owner:</label>
-                <span>{activeShape.owner}</span>
-              </div>
               
-              <div className="detail-item">
-                <label>Submitted:</label>
-                <span>{new Date(activeShape.timestamp * 1000).toLocaleString()}</span>
-              </div>
+                  <div className="detail-item">
+                    <label>Submitted:</label>
+                    <span>{new Date(activeShape.timestamp * 1000).toLocaleString()}</span>
+                  </div>
               
-              <div className="detail-item">
-                <label>Status:</label>
-                <span className={`status-badge ${activeShape.status}`}>
-                  {activeShape.status.replace('_', ' ')}
-                </span>
-              </div>
+                  <div className="detail-item">
+                    <label>Status:</label>
+                    <span className={`status-badge ${activeShape.status}`}>
+                      {activeShape.status.replace('_', ' ')}
+                    </span>
+                  </div>
+              
+                  {activeShape.witnessPoint && (
+                    <div className="detail-item">
+                      <label>Witness Point:</label>
+                      <span className="witness-point">
+                        {formatWitness(activeShape.witnessPoint)}
+                      </span>
+                    </div>
+                  )}
               
-              {activeShape.witnessPoint && (
-                <div className="detail-item">
-                  <label>Witness Point:</label>
-                  <span className="witness-point">
-                    {activeShape.witnessPoint.substring(0, 20)}...
-                  </span>
+                  {results.filter(r => r.shapeId1 === activeShape.id || r.shapeId2 === activeShape.id).map(r => (
+                    <div className="detail-item intersection-result" key={r.resultHash}>
+                      <label>#{r.shapeId1} &#8745; #{r.shapeId2}:</label>
+                      {r.witnessStrategy && (
+                        <span className="witness-strategy" title={WITNESS_STRATEGY_DESCRIPTIONS[r.witnessStrategy]}>
+                          {r.witnessStrategy} witness
+                        </span>
+                      )}
+                      {r.state === "revealed" && renderOutcome(!!r.hasIntersection, r.witnessPoint)}
+                      {r.state !== "revealed" && privateResults[r.resultHash] && (
+                        <>
+                          {renderOutcome(privateResults[r.resultHash].hasIntersection, privateResults[r.resultHash].witnessPoint)}
+                          <span className="private-tag">only visible to you</span>
+                        </>
+                      )}
+                      {r.state !== "revealed" && !privateResults[r.resultHash] && isParty(r) && (
+                        <button 
+                          className="action-btn cyber-button"
+                          onClick={() => decryptPrivately(r)}
+                        >
+                          Decrypt Privately
+                        </button>
+                      )}
+                      {r.state === "computed" && isParty(r) && (
+                        <button 
+                          className="action-btn cyber-button"
+                          onClick={() => revealResult(r)}
+                        >
+                          Reveal Publicly
+                        </button>
+                      )}
+                      {r.state === "pending" && (
+                        <span className="reveal-pending">Waiting for decryption oracle...</span>
+                      )}
+                    </div>
+                  ))}
+              
+                  {isOwner(activeShape.owner) && (
+                    <div className="detail-item">
+                      <label>Check Against:</label>
+                      <select 
+                        value={intersectTarget}
+                        onChange={(e) => setIntersectTarget(e.target.value)}
+                        className="cyber-select"
+                      >
+                        <option value="">Select shape</option>
+                        {shapes.filter(s => s.id !== activeShape.id).map(s => {
+                          const unsupported = pairUnsupportedReason(activeShape.id, s.id);
+                          return (
+                            <option key={s.id} value={s.id} disabled={!!unsupported} title={unsupported}>
+                              #{s.id} {shapeKindOf(s.shapeType)}{unsupported ? " (not supported)" : ""}
+                            </option>
+                          );
+                        })}
+                      </select>
+                      <select 
+                        value={witnessStrategy}
+                        onChange={(e) => setWitnessStrategy(e.target.value as WitnessStrategy)}
+                        title={WITNESS_STRATEGY_DESCRIPTIONS[witnessStrategy]}
+                        className="cyber-select"
+                      >
+                        {(["Deterministic", "Randomized"] as WitnessStrategy[]).map(strategy => (
+                          <option
+                            key={strategy}
+                            value={strategy}
+                            disabled={strategy === "Randomized" && !canRandomize(activeShape.id, Number(intersectTarget))}
+                          >
+                            {strategy} witness
+                          </option>
+                        ))}
+                      </select>
+                      {!intersectTarget || canCheck(activeShape.id, Number(intersectTarget)) ? (
+                        <button 
+                          className="action-btn cyber-button"
+                          disabled={!intersectTarget}
+                          onClick={() => checkIntersection(activeShape.id, Number(intersectTarget), witnessStrategy)}
+                        >
+                          Check Intersection
+                        </button>
+                      ) : (
+                        <button 
+                          className="action-btn cyber-button"
+                          title="The other shape's owner must approve before the pair can be checked"
+                          onClick={() => requestCheck(activeShape.id, Number(intersectTarget))}
+                        >
+                          Request Check
+                        </button>
+                      )}
+                    </div>
+                  )}
+              
+                  <BudgetPanel
+                    isOwner={isOwner(activeShape.owner)}
+                    budget={activeBudget.budget}
+                    remaining={activeBudget.remaining}
+                    onSave={(budget) => setQueryBudget(activeShape.id, budget)}
+                    onLift={() => setQueryBudget(activeShape.id, null)}
+                  />
+              
+                  {account && (
+                    <div className="detail-item">
+                      <label>Witness Check:</label>
+                      {canVerify(activeShape.id) ? (
+                        <button 
+                          className="action-btn cyber-button"
+                          onClick={() => setVerifyShapeId(activeShape.id)}
+                        >
+                          Verify a Point
+                        </button>
+                      ) : (
+                        <button 
+                          className="action-btn cyber-button"
+                          title="The shape's owner must approve before points can be checked against it"
+                          onClick={() => requestVerification(activeShape.id)}
+                        >
+                          Request Point Checks
+                        </button>
+                      )}
+                    </div>
+                  )}
                 </div>
-              )}
-            </div>
-          </div>
+              </div>
+            )}
+          </>
         )}
       </div>
   
-      {showCreateModal && (
+      {showCreateModal && encoding && shapeTypes && (
         <ModalCreate 
           onSubmit={submitShape} 
+          encoding={encoding}
+          shapeTypes={shapeTypes}
           onClose={() => setShowCreateModal(false)} 
           creating={creating}
           shapeData={newShapeData}
@@ -492,6 +1103,15 @@ const App: React.FC = () => {
         />
       )}
       
+      {verifyShapeId !== null && encoding && (
+        <ModalVerify 
+          shapeId={verifyShapeId}
+          encoding={encoding}
+          onVerify={(point) => verifyPoint(verifyShapeId, point, encoding)}
+          onClose={() => setVerifyShapeId(null)} 
+        />
+      )}
+      
       {walletSelectorOpen && (
         <WalletSelector
           isOpen={walletSelectorOpen}
@@ -545,8 +1165,20 @@ const App: React.FC = () => {
   );
 };
 
+// Names the create form shows for each shape kind
+const SHAPE_KIND_LABELS: Record<ShapeKind, string> = {
+  Point: "Point",
+  Circle: "Circle",
+  Rectangle: "Rectangle",
+  Segment: "Line",
+  Polygon: "Polygon",
+  Polyline: "Route"
+};
+
 interface ModalCreateProps {
-  onSubmit: () => void; 
+  onSubmit: (shape: Shape) => void; 
+  encoding: CoordinateEncoding;
+  shapeTypes: ShapeTypeRegistry;
   onClose: () => void; 
   creating: boolean;
   shapeData: any;
@@ -555,26 +1187,46 @@ interface ModalCreateProps {
 
 const ModalCreate: React.FC<ModalCreateProps> = ({ 
   onSubmit, 
+  encoding,
+  shapeTypes,
   onClose, 
   creating,
   shapeData,
   setShapeData
 }) => {
+  const [errors, setErrors] = useState<ShapeFieldErrors>({});
+
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
     const { name, value } = e.target;
     setShapeData({
       ...shapeData,
       [name]: value
     });
+    setErrors({ ...errors, [name]: undefined });
+  };
+
+  // The canvas previews whatever the textarea currently parses to, polygons and polylines still being drawn included,
+  // and writes its edits back as JSON
+  const kind = isShapeKind(shapeData.type) ? shapeData.type : "";
+  const previewShape = kind ? parseDraftShape(kind, shapeData.coordinates, encoding) ?? null : null;
+
+  const handleCanvasChange = (shape: Shape | null) => {
+    setShapeData({
+      ...shapeData,
+      coordinates: shape ? formatShape(shape) : ""
+    });
+    setErrors({ ...errors, coordinates: undefined });
   };
 
   const handleSubmit = () => {
-    if (!shapeData.type || !shapeData.coordinates) {
-      alert("Please fill required fields");
+    const result = parseShape(shapeData.type, shapeData.coordinates, encoding, shapeTypes);
+    if (!result.shape) {
+      setErrors(result.errors);
       return;
     }
     
-    onSubmit();
+    setErrors({});
+    onSubmit(result.shape);
   };
 
   return (
@@ -600,11 +1252,16 @@ const ModalCreate: React.FC<ModalCreateProps> = ({
                 className="cyber-select"
               >
                 <option value="">Select type</option>
-                <option value="Polygon">Polygon</option>
-                <option value="Circle">Circle</option>
-                <option value="Line">Line</option>
-                <option value="Point">Point</option>
+                {supportedKinds(shapeTypes).map(kind => (
+                  <option key={kind} value={kind}>{SHAPE_KIND_LABELS[kind]}</option>
+                ))}
               </select>
+              {errors.type && <div className="field-error">{errors.type}</div>}
+            </div>
+            
+            <div className="form-group full-width">
+              <label>Draw Shape</label>
+              <ShapeCanvas kind={kind} shape={previewShape} encoding={encoding} onChange={handleCanvasChange} />
             </div>
             
             <div className="form-group full-width">
@@ -613,10 +1270,13 @@ const ModalCreate: React.FC<ModalCreateProps> = ({
                 name="coordinates"
                 value={shapeData.coordinates} 
                 onChange={handleChange}
-                placeholder="Enter shape coordinates in JSON format..." 
+                placeholder={`Enter shape coordinates in JSON, e.g. {"center": [-10, 20.5], "radius": 5}, in steps of ${1 / encoding.scale}...`}
                 className="cyber-textarea"
                 rows={4}
               />
+              {errors.coordinates?.map(error => (
+                <div className="field-error" key={error}>{error}</div>
+              ))}
             </div>
           </div>
           
@@ -645,4 +1305,103 @@ const ModalCreate: React.FC<ModalCreateProps> = ({
   );
 };
 
+interface ModalVerifyProps {
+  shapeId: number;
+  encoding: CoordinateEncoding;
+  onVerify: (point: Vec2) => Promise<boolean>;
+  onClose: () => void;
+}
+
+const ModalVerify: React.FC<ModalVerifyProps> = ({
+  shapeId,
+  encoding,
+  onVerify,
+  onClose
+}) => {
+  const [coordinates, setCoordinates] = useState("");
+  const [errors, setErrors] = useState<string[]>([]);
+  const [verifying, setVerifying] = useState(false);
+  const [inside, setInside] = useState<boolean | null>(null);
+
+  const handleChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    setCoordinates(e.target.value);
+    setErrors([]);
+    setInside(null);
+  };
+
+  const handleVerify = async () => {
+    const result = parseCoordinates("Point", coordinates, encoding);
+    if (result.shape?.type !== "Point") {
+      setErrors(result.errors);
+      return;
+    }
+    
+    setErrors([]);
+    setVerifying(true);
+    try {
+      setInside(await onVerify(result.shape));
+    } catch (e: any) {
+      setErrors(["Verification failed: " + (e.message || "Unknown error")]);
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  return (
+    <div className="modal-overlay">
+      <div className="create-modal cyber-card">
+        <div className="modal-header">
+          <h2>Verify a Point in Shape #{shapeId}</h2>
+          <button onClick={onClose} className="close-modal">&times;</button>
+        </div>
+        
+        <div className="modal-body">
+          <div className="fhe-notice-banner">
+            <div className="key-icon"></div> The point is encrypted, and only you can decrypt the answer
+          </div>
+          
+          <div className="form-group full-width">
+            <label>Point *</label>
+            <textarea 
+              value={coordinates} 
+              onChange={handleChange}
+              placeholder={`Enter the point in JSON, e.g. [-10, 20.5], in steps of ${1 / encoding.scale}...`}
+              className="cyber-textarea"
+              rows={2}
+            />
+            {errors.map(error => (
+              <div className="field-error" key={error}>{error}</div>
+            ))}
+          </div>
+          
+          {inside !== null && (
+            <div className="detail-item">
+              <span className={`status-badge ${inside ? "intersected" : "no_intersection"}`}>
+                {inside ? "inside the shape" : "outside the shape"}
+              </span>
+              <span className="private-tag">only visible to you</span>
+            </div>
+          )}
+        </div>
+        
+        <div className="modal-footer">
+          <button 
+            onClick={onClose}
+            className="cancel-btn cyber-button"
+          >
+            Close
+          </button>
+          <button 
+            onClick={handleVerify} 
+            disabled={verifying}
+            className="submit-btn cyber-button primary"
+          >
+            {verifying ? "Verifying with FHE..." : "Verify"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
 export default App;
\ No newline at end of file
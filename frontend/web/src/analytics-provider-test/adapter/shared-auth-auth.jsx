@@ -1,3 +0,0 @@
-import React from 'react';
-
-interface frontend-middleware-registryProps { data: string }
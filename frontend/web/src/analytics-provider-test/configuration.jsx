@@ -1,3 +0,0 @@
-import { ethers } from 'ethers';
-
-export default function user-manager() { return <div>Component</div>; }
@@ -1,2 +0,0 @@
-// Auto-generated file: D:\MyCode\zama\demo\frontend\web\src\analytics-provider-test\payment-factory.rs
-// Generated at: 2025-10-10T11:57:11.276Z
\ No newline at end of file
@@ -1,2 +0,0 @@
-// Auto-generated file: D:\MyCode\zama\demo\frontend\web\src\backend.rs
-// Generated at: 2025-10-10T11:57:11.258Z
\ No newline at end of file
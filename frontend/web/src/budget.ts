@@ -0,0 +1,62 @@
+// budget.ts
+import type { GeometricWitness } from "./types";
+
+// What GeometricWitness reports as remaining for a shape without a budget: type(uint32).max
+export const UNLIMITED_QUERIES = 2 ** 32 - 1;
+
+// Limits the owner of a shape sets on how often other accounts may compute against it or check points in it: at most
+// maxQueries per window, and at most maxPerCounterparty of them by any one account
+export interface QueryBudget {
+  maxQueries: number;
+  maxPerCounterparty: number;
+  windowSeconds: number;
+}
+
+// Queries a shape still allows in its current window, overall and by one counterparty
+export interface RemainingQueries {
+  remaining: number;
+  remainingForCounterparty: number;
+  windowEnd?: number; // Unix seconds; unset for a shape without a budget
+}
+
+// Reads a shape's budget, or undefined when its owner has not set one
+export async function readQueryBudget(
+  contract: Pick<GeometricWitness, "queryBudgets">,
+  shapeId: number | bigint
+): Promise<QueryBudget | undefined> {
+  const [maxQueries, maxPerCounterparty, window] = await contract.queryBudgets(shapeId);
+  if (window === 0n) return undefined;
+  return {
+    maxQueries: Number(maxQueries),
+    maxPerCounterparty: Number(maxPerCounterparty),
+    windowSeconds: Number(window)
+  };
+}
+
+export async function readRemainingQueries(
+  contract: Pick<GeometricWitness, "getRemainingQueries">,
+  shapeId: number | bigint,
+  counterparty: string
+): Promise<RemainingQueries> {
+  const [remaining, remainingForCounterparty, windowEnd] = await contract.getRemainingQueries(shapeId, counterparty);
+  return {
+    remaining: Number(remaining),
+    remainingForCounterparty: Number(remainingForCounterparty),
+    windowEnd: windowEnd > 0n ? Number(windowEnd) : undefined
+  };
+}
+
+// Why the contract would refuse a budget, if it would
+export function budgetError(budget: QueryBudget): string | undefined {
+  const { maxQueries, maxPerCounterparty, windowSeconds } = budget;
+  if (![maxQueries, maxPerCounterparty].every(n => Number.isInteger(n) && n >= 0 && n < UNLIMITED_QUERIES)) {
+    return "Query limits must be whole numbers";
+  }
+  if (!Number.isInteger(windowSeconds) || windowSeconds <= 0) {
+    return "The window must be a whole number of seconds above zero";
+  }
+  if (maxPerCounterparty > maxQueries) {
+    return "The limit per account cannot exceed the overall limit";
+  }
+  return undefined;
+}
@@ -0,0 +1,105 @@
+import React, { useEffect, useState } from "react";
+import { QueryBudget, RemainingQueries, budgetError } from "../budget";
+
+interface BudgetPanelProps {
+  isOwner: boolean;
+  budget?: QueryBudget;
+  remaining?: RemainingQueries;
+  onSave: (budget: QueryBudget) => void;
+  onLift: () => void;
+}
+
+const HOUR = 60 * 60;
+
+const formatWindow = (seconds: number) => (seconds % HOUR === 0 ? `${seconds / HOUR} h` : `${seconds} s`);
+
+// A shape's query budget: its owner sets how many computations and witness checks other accounts may run against it
+// per window, and everyone else sees how many they have left. Without one, the shape can be queried until its
+// geometry is narrowed down point by point.
+const BudgetPanel: React.FC<BudgetPanelProps> = ({ isOwner, budget, remaining, onSave, onLift }) => {
+  const [maxQueries, setMaxQueries] = useState("");
+  const [maxPerCounterparty, setMaxPerCounterparty] = useState("");
+  const [windowHours, setWindowHours] = useState("");
+  const [error, setError] = useState<string>();
+
+  // Start the form from the budget in force, or from a day-long window when there is none
+  useEffect(() => {
+    setMaxQueries(budget ? String(budget.maxQueries) : "");
+    setMaxPerCounterparty(budget ? String(budget.maxPerCounterparty) : "");
+    setWindowHours(budget ? String(budget.windowSeconds / HOUR) : "24");
+    setError(undefined);
+  }, [budget]);
+
+  const handleSave = () => {
+    const next = {
+      maxQueries: Number(maxQueries),
+      maxPerCounterparty: Number(maxPerCounterparty),
+      windowSeconds: Number(windowHours) * HOUR
+    };
+    const problem = !maxQueries || !maxPerCounterparty ? "Enter both query limits" : budgetError(next);
+    setError(problem);
+    if (!problem) onSave(next);
+  };
+
+  return (
+    <div className="detail-item budget-panel">
+      <label>Query Budget:</label>
+      {budget ? (
+        <span>
+          {budget.maxQueries} per {formatWindow(budget.windowSeconds)}, {budget.maxPerCounterparty} per account
+        </span>
+      ) : (
+        <span>unlimited</span>
+      )}
+      {!isOwner && budget && remaining && (
+        <span className="budget-remaining">
+          {remaining.remainingForCounterparty} left for you, {remaining.remaining} overall
+          {remaining.windowEnd && ` until ${new Date(remaining.windowEnd * 1000).toLocaleString()}`}
+        </span>
+      )}
+
+      {isOwner && (
+        <div className="budget-form">
+          <input
+            type="number"
+            min={0}
+            value={maxQueries}
+            onChange={(e) => setMaxQueries(e.target.value)}
+            placeholder="Queries"
+            title="Most queries by other accounts per window"
+            className="cyber-input"
+          />
+          <input
+            type="number"
+            min={0}
+            value={maxPerCounterparty}
+            onChange={(e) => setMaxPerCounterparty(e.target.value)}
+            placeholder="Per account"
+            title="Most queries by any one account per window"
+            className="cyber-input"
+          />
+          <input
+            type="number"
+            min={1}
+            value={windowHours}
+            onChange={(e) => setWindowHours(e.target.value)}
+            placeholder="Hours"
+            title="Window length in hours"
+            className="cyber-input"
+          />
+          <button className="action-btn cyber-button" onClick={handleSave}>
+            Set Budget
+          </button>
+          {budget && (
+            <button className="action-btn cyber-button" onClick={onLift}>
+              Lift
+            </button>
+          )}
+          {error && <div className="field-error">{error}</div>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BudgetPanel;
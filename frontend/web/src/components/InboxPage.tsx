@@ -0,0 +1,111 @@
+import React from "react";
+import { ComputationRequest, ComputationRequestState, isVerificationRequest } from "../consent";
+import { shapeKindOf } from "../geometry";
+
+interface InboxShape {
+  id: number;
+  shapeType: number;
+  owner: string;
+}
+
+interface InboxPageProps {
+  account: string;
+  requests: ComputationRequest[];
+  shapes: InboxShape[];
+  onApprove: (requestId: number) => void;
+  onReject: (requestId: number) => void;
+}
+
+// Badge classes shared with shape statuses: green once approved, red when declined
+const STATE_BADGES: Record<ComputationRequestState, string> = {
+  pending: "pending",
+  approved: "intersected",
+  rejected: "no_intersection",
+  expired: "expired"
+};
+
+const shortAddress = (address: string) => `${address.substring(0, 6)}...${address.substring(38)}`;
+
+// Requests to check a shape, or points, against one of the connected account's shapes, which it approves or declines,
+// and the requests it sent to others. Until it expires, an approval lets either owner compute the pair, or the
+// requester check points of its choosing against the shape; the one never grants the other.
+const InboxPage: React.FC<InboxPageProps> = ({ account, requests, shapes, onApprove, onReject }) => {
+  const isAccount = (address?: string) => !!account && !!address && address.toLowerCase() === account.toLowerCase();
+  const shapeLabel = (id: number) => {
+    const shape = shapes.find(s => s.id === id);
+    return `#${id} ${shape ? shapeKindOf(shape.shapeType) ?? "" : ""}`;
+  };
+
+  const incoming = requests.filter(request => isAccount(shapes.find(s => s.id === request.targetShapeId)?.owner));
+  const sent = requests.filter(request => isAccount(request.requester));
+
+  const renderState = (request: ComputationRequest) => (
+    <>
+      <span className={`status-badge ${STATE_BADGES[request.state]}`}>{request.state}</span>
+      {request.state === "approved" && request.expiresAt && (
+        <span className="request-expiry">until {new Date(request.expiresAt * 1000).toLocaleString()}</span>
+      )}
+    </>
+  );
+
+  return (
+    <div className="shapes-section">
+      <div className="section-header">
+        <h2>Computation Requests</h2>
+      </div>
+
+      <div className="request-card cyber-card">
+        <h3>Incoming</h3>
+        {incoming.length === 0 ? (
+          <div className="no-shapes">
+            <p>No one has asked to check your shapes</p>
+          </div>
+        ) : (
+          incoming.map(request => (
+            <div className="request-row" key={request.id}>
+              <span>
+                {shortAddress(request.requester)} asks to check{" "}
+                {isVerificationRequest(request) ? "points of their choosing" : shapeLabel(request.shapeId)} against
+                your {shapeLabel(request.targetShapeId)}
+              </span>
+              <span>
+                {renderState(request)}
+                {request.state === "pending" && (
+                  <>
+                    <button className="action-btn cyber-button" onClick={() => onApprove(request.id)}>
+                      Approve
+                    </button>
+                    <button className="action-btn cyber-button" onClick={() => onReject(request.id)}>
+                      Decline
+                    </button>
+                  </>
+                )}
+              </span>
+            </div>
+          ))
+        )}
+      </div>
+
+      <div className="request-card cyber-card">
+        <h3>Sent</h3>
+        {sent.length === 0 ? (
+          <div className="no-shapes">
+            <p>You have not asked to check anyone's shapes</p>
+          </div>
+        ) : (
+          sent.map(request => (
+            <div className="request-row" key={request.id}>
+              <span>
+                {isVerificationRequest(request) ? "Points" : shapeLabel(request.shapeId)} against{" "}
+                {shapeLabel(request.targetShapeId)}
+              </span>
+              <span>{renderState(request)}</span>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default InboxPage;
@@ -0,0 +1,209 @@
+import React, { useEffect, useState } from "react";
+import { isAddress } from "ethers";
+import { PrivateIntersectionResult } from "../decryption";
+import { CONTRACT_SHAPE_TYPES, shapeKindOf } from "../geometry";
+import { IntersectionSession, MAX_SESSION_PARTIES, SESSION_SHAPE_KINDS, SessionState, isSessionParty } from "../session";
+
+interface SessionShape {
+  id: number;
+  shapeType: number;
+  owner: string;
+}
+
+interface SessionPageProps {
+  account: string;
+  sessions: IntersectionSession[];
+  shapes: SessionShape[];
+  privateResults: Record<number, PrivateIntersectionResult>;
+  formatWitness: (witnessPoint: number[]) => string;
+  onCreate: (parties: string[]) => void;
+  onJoin: (sessionId: number, shapeId: number) => void;
+  onCancel: (sessionId: number) => void;
+  onDecrypt: (sessionId: number) => void;
+}
+
+// Badge classes shared with shape statuses: green once computed, red once cancelled
+const SESSION_BADGES: Record<SessionState, string> = {
+  open: "pending",
+  computed: "intersected",
+  cancelled: "no_intersection"
+};
+
+const shortAddress = (address: string) => `${address.substring(0, 6)}...${address.substring(38)}`;
+
+// Reads one address per line or comma, returning them with any problem that keeps them from forming a session
+const parseParties = (text: string): { parties: string[]; error?: string } => {
+  const parties = text.split(/[\s,]+/).filter(Boolean);
+  const invalid = parties.find(party => !isAddress(party));
+  if (invalid) {
+    return { parties, error: `${invalid} is not an address` };
+  }
+  if (parties.length < 2 || parties.length > MAX_SESSION_PARTIES) {
+    return { parties, error: `A session needs 2 to ${MAX_SESSION_PARTIES} parties` };
+  }
+  return { parties };
+};
+
+// Sessions in which several parties learn whether all of their shapes share a point. Each listed party joins with one
+// of its shapes, and the last one to join has the contract compute the result for all of them. Until then any party
+// may cancel the session, for instance when another never joins.
+const SessionPage: React.FC<SessionPageProps> = ({
+  account,
+  sessions,
+  shapes,
+  privateResults,
+  formatWitness,
+  onCreate,
+  onJoin,
+  onCancel,
+  onDecrypt
+}) => {
+  const [partyText, setPartyText] = useState(account);
+  const [partyError, setPartyError] = useState<string>();
+  const [joinChoices, setJoinChoices] = useState<Record<number, string>>({});
+
+  // Offer the connected account as the first party once a wallet connects
+  useEffect(() => {
+    setPartyText(text => text || account);
+  }, [account]);
+
+  const isAccount = (address: string) => !!account && address.toLowerCase() === account.toLowerCase();
+  const shapeById = (id?: number) => shapes.find(shape => shape.id === id);
+
+  // The caller's shapes a session can still take: points, circles and rectangles, and no circle once one joined
+  const joinableShapes = (session: IntersectionSession) => {
+    const hasCircle = session.parties.some(party => shapeById(party.shapeId)?.shapeType === CONTRACT_SHAPE_TYPES.Circle);
+    return shapes.filter(shape => {
+      const kind = shapeKindOf(shape.shapeType);
+      return isAccount(shape.owner) && !!kind && SESSION_SHAPE_KINDS.includes(kind) && !(hasCircle && kind === "Circle");
+    });
+  };
+
+  const handleCreate = () => {
+    const { parties, error } = parseParties(partyText);
+    setPartyError(error);
+    if (!error) onCreate(parties);
+  };
+
+  const renderSession = (session: IntersectionSession) => {
+    const joined = session.parties.filter(party => party.shapeId !== undefined).length;
+    const canJoin = session.state === "open" &&
+      session.parties.some(party => isAccount(party.address) && party.shapeId === undefined);
+    const canCancel = session.state === "open" && isSessionParty(session, account);
+    const result = privateResults[session.id];
+
+    return (
+      <div className="session-card cyber-card" key={session.id}>
+        <div className="details-header">
+          <h3>Session #{session.id}</h3>
+          <span className={`status-badge ${SESSION_BADGES[session.state]}`}>
+            {session.state === "open" ? `${joined} of ${session.parties.length} joined` : session.state}
+          </span>
+        </div>
+
+        {session.parties.map((party, i) => {
+          const shape = shapeById(party.shapeId);
+          return (
+            <div className="session-party" key={i}>
+              <span>{shortAddress(party.address)}{isAccount(party.address) && " (you)"}</span>
+              <span className="shape-id">
+                {party.shapeId === undefined
+                  ? "waiting to join"
+                  : `#${party.shapeId} ${shape ? shapeKindOf(shape.shapeType) ?? "" : ""}`}
+              </span>
+            </div>
+          );
+        })}
+
+        {canJoin && (
+          <div className="detail-item">
+            <label>Join With:</label>
+            <select
+              value={joinChoices[session.id] ?? ""}
+              onChange={(e) => setJoinChoices({ ...joinChoices, [session.id]: e.target.value })}
+              className="cyber-select"
+            >
+              <option value="">Select one of your shapes</option>
+              {joinableShapes(session).map(shape => (
+                <option key={shape.id} value={shape.id}>#{shape.id} {shapeKindOf(shape.shapeType)}</option>
+              ))}
+            </select>
+            <button
+              className="action-btn cyber-button"
+              disabled={!joinChoices[session.id]}
+              onClick={() => onJoin(session.id, Number(joinChoices[session.id]))}
+            >
+              Join Session
+            </button>
+          </div>
+        )}
+
+        {canCancel && (
+          <button
+            className="action-btn cyber-button"
+            title="No one can join a cancelled session, and it is never computed"
+            onClick={() => onCancel(session.id)}
+          >
+            Cancel Session
+          </button>
+        )}
+
+        {session.state === "computed" && isSessionParty(session, account) && (
+          <div className="detail-item intersection-result">
+            <label>Common Point:</label>
+            {result ? (
+              <>
+                <span className={`status-badge ${result.hasIntersection ? "intersected" : "no_intersection"}`}>
+                  {result.hasIntersection ? "all shapes meet" : "no common point"}
+                </span>
+                {result.hasIntersection && <span className="witness-point">{formatWitness(result.witnessPoint)}</span>}
+                <span className="private-tag">only visible to you</span>
+              </>
+            ) : (
+              <button className="action-btn cyber-button" onClick={() => onDecrypt(session.id)}>
+                Decrypt Privately
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="shapes-section">
+      <div className="section-header">
+        <h2>Intersection Sessions</h2>
+      </div>
+
+      {account && (
+        <div className="cyber-card">
+          <div className="form-group full-width">
+            <label>Parties</label>
+            <textarea
+              value={partyText}
+              onChange={(e) => { setPartyText(e.target.value); setPartyError(undefined); }}
+              placeholder="One address per line, yours included if you take part"
+              className="cyber-textarea"
+              rows={3}
+            />
+            {partyError && <div className="field-error">{partyError}</div>}
+          </div>
+          <button className="cyber-button primary" onClick={handleCreate}>
+            Open Session
+          </button>
+        </div>
+      )}
+
+      {sessions.length === 0 ? (
+        <div className="no-shapes">
+          <p>No intersection sessions found</p>
+        </div>
+      ) : (
+        sessions.map(renderSession)
+      )}
+    </div>
+  );
+};
+
+export default SessionPage;
@@ -0,0 +1,246 @@
+import React, { useEffect, useRef, useState } from "react";
+import { CoordinateEncoding, Shape, ShapeKind, Vec2, addVertex, realRanges } from "../geometry";
+
+interface ShapeCanvasProps {
+  kind: ShapeKind | "";
+  shape: Shape | null;
+  encoding: CoordinateEncoding;
+  onChange: (shape: Shape | null) => void;
+}
+
+// The view is COLS x ROWS real coordinate units, each drawn as UNIT_PX canvas pixels. The encoding stores a unit as
+// `scale` contract grid steps; clicks snap to whole units, which lie on the grid of any encoding, and finer values
+// are typed into the coordinates instead.
+const UNIT_PX = 5;
+const COLS = 100;
+const ROWS = 60;
+const GRID_STEP = 10;
+
+const PREVIEW_COLOR = "#00f0ff";
+const DRAFT_COLOR = "#ff003c";
+
+const distance = (a: Vec2, b: Vec2) => Math.round(Math.hypot(a.x - b.x, a.y - b.y));
+
+// Builds the shape spanned by a drag from `from` to `to` for kinds that are drawn by dragging
+const shapeFromDrag = (kind: ShapeKind, from: Vec2, to: Vec2): Shape | null => {
+  switch (kind) {
+    case "Circle":
+      return { type: "Circle", center: from, radius: distance(from, to) };
+    case "Rectangle":
+      return {
+        type: "Rectangle",
+        min: { x: Math.min(from.x, to.x), y: Math.min(from.y, to.y) },
+        max: { x: Math.max(from.x, to.x), y: Math.max(from.y, to.y) }
+      };
+    case "Segment":
+      return from.x === to.x && from.y === to.y ? null : { type: "Segment", start: from, end: to };
+    default:
+      return null;
+  }
+};
+
+// Lower-left corner of the view: centred on the origin when the encoding allows negative coordinates, else at the
+// lowest coordinate it allows
+const viewOrigin = (kind: ShapeKind | "", encoding: CoordinateEncoding): Vec2 => {
+  const { min } = realRanges(kind || "Point", encoding).coordinate;
+  return { x: Math.max(Math.ceil(min), -COLS / 2), y: Math.max(Math.ceil(min), -ROWS / 2) };
+};
+
+const ShapeCanvas: React.FC<ShapeCanvasProps> = ({ kind, shape, encoding, onChange }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [dragStart, setDragStart] = useState<Vec2 | null>(null);
+  const [draft, setDraft] = useState<Shape | null>(null);
+  const [cursor, setCursor] = useState<Vec2 | null>(null);
+  const [history, setHistory] = useState<(Shape | null)[]>([]);
+
+  const commit = (next: Shape | null) => {
+    setHistory([...history, shape]);
+    onChange(next);
+  };
+
+  const undo = () => {
+    if (history.length === 0) return;
+    onChange(history[history.length - 1]);
+    setHistory(history.slice(0, -1));
+  };
+
+  const origin = viewOrigin(kind, encoding);
+
+  // Maps a mouse event to the nearest whole-unit coordinate in view, with y growing upwards
+  const toGrid = (e: React.MouseEvent<HTMLCanvasElement>): Vec2 => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const px = (e.clientX - rect.left) * (e.currentTarget.width / rect.width);
+    const py = (e.clientY - rect.top) * (e.currentTarget.height / rect.height);
+    return {
+      x: origin.x + Math.min(COLS, Math.max(0, Math.round(px / UNIT_PX))),
+      y: origin.y + Math.min(ROWS, Math.max(0, ROWS - Math.round(py / UNIT_PX)))
+    };
+  };
+
+  const handleMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    if (!kind) return;
+    const p = toGrid(e);
+
+    if (kind === "Point") {
+      commit({ type: "Point", x: p.x, y: p.y });
+    } else if (kind === "Polygon" || kind === "Polyline") {
+      const next = addVertex(shape, kind, p);
+      if (next) commit(next);
+    } else {
+      setDragStart(p);
+    }
+  };
+
+  const handleMouseMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const p = toGrid(e);
+    setCursor(p);
+    if (dragStart && kind) {
+      setDraft(shapeFromDrag(kind, dragStart, p));
+    }
+  };
+
+  const handleMouseUp = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    if (!dragStart || !kind) return;
+    const next = shapeFromDrag(kind, dragStart, toGrid(e));
+    setDragStart(null);
+    setDraft(null);
+    if (next) commit(next);
+  };
+
+  const handleMouseLeave = () => {
+    setCursor(null);
+    setDragStart(null);
+    setDraft(null);
+  };
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx) return;
+
+    const toPx = (p: Vec2): [number, number] => [(p.x - origin.x) * UNIT_PX, (origin.y + ROWS - p.y) * UNIT_PX];
+
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+
+    // Grid lines every GRID_STEP units, the axes brighter when they are in view
+    ctx.lineWidth = 1;
+    for (let x = Math.ceil(origin.x / GRID_STEP) * GRID_STEP; x <= origin.x + COLS; x += GRID_STEP) {
+      const [px] = toPx({ x, y: 0 });
+      ctx.strokeStyle = x === 0 ? "rgba(255, 255, 255, 0.3)" : "rgba(255, 255, 255, 0.08)";
+      ctx.beginPath();
+      ctx.moveTo(px + 0.5, 0);
+      ctx.lineTo(px + 0.5, canvas.height);
+      ctx.stroke();
+    }
+    for (let y = Math.ceil(origin.y / GRID_STEP) * GRID_STEP; y <= origin.y + ROWS; y += GRID_STEP) {
+      const [, py] = toPx({ x: 0, y });
+      ctx.strokeStyle = y === 0 ? "rgba(255, 255, 255, 0.3)" : "rgba(255, 255, 255, 0.08)";
+      ctx.beginPath();
+      ctx.moveTo(0, py + 0.5);
+      ctx.lineTo(canvas.width, py + 0.5);
+      ctx.stroke();
+    }
+
+    const drawShape = (s: Shape, color: string, dashed: boolean) => {
+      ctx.strokeStyle = color;
+      ctx.fillStyle = color + "33";
+      ctx.lineWidth = 2;
+      ctx.setLineDash(dashed ? [6, 4] : []);
+      ctx.beginPath();
+
+      switch (s.type) {
+        case "Point": {
+          const [x, y] = toPx(s);
+          ctx.arc(x, y, 4, 0, Math.PI * 2);
+          ctx.fill();
+          break;
+        }
+        case "Circle": {
+          const [x, y] = toPx(s.center);
+          ctx.arc(x, y, s.radius * UNIT_PX, 0, Math.PI * 2);
+          ctx.fill();
+          break;
+        }
+        case "Rectangle": {
+          const [x1, y1] = toPx(s.min);
+          const [x2, y2] = toPx(s.max);
+          ctx.rect(x1, y2, x2 - x1, y1 - y2);
+          ctx.fill();
+          break;
+        }
+        case "Segment":
+          ctx.moveTo(...toPx(s.start));
+          ctx.lineTo(...toPx(s.end));
+          break;
+        case "Polygon":
+          s.vertices.forEach((v, i) => (i === 0 ? ctx.moveTo(...toPx(v)) : ctx.lineTo(...toPx(v))));
+          if (s.vertices.length > 2) {
+            ctx.closePath();
+            ctx.fill();
+          }
+          for (const v of s.vertices) {
+            const [x, y] = toPx(v);
+            ctx.fillRect(x - 2, y - 2, 4, 4);
+          }
+          break;
+        case "Polyline":
+          s.vertices.forEach((v, i) => (i === 0 ? ctx.moveTo(...toPx(v)) : ctx.lineTo(...toPx(v))));
+          for (const v of s.vertices) {
+            const [x, y] = toPx(v);
+            ctx.fillRect(x - 2, y - 2, 4, 4);
+          }
+          break;
+      }
+      ctx.stroke();
+      ctx.setLineDash([]);
+    };
+
+    if (shape) drawShape(shape, PREVIEW_COLOR, false);
+    if (draft) drawShape(draft, DRAFT_COLOR, true);
+  }, [shape, draft, origin.x, origin.y]);
+
+  return (
+    <div className="shape-canvas">
+      <canvas
+        ref={canvasRef}
+        width={COLS * UNIT_PX}
+        height={ROWS * UNIT_PX}
+        className={kind ? "" : "disabled"}
+        onMouseDown={handleMouseDown}
+        onMouseMove={handleMouseMove}
+        onMouseUp={handleMouseUp}
+        onMouseLeave={handleMouseLeave}
+      />
+      <div className="shape-canvas-toolbar">
+        <span className="shape-canvas-hint">
+          {!kind && "Select a shape type to draw"}
+          {kind === "Point" && "Click to place the point"}
+          {(kind === "Circle" || kind === "Rectangle" || kind === "Segment") && "Drag to draw"}
+          {(kind === "Polygon" || kind === "Polyline") && "Click to add vertices"}
+        </span>
+        <span className="shape-canvas-range" title={`One unit is ${encoding.scale} contract grid steps`}>
+          x {origin.x}..{origin.x + COLS}, y {origin.y}..{origin.y + ROWS}, step 1
+        </span>
+        <span className="shape-canvas-cursor">{cursor ? `(${cursor.x}, ${cursor.y})` : ""}</span>
+        <button
+          type="button"
+          className="cyber-button"
+          onClick={undo}
+          disabled={history.length === 0}
+        >
+          Undo
+        </button>
+        <button
+          type="button"
+          className="cyber-button"
+          onClick={() => commit(null)}
+          disabled={!shape}
+        >
+          Clear
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ShapeCanvas;
@@ -0,0 +1,66 @@
+// consent.ts
+import type { GeometricWitness } from "./types";
+
+// How long an approval lets the owners of a pair compute it, as GeometricWitness sets it
+export const CONSENT_PERIOD_SECONDS = 24 * 60 * 60;
+
+// Request statuses in the order GeometricWitness numbers them
+const REQUEST_STATES = ["pending", "approved", "rejected"] as const;
+
+// "expired" is an approval whose period has passed, which the contract still records as approved
+export type ComputationRequestState = (typeof REQUEST_STATES)[number] | "expired";
+
+// A request by the owner of one shape to check it against another owner's shape, or by any account to check points
+// against another owner's shape
+export interface ComputationRequest {
+  id: number;
+  requester: string;
+  shapeId: number;       // The requester's shape, 0 for a request to check points
+  targetShapeId: number; // The shape whose owner approves or declines
+  state: ComputationRequestState;
+  expiresAt?: number;    // Unix seconds, set once approved
+}
+
+// Reads a request as of `now`, in Unix seconds, which decides whether its approval has expired
+export async function readComputationRequest(
+  contract: Pick<GeometricWitness, "computationRequests">,
+  requestId: number | bigint,
+  now: number = Math.floor(Date.now() / 1000)
+): Promise<ComputationRequest> {
+  const request = await contract.computationRequests(requestId);
+  const expiresAt = Number(request.expiresAt);
+  const state = REQUEST_STATES[Number(request.status)];
+  return {
+    id: Number(requestId),
+    requester: request.requester,
+    shapeId: Number(request.shapeId),
+    targetShapeId: Number(request.targetShapeId),
+    state: state === "approved" && now > expiresAt ? "expired" : state,
+    expiresAt: expiresAt > 0 ? expiresAt : undefined
+  };
+}
+
+// Whether some request for the unordered pair is approved and unexpired, so that either owner may compute it
+export function isPairApproved(requests: ComputationRequest[], shapeId1: number, shapeId2: number): boolean {
+  return requests.some(request =>
+    request.state === "approved" &&
+    ((request.shapeId === shapeId1 && request.targetShapeId === shapeId2) ||
+      (request.shapeId === shapeId2 && request.targetShapeId === shapeId1))
+  );
+}
+
+// Whether a request asks to check points against its target rather than to compute a pair
+export function isVerificationRequest(request: ComputationRequest): boolean {
+  return request.shapeId === 0;
+}
+
+// Whether the account may check points against a shape it does not own, which only an approved, unexpired request
+// of its own to check points grants; approving a pair does not
+export function isVerificationApproved(requests: ComputationRequest[], shapeId: number, account: string): boolean {
+  return requests.some(request =>
+    request.state === "approved" &&
+    isVerificationRequest(request) &&
+    request.targetShapeId === shapeId &&
+    request.requester.toLowerCase() === account.toLowerCase()
+  );
+}
@@ -1,9 +1,8 @@
 // contract.ts
 import { ethers } from "ethers";
-import abiJson from "./abi/UniversalAdapter.json";
 import configJson from "./config.json";
+import { GeometricWitness, GeometricWitness__factory } from "./types";
 
-export const ABI = (abiJson as any).abi || abiJson;
 export const config = configJson;
 
 const retry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promise<T> => {
@@ -50,10 +49,10 @@ const getTestnetProvider = async () => {
   throw new Error("All RPC providers failed");
 };
 
-export async function getContractReadOnly() {
+export async function getContractReadOnly(): Promise<GeometricWitness | null> {
   try {
     const provider = await getTestnetProvider();
-    const contract = new ethers.Contract(config.contractAddress, ABI, provider);
+    const contract = GeometricWitness__factory.connect(config.contractAddress, provider);
     
     const code = await retry(() => provider.getCode(config.contractAddress));
     if (code === "0x") {
@@ -67,14 +66,14 @@ export async function getContractReadOnly() {
   }
 }
 
-export async function getContractWithSigner() {
+export async function getContractWithSigner(): Promise<GeometricWitness> {
   if (!(window as any).ethereum) {
     throw new Error("No injected wallet");
   }
   try {
     const provider = new ethers.BrowserProvider((window as any).ethereum);
     const signer = await provider.getSigner();
-    const contract = new ethers.Contract(config.contractAddress, ABI, signer);
+    const contract = GeometricWitness__factory.connect(config.contractAddress, signer);
     return contract;
   } catch (error) {
     console.error("Failed to create contract with signer:", error);
@@ -84,4 +83,30 @@ export async function getContractWithSigner() {
 
 export function normAddr(a: string) { 
   return a ? a.toLowerCase() : a; 
+}
+
+// The decryption oracle answers asynchronously, usually within a few blocks of the request
+const REVEAL_TIMEOUT_MS = 5 * 60 * 1000;
+
+// Resolves once the oracle callback has emitted ResultRevealed for the given result hash
+export async function waitForResultRevealed(contract: GeometricWitness, hash: string, timeoutMs = REVEAL_TIMEOUT_MS) {
+  const filter = contract.filters.ResultRevealed(hash);
+  let onRevealed = () => {};
+  const revealed = new Promise<void>(resolve => (onRevealed = resolve));
+  const listener = () => onRevealed();
+  await contract.once(filter, listener);
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timedOut = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error("Timed out waiting for the decryption oracle")), timeoutMs);
+  });
+
+  try {
+    // The callback may have landed before the listener was attached
+    if ((await contract.decryptedResults(hash)).isRevealed) return;
+    await Promise.race([revealed, timedOut]);
+  } finally {
+    clearTimeout(timer);
+    await contract.off(filter, listener);
+  }
 }
\ No newline at end of file
@@ -0,0 +1,58 @@
+// decryption.ts
+import type { Signer } from "ethers";
+import type { FhevmInstance } from "@zama-fhe/relayer-sdk/web";
+
+export interface PrivateIntersectionResult {
+  hasIntersection: boolean;
+  witnessPoint: number[];
+}
+
+export type ResultDecryptor = Pick<FhevmInstance, "generateKeypair" | "createEIP712" | "userDecrypt">;
+
+// How long the decryption permission signed for a throwaway keypair stays valid
+const PERMISSION_DURATION_DAYS = 1;
+
+// Decrypts handles the signer holds ACL access to, without publishing anything on-chain: the relayer
+// re-encrypts them under a fresh keypair that the signer authorises with an EIP-712 signature
+export async function userDecryptHandles(
+  fhevm: ResultDecryptor,
+  contractAddress: string,
+  signer: Signer,
+  handles: string[]
+): Promise<Awaited<ReturnType<ResultDecryptor["userDecrypt"]>>> {
+  const keypair = fhevm.generateKeypair();
+  const startTimestamp = Math.floor(Date.now() / 1000);
+  const eip712 = fhevm.createEIP712(keypair.publicKey, [contractAddress], startTimestamp, PERMISSION_DURATION_DAYS);
+  const signature = await signer.signTypedData(
+    eip712.domain,
+    { UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification },
+    eip712.message
+  );
+
+  return fhevm.userDecrypt(
+    handles.map(handle => ({ handle, contractAddress })),
+    keypair.privateKey,
+    keypair.publicKey,
+    signature.replace("0x", ""),
+    [contractAddress],
+    await signer.getAddress(),
+    startTimestamp,
+    PERMISSION_DURATION_DAYS
+  );
+}
+
+// Decrypts an intersection result for one of the owners of its shapes
+export async function userDecryptResult(
+  fhevm: ResultDecryptor,
+  contractAddress: string,
+  signer: Signer,
+  hasIntersection: string,
+  witnessPoint: string[]
+): Promise<PrivateIntersectionResult> {
+  const cleartexts = await userDecryptHandles(fhevm, contractAddress, signer, [hasIntersection, ...witnessPoint]);
+
+  return {
+    hasIntersection: Boolean(cleartexts[hasIntersection]),
+    witnessPoint: witnessPoint.map(handle => Number(cleartexts[handle]))
+  };
+}
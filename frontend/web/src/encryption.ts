@@ -0,0 +1,51 @@
+// encryption.ts
+import { ethers } from "ethers";
+import type { FhevmInstance } from "@zama-fhe/relayer-sdk/web";
+import { CoordinateEncoding, IDENTITY_ENCODING, PlainShape, Shape, UINT32_MAX, serializeShape } from "./geometry";
+
+export interface EncryptedShape {
+  shapeType: number;
+  handles: string[];
+  inputProof: string;
+}
+
+export type ShapeEncryptor = Pick<FhevmInstance, "createEncryptedInput">;
+
+// Encrypts every shape parameter as an euint32 bound to (contract, user) and returns the handles with their input proof
+export async function encryptShape(
+  fhevm: ShapeEncryptor,
+  contractAddress: string,
+  userAddress: string,
+  shape: PlainShape
+): Promise<EncryptedShape> {
+  if (shape.parameters.length === 0) {
+    throw new Error("Shape has no parameters to encrypt");
+  }
+
+  const input = fhevm.createEncryptedInput(contractAddress, userAddress);
+  for (const value of shape.parameters) {
+    if (!Number.isInteger(value) || value < 0 || value > UINT32_MAX) {
+      throw new Error(`Parameter ${value} does not fit in uint32`);
+    }
+    input.add32(value);
+  }
+
+  const { handles, inputProof } = await input.encrypt();
+  return {
+    shapeType: shape.shapeType,
+    handles: handles.map(h => ethers.hexlify(h)),
+    inputProof: ethers.hexlify(inputProof)
+  };
+}
+
+// Builds the arguments of submitEncryptedShape(externalEuint32[], bytes, uint8) for a typed shape,
+// encoded with the coordinate encoding the target deployment records
+export function buildShapeInput(
+  fhevm: ShapeEncryptor,
+  contractAddress: string,
+  userAddress: string,
+  shape: Shape,
+  encoding: CoordinateEncoding = IDENTITY_ENCODING
+): Promise<EncryptedShape> {
+  return encryptShape(fhevm, contractAddress, userAddress, serializeShape(shape, encoding));
+}
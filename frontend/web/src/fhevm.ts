@@ -0,0 +1,21 @@
+// fhevm.ts
+import { initSDK, createInstance, SepoliaConfig, FhevmInstance } from "@zama-fhe/relayer-sdk/web";
+
+let instancePromise: Promise<FhevmInstance> | null = null;
+
+// Loads the TFHE/KMS wasm once and creates a relayer instance bound to the injected wallet
+export function getFhevmInstance(): Promise<FhevmInstance> {
+  if (!instancePromise) {
+    instancePromise = (async () => {
+      if (!window.ethereum) {
+        throw new Error("No injected wallet");
+      }
+      await initSDK();
+      return createInstance({ ...SepoliaConfig, network: window.ethereum });
+    })();
+    instancePromise.catch(() => {
+      instancePromise = null;
+    });
+  }
+  return instancePromise;
+}
@@ -0,0 +1,561 @@
+// geometry.ts
+import type { GeometricWitness } from "./types";
+
+export const UINT32_MAX = 0xffffffff;
+
+export interface Vec2 {
+  x: number;
+  y: number;
+}
+
+export interface Point extends Vec2 {
+  type: "Point";
+}
+
+export interface Circle {
+  type: "Circle";
+  center: Vec2;
+  radius: number;
+}
+
+export interface Rectangle {
+  type: "Rectangle";
+  min: Vec2;
+  max: Vec2;
+}
+
+export interface Segment {
+  type: "Segment";
+  start: Vec2;
+  end: Vec2;
+}
+
+export interface Polygon {
+  type: "Polygon";
+  vertices: Vec2[];
+}
+
+export interface Polyline {
+  type: "Polyline";
+  vertices: Vec2[];
+}
+
+export type Shape = Point | Circle | Rectangle | Segment | Polygon | Polyline;
+export type ShapeKind = Shape["type"];
+
+export const SHAPE_KINDS: ShapeKind[] = ["Point", "Circle", "Rectangle", "Segment", "Polygon", "Polyline"];
+
+// Shape type bytes understood by GeometricWitness
+export const CONTRACT_SHAPE_TYPES: Partial<Record<ShapeKind, number>> = {
+  Point: 0,
+  Circle: 1,
+  Rectangle: 2,
+  Polygon: 3,
+  Segment: 4,
+  Polyline: 5
+};
+
+// Most vertices any GeometricWitness deployment lets a polygon have; each deployment picks its own cap up to this
+export const MAX_POLYGON_VERTICES = 8;
+// Most vertices GeometricWitness lets a polyline have
+export const MAX_POLYLINE_VERTICES = 8;
+
+// Inclusive upper bounds (the lower bound is 0) within which GeometricWitness evaluates a shape exactly.
+// Squared distances are summed in euint64, so 2 * coordinate^2 must stay below 2^64, and the sum of two
+// radii is squared there too, so each radius must stay below 2^31.
+export const SAFE_COORDINATE_MAX = 3037000499;
+export const SAFE_RADIUS_MAX = 2 ** 31 - 1;
+// Polygon, segment and polyline predicates take cross products of coordinate differences modulo 2^64, whose sign is
+// only exact while the differences stay below 2^31
+export const SAFE_POLYGON_COORDINATE_MAX = 2 ** 31 - 2;
+
+export interface SafeRange {
+  coordinate: number;
+  radius?: number;
+}
+
+export const SAFE_RANGES: Record<ShapeKind, SafeRange> = {
+  Point: { coordinate: SAFE_COORDINATE_MAX },
+  Circle: { coordinate: SAFE_COORDINATE_MAX, radius: SAFE_RADIUS_MAX },
+  Rectangle: { coordinate: SAFE_COORDINATE_MAX },
+  Segment: { coordinate: SAFE_POLYGON_COORDINATE_MAX },
+  Polygon: { coordinate: SAFE_POLYGON_COORDINATE_MAX },
+  Polyline: { coordinate: SAFE_POLYGON_COORDINATE_MAX }
+};
+
+// Maps real-valued coordinates onto the unsigned integer grid GeometricWitness computes on: a coordinate v is stored
+// as round(v * scale) + offset and a length such as a radius as round(v * scale). The offset moves the origin into
+// the middle of the range so negative coordinates stay unsigned, and the scale keeps a fixed number of fractional
+// digits. Each deployment records the encoding its shapes use, see GeometricWitness.getCoordinateEncoding.
+export interface CoordinateEncoding {
+  offset: number;
+  scale: number;
+}
+
+// Raw grid values, as submitted before encodings existed
+export const IDENTITY_ENCODING: CoordinateEncoding = { offset: 0, scale: 1 };
+
+// Thousandths of a unit, with the origin near the middle of the safe coordinate range
+export const DEFAULT_ENCODING: CoordinateEncoding = { offset: 1_500_000_000, scale: 1_000 };
+
+// How far, in grid steps, a scaled value may sit off the grid and still count as on it,
+// absorbing floating-point error in decimal inputs such as 0.1 * 1000
+const GRID_TOLERANCE = 1e-3;
+
+export interface Range {
+  min: number;
+  max: number;
+}
+
+export function isValidEncoding({ offset, scale }: CoordinateEncoding) {
+  return (
+    Number.isInteger(offset) && offset >= 0 && offset <= UINT32_MAX &&
+    Number.isInteger(scale) && scale > 0 && scale <= UINT32_MAX
+  );
+}
+
+export function isOnGrid(value: number, { scale }: CoordinateEncoding) {
+  const scaled = value * scale;
+  return Math.abs(scaled - Math.round(scaled)) <= GRID_TOLERANCE;
+}
+
+export function encodeCoordinate(value: number, { offset, scale }: CoordinateEncoding): number {
+  return Math.round(value * scale) + offset;
+}
+
+export function decodeCoordinate(encoded: number, { offset, scale }: CoordinateEncoding): number {
+  return (encoded - offset) / scale;
+}
+
+export function encodeLength(value: number, { scale }: CoordinateEncoding): number {
+  return Math.round(value * scale);
+}
+
+export function decodeLength(encoded: number, { scale }: CoordinateEncoding): number {
+  return encoded / scale;
+}
+
+// Decodes a revealed [x, y] witness back into the coordinates the shapes were entered in
+export function decodeWitness(witnessPoint: number[], encoding: CoordinateEncoding): Vec2 {
+  return { x: decodeCoordinate(witnessPoint[0], encoding), y: decodeCoordinate(witnessPoint[1], encoding) };
+}
+
+// Real-valued ranges a shape kind's coordinates and radius may take under an encoding, the safe ranges decoded
+export function realRanges(kind: ShapeKind, encoding: CoordinateEncoding): { coordinate: Range; radius: Range } {
+  const { coordinate, radius = coordinate } = SAFE_RANGES[kind];
+  return {
+    coordinate: { min: decodeCoordinate(0, encoding), max: decodeCoordinate(coordinate, encoding) },
+    radius: { min: 0, max: decodeLength(radius, encoding) }
+  };
+}
+
+// Cleartext shape in the layout GeometricWitness stores: a shape type byte plus uint32 parameters
+export interface PlainShape {
+  shapeType: number;
+  parameters: number[];
+}
+
+export interface ShapeFieldErrors {
+  type?: string;
+  coordinates?: string[];
+}
+
+export type ShapeParseResult =
+  | { shape: Shape; errors?: undefined }
+  | { shape?: undefined; errors: ShapeFieldErrors };
+
+export function isShapeKind(value: string): value is ShapeKind {
+  return (SHAPE_KINDS as string[]).includes(value);
+}
+
+export function shapeKindOf(shapeType: number): ShapeKind | undefined {
+  return SHAPE_KINDS.find(kind => CONTRACT_SHAPE_TYPES[kind] === shapeType);
+}
+
+// Whether shapes of this kind can be serialized for GeometricWitness, and, given a deployment's registry, accepted by it
+export function isContractSupported(kind: ShapeKind, shapeTypes?: ShapeTypeRegistry) {
+  const shapeType = CONTRACT_SHAPE_TYPES[kind];
+  return shapeType !== undefined && (!shapeTypes || shapeTypes.has(shapeType));
+}
+
+// Shape types a deployment accepts, each mapped to the fewest and most parameters its shapes take
+export type ShapeTypeRegistry = Map<number, Range>;
+
+// Reads the shape-type registry a deployment exposes through getShapeTypes
+export async function readShapeTypes(contract: Pick<GeometricWitness, "getShapeTypes">): Promise<ShapeTypeRegistry> {
+  const [types, minParameterCounts, maxParameterCounts] = await contract.getShapeTypes();
+  return new Map(
+    types.map((shapeType, i) => [
+      Number(shapeType),
+      { min: Number(minParameterCounts[i]), max: Number(maxParameterCounts[i]) }
+    ])
+  );
+}
+
+// Shape kinds a deployment accepts, in SHAPE_KINDS order
+export function supportedKinds(shapeTypes: ShapeTypeRegistry): ShapeKind[] {
+  return SHAPE_KINDS.filter(kind => isContractSupported(kind, shapeTypes));
+}
+
+// Why GeometricWitness cannot check shapes of these kinds against each other, or undefined when it can. Polygons are
+// only tested against points and other polygons; every other pair reverts with "Unsupported shape pair".
+export function unsupportedPairReason(kind1: ShapeKind, kind2: ShapeKind): string | undefined {
+  const kinds = [kind1, kind2];
+  if (kinds.includes("Polygon") && !kinds.every(kind => kind === "Polygon" || kind === "Point")) {
+    return "Polygons can only be checked against points and other polygons";
+  }
+  return undefined;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// Checks a real-valued coordinate against its range and the encoding's grid step
+const readCoordinate = (
+  value: unknown,
+  path: string,
+  errors: string[],
+  range: Range,
+  encoding: CoordinateEncoding
+): number => {
+  if (typeof value !== "number" || !Number.isFinite(value) || value < range.min || value > range.max) {
+    errors.push(`${path}: must be a number between ${range.min} and ${range.max}`);
+    return 0;
+  }
+  if (!isOnGrid(value, encoding)) {
+    errors.push(`${path}: must be a multiple of ${1 / encoding.scale}`);
+    return 0;
+  }
+  return value;
+};
+
+// Accepts either [x, y] or { "x": x, "y": y }
+const readVec2 = (
+  value: unknown,
+  path: string,
+  errors: string[],
+  range: Range,
+  encoding: CoordinateEncoding
+): Vec2 => {
+  if (Array.isArray(value) && value.length === 2) {
+    return {
+      x: readCoordinate(value[0], `${path}.x`, errors, range, encoding),
+      y: readCoordinate(value[1], `${path}.y`, errors, range, encoding)
+    };
+  }
+  if (isRecord(value)) {
+    return {
+      x: readCoordinate(value.x, `${path}.x`, errors, range, encoding),
+      y: readCoordinate(value.y, `${path}.y`, errors, range, encoding)
+    };
+  }
+  errors.push(`${path}: expected [x, y] or {"x": ..., "y": ...}`);
+  return { x: 0, y: 0 };
+};
+
+const sameVec2 = (a: Vec2, b: Vec2) => a.x === b.x && a.y === b.y;
+
+// Why GeometricWitness cannot take these polygon vertices, if it cannot: its predicates need a convex polygon listed
+// counter-clockwise. Turns are compared on the encoded grid, in bigint, so the check matches what the contract sees.
+export function polygonError(vertices: Vec2[], encoding: CoordinateEncoding = IDENTITY_ENCODING): string | undefined {
+  const grid = vertices.map(v => ({
+    x: BigInt(encodeCoordinate(v.x, encoding)),
+    y: BigInt(encodeCoordinate(v.y, encoding))
+  }));
+  const n = grid.length;
+  // Cross and dot product of the edges into and out of each vertex; a positive cross is a left turn
+  const turns = grid.map((v, i) => {
+    const prev = grid[(i + n - 1) % n];
+    const next = grid[(i + 1) % n];
+    const a = { x: v.x - prev.x, y: v.y - prev.y };
+    const b = { x: next.x - v.x, y: next.y - v.y };
+    return { cross: a.x * b.y - a.y * b.x, dot: a.x * b.x + a.y * b.y };
+  });
+
+  if (turns.some(turn => turn.cross === 0n)) {
+    return "vertices: no three consecutive vertices may lie on one line";
+  }
+  if (turns.every(turn => turn.cross < 0n)) {
+    return "vertices: must be listed counter-clockwise";
+  }
+  if (turns.some(turn => turn.cross < 0n)) {
+    return "vertices: must form a convex polygon";
+  }
+  // Left turns alone still allow a star that winds around more than once
+  const winding = turns.reduce((sum, turn) => sum + Math.atan2(Number(turn.cross), Number(turn.dot)), 0);
+  if (Math.abs(winding - 2 * Math.PI) > 1e-6) {
+    return "vertices: must not cross each other";
+  }
+  return undefined;
+}
+
+const readShape = (kind: ShapeKind, data: unknown, errors: string[], encoding: CoordinateEncoding): Shape => {
+  const { coordinate, radius } = realRanges(kind, encoding);
+  const vec2 = (value: unknown, path: string) => readVec2(value, path, errors, coordinate, encoding);
+  switch (kind) {
+    case "Point": {
+      const { x, y } = vec2(data, "point");
+      return { type: "Point", x, y };
+    }
+    case "Circle": {
+      let circle: Circle;
+      if (Array.isArray(data) && data.length === 3) {
+        circle = {
+          type: "Circle",
+          center: vec2(data.slice(0, 2), "center"),
+          radius: readCoordinate(data[2], "radius", errors, radius, encoding)
+        };
+      } else if (isRecord(data)) {
+        circle = {
+          type: "Circle",
+          center: vec2(data.center, "center"),
+          radius: readCoordinate(data.radius, "radius", errors, radius, encoding)
+        };
+      } else {
+        errors.push(`circle: expected [cx, cy, radius] or {"center": ..., "radius": ...}`);
+        return { type: "Circle", center: { x: 0, y: 0 }, radius: 0 };
+      }
+      return circle;
+    }
+    case "Rectangle": {
+      let rect: Rectangle;
+      if (Array.isArray(data) && data.length === 4) {
+        rect = {
+          type: "Rectangle",
+          min: vec2(data.slice(0, 2), "min"),
+          max: vec2(data.slice(2, 4), "max")
+        };
+      } else if (isRecord(data)) {
+        rect = {
+          type: "Rectangle",
+          min: vec2(data.min, "min"),
+          max: vec2(data.max, "max")
+        };
+      } else {
+        errors.push(`rectangle: expected [minX, minY, maxX, maxY] or {"min": ..., "max": ...}`);
+        return { type: "Rectangle", min: { x: 0, y: 0 }, max: { x: 0, y: 0 } };
+      }
+      if (rect.min.x > rect.max.x || rect.min.y > rect.max.y) {
+        errors.push("max: must not be below or left of min");
+      }
+      return rect;
+    }
+    case "Segment": {
+      let segment: Segment;
+      if (Array.isArray(data) && data.length === 4) {
+        segment = {
+          type: "Segment",
+          start: vec2(data.slice(0, 2), "start"),
+          end: vec2(data.slice(2, 4), "end")
+        };
+      } else if (Array.isArray(data) && data.length === 2) {
+        segment = {
+          type: "Segment",
+          start: vec2(data[0], "start"),
+          end: vec2(data[1], "end")
+        };
+      } else if (isRecord(data)) {
+        segment = {
+          type: "Segment",
+          start: vec2(data.start, "start"),
+          end: vec2(data.end, "end")
+        };
+      } else {
+        errors.push(`segment: expected [[x1, y1], [x2, y2]] or {"start": ..., "end": ...}`);
+        return { type: "Segment", start: { x: 0, y: 0 }, end: { x: 0, y: 0 } };
+      }
+      if (errors.length === 0 && sameVec2(segment.start, segment.end)) {
+        errors.push("end: must differ from start");
+      }
+      return segment;
+    }
+    case "Polygon": {
+      const vertices = isRecord(data) ? data.vertices : data;
+      if (!Array.isArray(vertices) || vertices.length < 3) {
+        errors.push(`vertices: expected at least 3 points as [[x, y], ...] or {"vertices": [...]}`);
+        return { type: "Polygon", vertices: [] };
+      }
+      const polygon: Polygon = {
+        type: "Polygon",
+        vertices: vertices.map((v, i) => vec2(v, `vertices[${i}]`))
+      };
+      const error = errors.length === 0 ? polygonError(polygon.vertices, encoding) : undefined;
+      if (error) {
+        errors.push(error);
+      }
+      return polygon;
+    }
+    case "Polyline": {
+      const vertices = isRecord(data) ? data.vertices : data;
+      if (!Array.isArray(vertices) || vertices.length < 2) {
+        errors.push(`vertices: expected at least 2 points as [[x, y], ...] or {"vertices": [...]}`);
+        return { type: "Polyline", vertices: [] };
+      }
+      const polyline: Polyline = {
+        type: "Polyline",
+        vertices: vertices.map((v, i) => vec2(v, `vertices[${i}]`))
+      };
+      if (errors.length === 0 && polyline.vertices.some((v, i) => i > 0 && sameVec2(v, polyline.vertices[i - 1]))) {
+        errors.push("vertices: consecutive vertices must differ");
+      }
+      return polyline;
+    }
+  }
+};
+
+// Parses JSON coordinates as a shape of the given kind without checking contract support.
+// Coordinates are real values, checked against the range and grid step of the encoding they will be stored with.
+export function parseCoordinates(
+  kind: ShapeKind,
+  coordinates: string,
+  encoding: CoordinateEncoding = IDENTITY_ENCODING
+): { shape?: Shape; errors: string[] } {
+  if (!coordinates.trim()) {
+    return { errors: ["Enter the shape coordinates"] };
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(coordinates);
+  } catch (e: any) {
+    return { errors: [`Invalid JSON: ${e.message}`] };
+  }
+
+  const errors: string[] = [];
+  const shape = readShape(kind, data, errors, encoding);
+  return errors.length > 0 ? { errors } : { shape, errors };
+}
+
+// Parses the create form's shape type and JSON coordinates into a typed shape, collecting errors per form field.
+// Given a deployment's shape-type registry, kinds it does not accept are rejected as well.
+export function parseShape(
+  type: string,
+  coordinates: string,
+  encoding: CoordinateEncoding = IDENTITY_ENCODING,
+  shapeTypes?: ShapeTypeRegistry
+): ShapeParseResult {
+  const errors: ShapeFieldErrors = {};
+
+  if (!type) {
+    errors.type = "Select a shape type";
+  } else if (!isShapeKind(type)) {
+    errors.type = `Unknown shape type "${type}"`;
+  } else if (!isContractSupported(type, shapeTypes)) {
+    errors.type = `${type} shapes are not supported by the contract yet`;
+  }
+
+  const parsed = isShapeKind(type) ? parseCoordinates(type, coordinates, encoding) : undefined;
+  if (parsed && parsed.errors.length > 0) {
+    errors.coordinates = parsed.errors;
+  }
+  // Polygons and polylines are the kinds whose parameter count varies, up to the deployment's vertex cap
+  const shape = parsed?.shape;
+  const counts = shape && "vertices" in shape ? shapeTypes?.get(CONTRACT_SHAPE_TYPES[shape.type]!) : undefined;
+  if (shape && "vertices" in shape && counts && shape.vertices.length * 2 > counts.max) {
+    errors.coordinates = [`vertices: at most ${counts.max / 2} are supported`];
+  }
+
+  if (errors.type || errors.coordinates || !parsed?.shape) {
+    return { errors };
+  }
+  return { shape: parsed.shape };
+}
+
+// Renders a shape as the JSON coordinates parseShape accepts, so editors can round-trip through the textarea
+export function formatShape(shape: Shape): string {
+  const { type: _type, ...coordinates } = shape;
+  return JSON.stringify(coordinates);
+}
+
+// Parses coordinates for the drawing canvas like parseCoordinates, except that a polygon or polyline still being drawn
+// comes back with the vertices clicked so far, even while too few or not yet convex to submit, so the next click adds
+// to it
+export function parseDraftShape(
+  kind: ShapeKind,
+  coordinates: string,
+  encoding: CoordinateEncoding = IDENTITY_ENCODING
+): Shape | undefined {
+  const parsed = parseCoordinates(kind, coordinates, encoding);
+  if (parsed.shape || (kind !== "Polygon" && kind !== "Polyline")) {
+    return parsed.shape;
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(coordinates);
+  } catch {
+    return undefined;
+  }
+  const vertices = isRecord(data) ? data.vertices : data;
+  if (!Array.isArray(vertices)) {
+    return undefined;
+  }
+  const errors: string[] = [];
+  const { coordinate } = realRanges(kind, encoding);
+  const draft: Shape = {
+    type: kind,
+    vertices: vertices.map((v, i) => readVec2(v, `vertices[${i}]`, errors, coordinate, encoding))
+  };
+  return errors.length === 0 ? draft : undefined;
+}
+
+// Adds a clicked vertex to the polygon or polyline being drawn, starting a new one when the draft is not of that kind.
+// Returns undefined when the click repeats the last vertex, which would give the contract a zero-length segment.
+export function addVertex(
+  draft: Shape | null | undefined,
+  kind: "Polygon" | "Polyline",
+  vertex: Vec2
+): Shape | undefined {
+  const vertices = draft?.type === kind ? draft.vertices : [];
+  if (vertices.length > 0 && sameVec2(vertices[vertices.length - 1], vertex)) {
+    return undefined;
+  }
+  return { type: kind, vertices: [...vertices, vertex] };
+}
+
+// Flattens a typed shape into the shapeType byte and euint32 parameter order GeometricWitness expects,
+// encoding each value onto the grid and rejecting values that land off it or outside the shape's safe range
+export function serializeShape(shape: Shape, encoding: CoordinateEncoding = IDENTITY_ENCODING): PlainShape {
+  const shapeType = CONTRACT_SHAPE_TYPES[shape.type];
+  if (shapeType === undefined) {
+    throw new Error(`${shape.type} shapes are not supported by GeometricWitness`);
+  }
+
+  let parameters: number[];
+  switch (shape.type) {
+    case "Point":
+      parameters = [shape.x, shape.y];
+      break;
+    case "Circle":
+      parameters = [shape.center.x, shape.center.y, shape.radius];
+      break;
+    case "Rectangle":
+      parameters = [shape.min.x, shape.min.y, shape.max.x, shape.max.y];
+      break;
+    case "Segment":
+      parameters = [shape.start.x, shape.start.y, shape.end.x, shape.end.y];
+      break;
+    case "Polygon":
+    case "Polyline":
+      parameters = shape.vertices.flatMap(v => [v.x, v.y]);
+      break;
+  }
+
+  const ranges = realRanges(shape.type, encoding);
+  const encoded = parameters.map((value, i) => {
+    const isRadius = shape.type === "Circle" && i === 2;
+    const { min, max } = isRadius ? ranges.radius : ranges.coordinate;
+    if (!(value >= min && value <= max)) {
+      throw new Error(`Parameter ${value} is outside the safe range ${min}..${max} for ${shape.type} shapes`);
+    }
+    if (!isOnGrid(value, encoding)) {
+      throw new Error(`Parameter ${value} is not a multiple of ${1 / encoding.scale}`);
+    }
+    return isRadius ? encodeLength(value, encoding) : encodeCoordinate(value, encoding);
+  });
+  const error = shape.type === "Polygon" ? polygonError(shape.vertices, encoding) : undefined;
+  if (error) {
+    throw new Error(`Polygon rejected, ${error}`);
+  }
+  return { shapeType, parameters: encoded };
+}
@@ -0,0 +1,10 @@
+// pairKey.ts
+import { solidityPackedKeccak256 } from "ethers";
+
+// Key GeometricWitness stores a pair's result under: keccak256(abi.encodePacked(min, max)), so (a, b) and (b, a) agree.
+// Event topics (IntersectionComputed, ResultRevealed, ...) carry this key, so indexers can join them on it.
+export function pairKey(shapeId1: number | bigint, shapeId2: number | bigint): string {
+  const a = BigInt(shapeId1);
+  const b = BigInt(shapeId2);
+  return solidityPackedKeccak256(["uint256", "uint256"], a < b ? [a, b] : [b, a]);
+}
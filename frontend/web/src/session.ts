@@ -0,0 +1,55 @@
+// session.ts
+import type { Signer } from "ethers";
+import { PrivateIntersectionResult, ResultDecryptor, userDecryptResult } from "./decryption";
+import { ShapeKind } from "./geometry";
+import type { GeometricWitness } from "./types";
+
+// Most parties GeometricWitness lets a session list
+export const MAX_SESSION_PARTIES = 8;
+
+// Shape kinds a session accepts; the contract also allows at most one circle per session, which keeps its
+// common-point check exact
+export const SESSION_SHAPE_KINDS: ShapeKind[] = ["Point", "Circle", "Rectangle"];
+
+// "open" until every listed party has joined, after which the contract has computed the result, or until a party
+// cancels it
+export type SessionState = "open" | "computed" | "cancelled";
+
+export interface SessionParty {
+  address: string;
+  shapeId?: number; // Unset until the party joins
+}
+
+export interface IntersectionSession {
+  id: number;
+  parties: SessionParty[];
+  state: SessionState;
+}
+
+export async function readSession(
+  contract: Pick<GeometricWitness, "getSession">,
+  sessionId: number | bigint
+): Promise<IntersectionSession> {
+  const [parties, shapeIds, isComputed, isCancelled] = await contract.getSession(sessionId);
+  return {
+    id: Number(sessionId),
+    parties: parties.map((address, i) => ({ address, shapeId: shapeIds[i] > 0n ? Number(shapeIds[i]) : undefined })),
+    state: isComputed ? "computed" : isCancelled ? "cancelled" : "open"
+  };
+}
+
+// Whether the account is listed in the session, and so was granted access to its result
+export function isSessionParty(session: IntersectionSession, account: string): boolean {
+  return session.parties.some(party => party.address.toLowerCase() === account.toLowerCase());
+}
+
+// Decrypts a computed session's result for one of its parties, without publishing anything on-chain
+export async function userDecryptSession(
+  fhevm: ResultDecryptor,
+  contract: GeometricWitness,
+  signer: Signer,
+  sessionId: number | bigint
+): Promise<PrivateIntersectionResult> {
+  const [hasCommonPoint, witnessPoint] = await contract.getSessionResult(sessionId);
+  return userDecryptResult(fhevm, await contract.getAddress(), signer, hasCommonPoint, [...witnessPoint]);
+}
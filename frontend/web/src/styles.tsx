@@ -1,3 +0,0 @@
-import { ethers } from 'ethers';
-
-interface fixture-subscriptions-hooksProps { data: string }
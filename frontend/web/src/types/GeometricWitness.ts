@@ -0,0 +1,1669 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "./common";
+
+export interface GeometricWitnessInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "advanceIntersection"
+      | "approvalExpiries"
+      | "approveComputation"
+      | "authorizedComputers"
+      | "cancelSession"
+      | "computationRequestCount"
+      | "computationRequests"
+      | "computeIntersection"
+      | "coordinateOffset"
+      | "coordinateScale"
+      | "createSession"
+      | "decryptIntersectionResult"
+      | "decryptedResults"
+      | "encryptedShapes"
+      | "getCoordinateEncoding"
+      | "getDecryptedIntersectionResult"
+      | "getEncryptedIntersectionResult"
+      | "getEncryptedShape"
+      | "getIntersectionProgress"
+      | "getRemainingQueries"
+      | "getSession"
+      | "getSessionResult"
+      | "getShapeTypes"
+      | "getShapesByOwner"
+      | "getWitnessStrategy"
+      | "intersectionResults"
+      | "joinSession"
+      | "maxPolygonVertices"
+      | "owner"
+      | "ownerOf"
+      | "pairKey"
+      | "protocolId"
+      | "queryBudgets"
+      | "rejectComputation"
+      | "requestComputation"
+      | "requestResultDecryption"
+      | "requestVerification"
+      | "sessionCount"
+      | "setAuthorizedComputer"
+      | "setQueryBudget"
+      | "shapeCount"
+      | "storeIntersectionResult"
+      | "submitEncryptedShape"
+      | "transferOwnership"
+      | "verificationExpiries"
+      | "verifyWitness"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "AuthorizedComputerSet"
+      | "ComputationApproved"
+      | "ComputationRejected"
+      | "ComputationRequested"
+      | "DecryptionFulfilled"
+      | "DecryptionRequested"
+      | "IntersectionComputed"
+      | "IntersectionResultStored"
+      | "OwnershipTransferred"
+      | "QueryBudgetSet"
+      | "ResultRevealed"
+      | "SessionCancelled"
+      | "SessionComputed"
+      | "SessionCreated"
+      | "SessionJoined"
+      | "ShapeSubmitted"
+      | "WitnessVerified"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "advanceIntersection",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "approvalExpiries",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "approveComputation",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "authorizedComputers",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "cancelSession",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "computationRequestCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "computationRequests",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "computeIntersection",
+    values: [BigNumberish, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "coordinateOffset",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "coordinateScale",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "createSession",
+    values: [AddressLike[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "decryptIntersectionResult",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "decryptedResults",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "encryptedShapes",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getCoordinateEncoding",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getDecryptedIntersectionResult",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getEncryptedIntersectionResult",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getEncryptedShape",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getIntersectionProgress",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getRemainingQueries",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getSession",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getSessionResult",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getShapeTypes",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getShapesByOwner",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getWitnessStrategy",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "intersectionResults",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "joinSession",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "maxPolygonVertices",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "owner", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "ownerOf",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "pairKey",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "protocolId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "queryBudgets",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "rejectComputation",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestComputation",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestResultDecryption",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestVerification",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "sessionCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setAuthorizedComputer",
+    values: [AddressLike, boolean]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setQueryBudget",
+    values: [BigNumberish, BigNumberish, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "shapeCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "storeIntersectionResult",
+    values: [BigNumberish, BigNumberish, BytesLike, BytesLike[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "submitEncryptedShape",
+    values: [BytesLike[], BytesLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "transferOwnership",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "verificationExpiries",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "verifyWitness",
+    values: [BigNumberish, BytesLike[], BytesLike]
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "advanceIntersection",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "approvalExpiries",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "approveComputation",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "authorizedComputers",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "cancelSession",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "computationRequestCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "computationRequests",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "computeIntersection",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "coordinateOffset",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "coordinateScale",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "createSession",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "decryptIntersectionResult",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "decryptedResults",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "encryptedShapes",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getCoordinateEncoding",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getDecryptedIntersectionResult",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getEncryptedIntersectionResult",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getEncryptedShape",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getIntersectionProgress",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getRemainingQueries",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "getSession", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "getSessionResult",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getShapeTypes",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getShapesByOwner",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getWitnessStrategy",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "intersectionResults",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "joinSession",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "maxPolygonVertices",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "owner", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "ownerOf", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "pairKey", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "protocolId", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "queryBudgets",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "rejectComputation",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "requestComputation",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "requestResultDecryption",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "requestVerification",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "sessionCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setAuthorizedComputer",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setQueryBudget",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "shapeCount", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "storeIntersectionResult",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "submitEncryptedShape",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "transferOwnership",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "verificationExpiries",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "verifyWitness",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace AuthorizedComputerSetEvent {
+  export type InputTuple = [computer: AddressLike, authorized: boolean];
+  export type OutputTuple = [computer: string, authorized: boolean];
+  export interface OutputObject {
+    computer: string;
+    authorized: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ComputationApprovedEvent {
+  export type InputTuple = [requestId: BigNumberish, expiresAt: BigNumberish];
+  export type OutputTuple = [requestId: bigint, expiresAt: bigint];
+  export interface OutputObject {
+    requestId: bigint;
+    expiresAt: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ComputationRejectedEvent {
+  export type InputTuple = [requestId: BigNumberish];
+  export type OutputTuple = [requestId: bigint];
+  export interface OutputObject {
+    requestId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ComputationRequestedEvent {
+  export type InputTuple = [
+    requestId: BigNumberish,
+    targetShapeId: BigNumberish,
+    requester: AddressLike
+  ];
+  export type OutputTuple = [
+    requestId: bigint,
+    targetShapeId: bigint,
+    requester: string
+  ];
+  export interface OutputObject {
+    requestId: bigint;
+    targetShapeId: bigint;
+    requester: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionFulfilledEvent {
+  export type InputTuple = [requestID: BigNumberish];
+  export type OutputTuple = [requestID: bigint];
+  export interface OutputObject {
+    requestID: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionRequestedEvent {
+  export type InputTuple = [resultHash: BytesLike, requestId: BigNumberish];
+  export type OutputTuple = [resultHash: string, requestId: bigint];
+  export interface OutputObject {
+    resultHash: string;
+    requestId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace IntersectionComputedEvent {
+  export type InputTuple = [resultHash: BytesLike];
+  export type OutputTuple = [resultHash: string];
+  export interface OutputObject {
+    resultHash: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace IntersectionResultStoredEvent {
+  export type InputTuple = [resultHash: BytesLike, writer: AddressLike];
+  export type OutputTuple = [resultHash: string, writer: string];
+  export interface OutputObject {
+    resultHash: string;
+    writer: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OwnershipTransferredEvent {
+  export type InputTuple = [previousOwner: AddressLike, newOwner: AddressLike];
+  export type OutputTuple = [previousOwner: string, newOwner: string];
+  export interface OutputObject {
+    previousOwner: string;
+    newOwner: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace QueryBudgetSetEvent {
+  export type InputTuple = [
+    shapeId: BigNumberish,
+    maxQueries: BigNumberish,
+    maxPerCounterparty: BigNumberish,
+    window: BigNumberish
+  ];
+  export type OutputTuple = [
+    shapeId: bigint,
+    maxQueries: bigint,
+    maxPerCounterparty: bigint,
+    window: bigint
+  ];
+  export interface OutputObject {
+    shapeId: bigint;
+    maxQueries: bigint;
+    maxPerCounterparty: bigint;
+    window: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ResultRevealedEvent {
+  export type InputTuple = [resultHash: BytesLike];
+  export type OutputTuple = [resultHash: string];
+  export interface OutputObject {
+    resultHash: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SessionCancelledEvent {
+  export type InputTuple = [sessionId: BigNumberish, party: AddressLike];
+  export type OutputTuple = [sessionId: bigint, party: string];
+  export interface OutputObject {
+    sessionId: bigint;
+    party: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SessionComputedEvent {
+  export type InputTuple = [sessionId: BigNumberish];
+  export type OutputTuple = [sessionId: bigint];
+  export interface OutputObject {
+    sessionId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SessionCreatedEvent {
+  export type InputTuple = [sessionId: BigNumberish, creator: AddressLike];
+  export type OutputTuple = [sessionId: bigint, creator: string];
+  export interface OutputObject {
+    sessionId: bigint;
+    creator: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SessionJoinedEvent {
+  export type InputTuple = [
+    sessionId: BigNumberish,
+    party: AddressLike,
+    shapeId: BigNumberish
+  ];
+  export type OutputTuple = [sessionId: bigint, party: string, shapeId: bigint];
+  export interface OutputObject {
+    sessionId: bigint;
+    party: string;
+    shapeId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ShapeSubmittedEvent {
+  export type InputTuple = [id: BigNumberish, timestamp: BigNumberish];
+  export type OutputTuple = [id: bigint, timestamp: bigint];
+  export interface OutputObject {
+    id: bigint;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace WitnessVerifiedEvent {
+  export type InputTuple = [
+    shapeId: BigNumberish,
+    verifier: AddressLike,
+    inside: BytesLike
+  ];
+  export type OutputTuple = [shapeId: bigint, verifier: string, inside: string];
+  export interface OutputObject {
+    shapeId: bigint;
+    verifier: string;
+    inside: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface GeometricWitness extends BaseContract {
+  connect(runner?: ContractRunner | null): GeometricWitness;
+  waitForDeployment(): Promise<this>;
+
+  interface: GeometricWitnessInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  advanceIntersection: TypedContractMethod<
+    [shapeId1: BigNumberish, shapeId2: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  approvalExpiries: TypedContractMethod<[arg0: BytesLike], [bigint], "view">;
+
+  approveComputation: TypedContractMethod<
+    [requestId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  authorizedComputers: TypedContractMethod<
+    [arg0: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  cancelSession: TypedContractMethod<
+    [sessionId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  computationRequestCount: TypedContractMethod<[], [bigint], "view">;
+
+  computationRequests: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [string, bigint, bigint, bigint, bigint] & {
+        requester: string;
+        shapeId: bigint;
+        targetShapeId: bigint;
+        status: bigint;
+        expiresAt: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  computeIntersection: TypedContractMethod<
+    [
+      shapeId1: BigNumberish,
+      shapeId2: BigNumberish,
+      witnessStrategy: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  coordinateOffset: TypedContractMethod<[], [bigint], "view">;
+
+  coordinateScale: TypedContractMethod<[], [bigint], "view">;
+
+  createSession: TypedContractMethod<
+    [parties: AddressLike[]],
+    [bigint],
+    "nonpayable"
+  >;
+
+  decryptIntersectionResult: TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  decryptedResults: TypedContractMethod<
+    [arg0: BytesLike],
+    [[boolean, boolean] & { hasIntersection: boolean; isRevealed: boolean }],
+    "view"
+  >;
+
+  encryptedShapes: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, bigint, bigint, string] & {
+        id: bigint;
+        shapeType: bigint;
+        timestamp: bigint;
+        owner: string;
+      }
+    ],
+    "view"
+  >;
+
+  getCoordinateEncoding: TypedContractMethod<
+    [],
+    [[bigint, bigint] & { offset: bigint; scale: bigint }],
+    "view"
+  >;
+
+  getDecryptedIntersectionResult: TypedContractMethod<
+    [shapeId1: BigNumberish, shapeId2: BigNumberish],
+    [
+      [boolean, bigint[], boolean] & {
+        hasIntersection: boolean;
+        witnessPoint: bigint[];
+        isRevealed: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  getEncryptedIntersectionResult: TypedContractMethod<
+    [shapeId1: BigNumberish, shapeId2: BigNumberish],
+    [[string, string[]] & { hasIntersection: string; witnessPoint: string[] }],
+    "view"
+  >;
+
+  getEncryptedShape: TypedContractMethod<
+    [shapeId: BigNumberish],
+    [[string[], bigint] & { parameters: string[]; shapeType: bigint }],
+    "view"
+  >;
+
+  getIntersectionProgress: TypedContractMethod<
+    [shapeId1: BigNumberish, shapeId2: BigNumberish],
+    [[bigint, bigint] & { done: bigint; total: bigint }],
+    "view"
+  >;
+
+  getRemainingQueries: TypedContractMethod<
+    [shapeId: BigNumberish, counterparty: AddressLike],
+    [
+      [bigint, bigint, bigint] & {
+        remaining: bigint;
+        remainingForCounterparty: bigint;
+        windowEnd: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  getSession: TypedContractMethod<
+    [sessionId: BigNumberish],
+    [
+      [string[], bigint[], boolean, boolean] & {
+        parties: string[];
+        shapeIds: bigint[];
+        isComputed: boolean;
+        isCancelled: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  getSessionResult: TypedContractMethod<
+    [sessionId: BigNumberish],
+    [[string, string[]] & { hasCommonPoint: string; witnessPoint: string[] }],
+    "view"
+  >;
+
+  getShapeTypes: TypedContractMethod<
+    [],
+    [
+      [bigint[], bigint[], bigint[]] & {
+        types: bigint[];
+        minParameterCounts: bigint[];
+        maxParameterCounts: bigint[];
+      }
+    ],
+    "view"
+  >;
+
+  getShapesByOwner: TypedContractMethod<
+    [account: AddressLike],
+    [bigint[]],
+    "view"
+  >;
+
+  getWitnessStrategy: TypedContractMethod<
+    [shapeId1: BigNumberish, shapeId2: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  intersectionResults: TypedContractMethod<
+    [arg0: BytesLike],
+    [
+      [string, boolean, bigint] & {
+        hasIntersection: string;
+        isComputed: boolean;
+        witnessStrategy: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  joinSession: TypedContractMethod<
+    [sessionId: BigNumberish, shapeId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  maxPolygonVertices: TypedContractMethod<[], [bigint], "view">;
+
+  owner: TypedContractMethod<[], [string], "view">;
+
+  ownerOf: TypedContractMethod<[shapeId: BigNumberish], [string], "view">;
+
+  pairKey: TypedContractMethod<
+    [shapeId1: BigNumberish, shapeId2: BigNumberish],
+    [string],
+    "view"
+  >;
+
+  protocolId: TypedContractMethod<[], [bigint], "view">;
+
+  queryBudgets: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, bigint, bigint] & {
+        maxQueries: bigint;
+        maxPerCounterparty: bigint;
+        window: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  rejectComputation: TypedContractMethod<
+    [requestId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  requestComputation: TypedContractMethod<
+    [shapeId: BigNumberish, targetShapeId: BigNumberish],
+    [bigint],
+    "nonpayable"
+  >;
+
+  requestResultDecryption: TypedContractMethod<
+    [shapeId1: BigNumberish, shapeId2: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  requestVerification: TypedContractMethod<
+    [targetShapeId: BigNumberish],
+    [bigint],
+    "nonpayable"
+  >;
+
+  sessionCount: TypedContractMethod<[], [bigint], "view">;
+
+  setAuthorizedComputer: TypedContractMethod<
+    [computer: AddressLike, authorized: boolean],
+    [void],
+    "nonpayable"
+  >;
+
+  setQueryBudget: TypedContractMethod<
+    [
+      shapeId: BigNumberish,
+      maxQueries: BigNumberish,
+      maxPerCounterparty: BigNumberish,
+      window: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  shapeCount: TypedContractMethod<[], [bigint], "view">;
+
+  storeIntersectionResult: TypedContractMethod<
+    [
+      shapeId1: BigNumberish,
+      shapeId2: BigNumberish,
+      hasIntersection: BytesLike,
+      witnessPoint: BytesLike[]
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  submitEncryptedShape: TypedContractMethod<
+    [inputs: BytesLike[], inputProof: BytesLike, shapeType: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  transferOwnership: TypedContractMethod<
+    [newOwner: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  verificationExpiries: TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  verifyWitness: TypedContractMethod<
+    [shapeId: BigNumberish, point: BytesLike[], inputProof: BytesLike],
+    [string],
+    "nonpayable"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "advanceIntersection"
+  ): TypedContractMethod<
+    [shapeId1: BigNumberish, shapeId2: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "approvalExpiries"
+  ): TypedContractMethod<[arg0: BytesLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "approveComputation"
+  ): TypedContractMethod<[requestId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "authorizedComputers"
+  ): TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "cancelSession"
+  ): TypedContractMethod<[sessionId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "computationRequestCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "computationRequests"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [string, bigint, bigint, bigint, bigint] & {
+        requester: string;
+        shapeId: bigint;
+        targetShapeId: bigint;
+        status: bigint;
+        expiresAt: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "computeIntersection"
+  ): TypedContractMethod<
+    [
+      shapeId1: BigNumberish,
+      shapeId2: BigNumberish,
+      witnessStrategy: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "coordinateOffset"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "coordinateScale"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "createSession"
+  ): TypedContractMethod<[parties: AddressLike[]], [bigint], "nonpayable">;
+  getFunction(
+    nameOrSignature: "decryptIntersectionResult"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "decryptedResults"
+  ): TypedContractMethod<
+    [arg0: BytesLike],
+    [[boolean, boolean] & { hasIntersection: boolean; isRevealed: boolean }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "encryptedShapes"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, bigint, bigint, string] & {
+        id: bigint;
+        shapeType: bigint;
+        timestamp: bigint;
+        owner: string;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getCoordinateEncoding"
+  ): TypedContractMethod<
+    [],
+    [[bigint, bigint] & { offset: bigint; scale: bigint }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getDecryptedIntersectionResult"
+  ): TypedContractMethod<
+    [shapeId1: BigNumberish, shapeId2: BigNumberish],
+    [
+      [boolean, bigint[], boolean] & {
+        hasIntersection: boolean;
+        witnessPoint: bigint[];
+        isRevealed: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getEncryptedIntersectionResult"
+  ): TypedContractMethod<
+    [shapeId1: BigNumberish, shapeId2: BigNumberish],
+    [[string, string[]] & { hasIntersection: string; witnessPoint: string[] }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getEncryptedShape"
+  ): TypedContractMethod<
+    [shapeId: BigNumberish],
+    [[string[], bigint] & { parameters: string[]; shapeType: bigint }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getIntersectionProgress"
+  ): TypedContractMethod<
+    [shapeId1: BigNumberish, shapeId2: BigNumberish],
+    [[bigint, bigint] & { done: bigint; total: bigint }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getRemainingQueries"
+  ): TypedContractMethod<
+    [shapeId: BigNumberish, counterparty: AddressLike],
+    [
+      [bigint, bigint, bigint] & {
+        remaining: bigint;
+        remainingForCounterparty: bigint;
+        windowEnd: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getSession"
+  ): TypedContractMethod<
+    [sessionId: BigNumberish],
+    [
+      [string[], bigint[], boolean, boolean] & {
+        parties: string[];
+        shapeIds: bigint[];
+        isComputed: boolean;
+        isCancelled: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getSessionResult"
+  ): TypedContractMethod<
+    [sessionId: BigNumberish],
+    [[string, string[]] & { hasCommonPoint: string; witnessPoint: string[] }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getShapeTypes"
+  ): TypedContractMethod<
+    [],
+    [
+      [bigint[], bigint[], bigint[]] & {
+        types: bigint[];
+        minParameterCounts: bigint[];
+        maxParameterCounts: bigint[];
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getShapesByOwner"
+  ): TypedContractMethod<[account: AddressLike], [bigint[]], "view">;
+  getFunction(
+    nameOrSignature: "getWitnessStrategy"
+  ): TypedContractMethod<
+    [shapeId1: BigNumberish, shapeId2: BigNumberish],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "intersectionResults"
+  ): TypedContractMethod<
+    [arg0: BytesLike],
+    [
+      [string, boolean, bigint] & {
+        hasIntersection: string;
+        isComputed: boolean;
+        witnessStrategy: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "joinSession"
+  ): TypedContractMethod<
+    [sessionId: BigNumberish, shapeId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "maxPolygonVertices"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "owner"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "ownerOf"
+  ): TypedContractMethod<[shapeId: BigNumberish], [string], "view">;
+  getFunction(
+    nameOrSignature: "pairKey"
+  ): TypedContractMethod<
+    [shapeId1: BigNumberish, shapeId2: BigNumberish],
+    [string],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "protocolId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "queryBudgets"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, bigint, bigint] & {
+        maxQueries: bigint;
+        maxPerCounterparty: bigint;
+        window: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "rejectComputation"
+  ): TypedContractMethod<[requestId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "requestComputation"
+  ): TypedContractMethod<
+    [shapeId: BigNumberish, targetShapeId: BigNumberish],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "requestResultDecryption"
+  ): TypedContractMethod<
+    [shapeId1: BigNumberish, shapeId2: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "requestVerification"
+  ): TypedContractMethod<[targetShapeId: BigNumberish], [bigint], "nonpayable">;
+  getFunction(
+    nameOrSignature: "sessionCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "setAuthorizedComputer"
+  ): TypedContractMethod<
+    [computer: AddressLike, authorized: boolean],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setQueryBudget"
+  ): TypedContractMethod<
+    [
+      shapeId: BigNumberish,
+      maxQueries: BigNumberish,
+      maxPerCounterparty: BigNumberish,
+      window: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "shapeCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "storeIntersectionResult"
+  ): TypedContractMethod<
+    [
+      shapeId1: BigNumberish,
+      shapeId2: BigNumberish,
+      hasIntersection: BytesLike,
+      witnessPoint: BytesLike[]
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "submitEncryptedShape"
+  ): TypedContractMethod<
+    [inputs: BytesLike[], inputProof: BytesLike, shapeType: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "transferOwnership"
+  ): TypedContractMethod<[newOwner: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "verificationExpiries"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "verifyWitness"
+  ): TypedContractMethod<
+    [shapeId: BigNumberish, point: BytesLike[], inputProof: BytesLike],
+    [string],
+    "nonpayable"
+  >;
+
+  getEvent(
+    key: "AuthorizedComputerSet"
+  ): TypedContractEvent<
+    AuthorizedComputerSetEvent.InputTuple,
+    AuthorizedComputerSetEvent.OutputTuple,
+    AuthorizedComputerSetEvent.OutputObject
+  >;
+  getEvent(
+    key: "ComputationApproved"
+  ): TypedContractEvent<
+    ComputationApprovedEvent.InputTuple,
+    ComputationApprovedEvent.OutputTuple,
+    ComputationApprovedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ComputationRejected"
+  ): TypedContractEvent<
+    ComputationRejectedEvent.InputTuple,
+    ComputationRejectedEvent.OutputTuple,
+    ComputationRejectedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ComputationRequested"
+  ): TypedContractEvent<
+    ComputationRequestedEvent.InputTuple,
+    ComputationRequestedEvent.OutputTuple,
+    ComputationRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionFulfilled"
+  ): TypedContractEvent<
+    DecryptionFulfilledEvent.InputTuple,
+    DecryptionFulfilledEvent.OutputTuple,
+    DecryptionFulfilledEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionRequested"
+  ): TypedContractEvent<
+    DecryptionRequestedEvent.InputTuple,
+    DecryptionRequestedEvent.OutputTuple,
+    DecryptionRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "IntersectionComputed"
+  ): TypedContractEvent<
+    IntersectionComputedEvent.InputTuple,
+    IntersectionComputedEvent.OutputTuple,
+    IntersectionComputedEvent.OutputObject
+  >;
+  getEvent(
+    key: "IntersectionResultStored"
+  ): TypedContractEvent<
+    IntersectionResultStoredEvent.InputTuple,
+    IntersectionResultStoredEvent.OutputTuple,
+    IntersectionResultStoredEvent.OutputObject
+  >;
+  getEvent(
+    key: "OwnershipTransferred"
+  ): TypedContractEvent<
+    OwnershipTransferredEvent.InputTuple,
+    OwnershipTransferredEvent.OutputTuple,
+    OwnershipTransferredEvent.OutputObject
+  >;
+  getEvent(
+    key: "QueryBudgetSet"
+  ): TypedContractEvent<
+    QueryBudgetSetEvent.InputTuple,
+    QueryBudgetSetEvent.OutputTuple,
+    QueryBudgetSetEvent.OutputObject
+  >;
+  getEvent(
+    key: "ResultRevealed"
+  ): TypedContractEvent<
+    ResultRevealedEvent.InputTuple,
+    ResultRevealedEvent.OutputTuple,
+    ResultRevealedEvent.OutputObject
+  >;
+  getEvent(
+    key: "SessionCancelled"
+  ): TypedContractEvent<
+    SessionCancelledEvent.InputTuple,
+    SessionCancelledEvent.OutputTuple,
+    SessionCancelledEvent.OutputObject
+  >;
+  getEvent(
+    key: "SessionComputed"
+  ): TypedContractEvent<
+    SessionComputedEvent.InputTuple,
+    SessionComputedEvent.OutputTuple,
+    SessionComputedEvent.OutputObject
+  >;
+  getEvent(
+    key: "SessionCreated"
+  ): TypedContractEvent<
+    SessionCreatedEvent.InputTuple,
+    SessionCreatedEvent.OutputTuple,
+    SessionCreatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "SessionJoined"
+  ): TypedContractEvent<
+    SessionJoinedEvent.InputTuple,
+    SessionJoinedEvent.OutputTuple,
+    SessionJoinedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ShapeSubmitted"
+  ): TypedContractEvent<
+    ShapeSubmittedEvent.InputTuple,
+    ShapeSubmittedEvent.OutputTuple,
+    ShapeSubmittedEvent.OutputObject
+  >;
+  getEvent(
+    key: "WitnessVerified"
+  ): TypedContractEvent<
+    WitnessVerifiedEvent.InputTuple,
+    WitnessVerifiedEvent.OutputTuple,
+    WitnessVerifiedEvent.OutputObject
+  >;
+
+  filters: {
+    "AuthorizedComputerSet(address,bool)": TypedContractEvent<
+      AuthorizedComputerSetEvent.InputTuple,
+      AuthorizedComputerSetEvent.OutputTuple,
+      AuthorizedComputerSetEvent.OutputObject
+    >;
+    AuthorizedComputerSet: TypedContractEvent<
+      AuthorizedComputerSetEvent.InputTuple,
+      AuthorizedComputerSetEvent.OutputTuple,
+      AuthorizedComputerSetEvent.OutputObject
+    >;
+
+    "ComputationApproved(uint256,uint64)": TypedContractEvent<
+      ComputationApprovedEvent.InputTuple,
+      ComputationApprovedEvent.OutputTuple,
+      ComputationApprovedEvent.OutputObject
+    >;
+    ComputationApproved: TypedContractEvent<
+      ComputationApprovedEvent.InputTuple,
+      ComputationApprovedEvent.OutputTuple,
+      ComputationApprovedEvent.OutputObject
+    >;
+
+    "ComputationRejected(uint256)": TypedContractEvent<
+      ComputationRejectedEvent.InputTuple,
+      ComputationRejectedEvent.OutputTuple,
+      ComputationRejectedEvent.OutputObject
+    >;
+    ComputationRejected: TypedContractEvent<
+      ComputationRejectedEvent.InputTuple,
+      ComputationRejectedEvent.OutputTuple,
+      ComputationRejectedEvent.OutputObject
+    >;
+
+    "ComputationRequested(uint256,uint256,address)": TypedContractEvent<
+      ComputationRequestedEvent.InputTuple,
+      ComputationRequestedEvent.OutputTuple,
+      ComputationRequestedEvent.OutputObject
+    >;
+    ComputationRequested: TypedContractEvent<
+      ComputationRequestedEvent.InputTuple,
+      ComputationRequestedEvent.OutputTuple,
+      ComputationRequestedEvent.OutputObject
+    >;
+
+    "DecryptionFulfilled(uint256)": TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+    DecryptionFulfilled: TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+
+    "DecryptionRequested(bytes32,uint256)": TypedContractEvent<
+      DecryptionRequestedEvent.InputTuple,
+      DecryptionRequestedEvent.OutputTuple,
+      DecryptionRequestedEvent.OutputObject
+    >;
+    DecryptionRequested: TypedContractEvent<
+      DecryptionRequestedEvent.InputTuple,
+      DecryptionRequestedEvent.OutputTuple,
+      DecryptionRequestedEvent.OutputObject
+    >;
+
+    "IntersectionComputed(bytes32)": TypedContractEvent<
+      IntersectionComputedEvent.InputTuple,
+      IntersectionComputedEvent.OutputTuple,
+      IntersectionComputedEvent.OutputObject
+    >;
+    IntersectionComputed: TypedContractEvent<
+      IntersectionComputedEvent.InputTuple,
+      IntersectionComputedEvent.OutputTuple,
+      IntersectionComputedEvent.OutputObject
+    >;
+
+    "IntersectionResultStored(bytes32,address)": TypedContractEvent<
+      IntersectionResultStoredEvent.InputTuple,
+      IntersectionResultStoredEvent.OutputTuple,
+      IntersectionResultStoredEvent.OutputObject
+    >;
+    IntersectionResultStored: TypedContractEvent<
+      IntersectionResultStoredEvent.InputTuple,
+      IntersectionResultStoredEvent.OutputTuple,
+      IntersectionResultStoredEvent.OutputObject
+    >;
+
+    "OwnershipTransferred(address,address)": TypedContractEvent<
+      OwnershipTransferredEvent.InputTuple,
+      OwnershipTransferredEvent.OutputTuple,
+      OwnershipTransferredEvent.OutputObject
+    >;
+    OwnershipTransferred: TypedContractEvent<
+      OwnershipTransferredEvent.InputTuple,
+      OwnershipTransferredEvent.OutputTuple,
+      OwnershipTransferredEvent.OutputObject
+    >;
+
+    "QueryBudgetSet(uint256,uint32,uint32,uint64)": TypedContractEvent<
+      QueryBudgetSetEvent.InputTuple,
+      QueryBudgetSetEvent.OutputTuple,
+      QueryBudgetSetEvent.OutputObject
+    >;
+    QueryBudgetSet: TypedContractEvent<
+      QueryBudgetSetEvent.InputTuple,
+      QueryBudgetSetEvent.OutputTuple,
+      QueryBudgetSetEvent.OutputObject
+    >;
+
+    "ResultRevealed(bytes32)": TypedContractEvent<
+      ResultRevealedEvent.InputTuple,
+      ResultRevealedEvent.OutputTuple,
+      ResultRevealedEvent.OutputObject
+    >;
+    ResultRevealed: TypedContractEvent<
+      ResultRevealedEvent.InputTuple,
+      ResultRevealedEvent.OutputTuple,
+      ResultRevealedEvent.OutputObject
+    >;
+
+    "SessionCancelled(uint256,address)": TypedContractEvent<
+      SessionCancelledEvent.InputTuple,
+      SessionCancelledEvent.OutputTuple,
+      SessionCancelledEvent.OutputObject
+    >;
+    SessionCancelled: TypedContractEvent<
+      SessionCancelledEvent.InputTuple,
+      SessionCancelledEvent.OutputTuple,
+      SessionCancelledEvent.OutputObject
+    >;
+
+    "SessionComputed(uint256)": TypedContractEvent<
+      SessionComputedEvent.InputTuple,
+      SessionComputedEvent.OutputTuple,
+      SessionComputedEvent.OutputObject
+    >;
+    SessionComputed: TypedContractEvent<
+      SessionComputedEvent.InputTuple,
+      SessionComputedEvent.OutputTuple,
+      SessionComputedEvent.OutputObject
+    >;
+
+    "SessionCreated(uint256,address)": TypedContractEvent<
+      SessionCreatedEvent.InputTuple,
+      SessionCreatedEvent.OutputTuple,
+      SessionCreatedEvent.OutputObject
+    >;
+    SessionCreated: TypedContractEvent<
+      SessionCreatedEvent.InputTuple,
+      SessionCreatedEvent.OutputTuple,
+      SessionCreatedEvent.OutputObject
+    >;
+
+    "SessionJoined(uint256,address,uint256)": TypedContractEvent<
+      SessionJoinedEvent.InputTuple,
+      SessionJoinedEvent.OutputTuple,
+      SessionJoinedEvent.OutputObject
+    >;
+    SessionJoined: TypedContractEvent<
+      SessionJoinedEvent.InputTuple,
+      SessionJoinedEvent.OutputTuple,
+      SessionJoinedEvent.OutputObject
+    >;
+
+    "ShapeSubmitted(uint256,uint256)": TypedContractEvent<
+      ShapeSubmittedEvent.InputTuple,
+      ShapeSubmittedEvent.OutputTuple,
+      ShapeSubmittedEvent.OutputObject
+    >;
+    ShapeSubmitted: TypedContractEvent<
+      ShapeSubmittedEvent.InputTuple,
+      ShapeSubmittedEvent.OutputTuple,
+      ShapeSubmittedEvent.OutputObject
+    >;
+
+    "WitnessVerified(uint256,address,bytes32)": TypedContractEvent<
+      WitnessVerifiedEvent.InputTuple,
+      WitnessVerifiedEvent.OutputTuple,
+      WitnessVerifiedEvent.OutputObject
+    >;
+    WitnessVerified: TypedContractEvent<
+      WitnessVerifiedEvent.InputTuple,
+      WitnessVerifiedEvent.OutputTuple,
+      WitnessVerifiedEvent.OutputObject
+    >;
+  };
+}
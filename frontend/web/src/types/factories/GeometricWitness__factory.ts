@@ -0,0 +1,1513 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type {
+  Signer,
+  BigNumberish,
+  ContractDeployTransaction,
+  ContractRunner,
+} from "ethers";
+import type { NonPayableOverrides } from "../common";
+import type {
+  GeometricWitness,
+  GeometricWitnessInterface,
+} from "../GeometricWitness";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "uint32",
+        name: "offset",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "scale",
+        type: "uint32",
+      },
+      {
+        internalType: "uint8",
+        name: "maxVertices",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [],
+    name: "HandlesAlreadySavedForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidKMSSignatures",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint8",
+        name: "shapeType",
+        type: "uint8",
+      },
+      {
+        internalType: "uint256",
+        name: "count",
+        type: "uint256",
+      },
+    ],
+    name: "InvalidParameterCount",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NoHandleFoundForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint8",
+        name: "shapeType",
+        type: "uint8",
+      },
+    ],
+    name: "UnsupportedShapeType",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "computer",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "authorized",
+        type: "bool",
+      },
+    ],
+    name: "AuthorizedComputerSet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint64",
+        name: "expiresAt",
+        type: "uint64",
+      },
+    ],
+    name: "ComputationApproved",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    name: "ComputationRejected",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "targetShapeId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "requester",
+        type: "address",
+      },
+    ],
+    name: "ComputationRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestID",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionFulfilled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "resultHash",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "resultHash",
+        type: "bytes32",
+      },
+    ],
+    name: "IntersectionComputed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "resultHash",
+        type: "bytes32",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "writer",
+        type: "address",
+      },
+    ],
+    name: "IntersectionResultStored",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "previousOwner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "OwnershipTransferred",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "shapeId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "maxQueries",
+        type: "uint32",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "maxPerCounterparty",
+        type: "uint32",
+      },
+      {
+        indexed: false,
+        internalType: "uint64",
+        name: "window",
+        type: "uint64",
+      },
+    ],
+    name: "QueryBudgetSet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "resultHash",
+        type: "bytes32",
+      },
+    ],
+    name: "ResultRevealed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "sessionId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "party",
+        type: "address",
+      },
+    ],
+    name: "SessionCancelled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "sessionId",
+        type: "uint256",
+      },
+    ],
+    name: "SessionComputed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "sessionId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "creator",
+        type: "address",
+      },
+    ],
+    name: "SessionCreated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "sessionId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "party",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "shapeId",
+        type: "uint256",
+      },
+    ],
+    name: "SessionJoined",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "ShapeSubmitted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "shapeId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "verifier",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "ebool",
+        name: "inside",
+        type: "bytes32",
+      },
+    ],
+    name: "WitnessVerified",
+    type: "event",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "shapeId1",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "shapeId2",
+        type: "uint256",
+      },
+    ],
+    name: "advanceIntersection",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    name: "approvalExpiries",
+    outputs: [
+      {
+        internalType: "uint64",
+        name: "",
+        type: "uint64",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    name: "approveComputation",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "authorizedComputers",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "sessionId",
+        type: "uint256",
+      },
+    ],
+    name: "cancelSession",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "computationRequestCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "computationRequests",
+    outputs: [
+      {
+        internalType: "address",
+        name: "requester",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "shapeId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "targetShapeId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint8",
+        name: "status",
+        type: "uint8",
+      },
+      {
+        internalType: "uint64",
+        name: "expiresAt",
+        type: "uint64",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "shapeId1",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "shapeId2",
+        type: "uint256",
+      },
+      {
+        internalType: "uint8",
+        name: "witnessStrategy",
+        type: "uint8",
+      },
+    ],
+    name: "computeIntersection",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "coordinateOffset",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "coordinateScale",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address[]",
+        name: "parties",
+        type: "address[]",
+      },
+    ],
+    name: "createSession",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "sessionId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "decryptIntersectionResult",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    name: "decryptedResults",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "hasIntersection",
+        type: "bool",
+      },
+      {
+        internalType: "bool",
+        name: "isRevealed",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "encryptedShapes",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        internalType: "uint8",
+        name: "shapeType",
+        type: "uint8",
+      },
+      {
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getCoordinateEncoding",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "offset",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "scale",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "shapeId1",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "shapeId2",
+        type: "uint256",
+      },
+    ],
+    name: "getDecryptedIntersectionResult",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "hasIntersection",
+        type: "bool",
+      },
+      {
+        internalType: "uint32[]",
+        name: "witnessPoint",
+        type: "uint32[]",
+      },
+      {
+        internalType: "bool",
+        name: "isRevealed",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "shapeId1",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "shapeId2",
+        type: "uint256",
+      },
+    ],
+    name: "getEncryptedIntersectionResult",
+    outputs: [
+      {
+        internalType: "ebool",
+        name: "hasIntersection",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32[]",
+        name: "witnessPoint",
+        type: "bytes32[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "shapeId",
+        type: "uint256",
+      },
+    ],
+    name: "getEncryptedShape",
+    outputs: [
+      {
+        internalType: "euint32[]",
+        name: "parameters",
+        type: "bytes32[]",
+      },
+      {
+        internalType: "uint8",
+        name: "shapeType",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "shapeId1",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "shapeId2",
+        type: "uint256",
+      },
+    ],
+    name: "getIntersectionProgress",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "done",
+        type: "uint8",
+      },
+      {
+        internalType: "uint8",
+        name: "total",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "shapeId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "counterparty",
+        type: "address",
+      },
+    ],
+    name: "getRemainingQueries",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "remaining",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "remainingForCounterparty",
+        type: "uint32",
+      },
+      {
+        internalType: "uint64",
+        name: "windowEnd",
+        type: "uint64",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "sessionId",
+        type: "uint256",
+      },
+    ],
+    name: "getSession",
+    outputs: [
+      {
+        internalType: "address[]",
+        name: "parties",
+        type: "address[]",
+      },
+      {
+        internalType: "uint256[]",
+        name: "shapeIds",
+        type: "uint256[]",
+      },
+      {
+        internalType: "bool",
+        name: "isComputed",
+        type: "bool",
+      },
+      {
+        internalType: "bool",
+        name: "isCancelled",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "sessionId",
+        type: "uint256",
+      },
+    ],
+    name: "getSessionResult",
+    outputs: [
+      {
+        internalType: "ebool",
+        name: "hasCommonPoint",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32[]",
+        name: "witnessPoint",
+        type: "bytes32[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getShapeTypes",
+    outputs: [
+      {
+        internalType: "uint8[]",
+        name: "types",
+        type: "uint8[]",
+      },
+      {
+        internalType: "uint8[]",
+        name: "minParameterCounts",
+        type: "uint8[]",
+      },
+      {
+        internalType: "uint8[]",
+        name: "maxParameterCounts",
+        type: "uint8[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "getShapesByOwner",
+    outputs: [
+      {
+        internalType: "uint256[]",
+        name: "",
+        type: "uint256[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "shapeId1",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "shapeId2",
+        type: "uint256",
+      },
+    ],
+    name: "getWitnessStrategy",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    name: "intersectionResults",
+    outputs: [
+      {
+        internalType: "ebool",
+        name: "hasIntersection",
+        type: "bytes32",
+      },
+      {
+        internalType: "bool",
+        name: "isComputed",
+        type: "bool",
+      },
+      {
+        internalType: "uint8",
+        name: "witnessStrategy",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "sessionId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "shapeId",
+        type: "uint256",
+      },
+    ],
+    name: "joinSession",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "maxPolygonVertices",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "owner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "shapeId",
+        type: "uint256",
+      },
+    ],
+    name: "ownerOf",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "shapeId1",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "shapeId2",
+        type: "uint256",
+      },
+    ],
+    name: "pairKey",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "protocolId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "queryBudgets",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "maxQueries",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "maxPerCounterparty",
+        type: "uint32",
+      },
+      {
+        internalType: "uint64",
+        name: "window",
+        type: "uint64",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    name: "rejectComputation",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "shapeId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "targetShapeId",
+        type: "uint256",
+      },
+    ],
+    name: "requestComputation",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "shapeId1",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "shapeId2",
+        type: "uint256",
+      },
+    ],
+    name: "requestResultDecryption",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "targetShapeId",
+        type: "uint256",
+      },
+    ],
+    name: "requestVerification",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "sessionCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "computer",
+        type: "address",
+      },
+      {
+        internalType: "bool",
+        name: "authorized",
+        type: "bool",
+      },
+    ],
+    name: "setAuthorizedComputer",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "shapeId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint32",
+        name: "maxQueries",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "maxPerCounterparty",
+        type: "uint32",
+      },
+      {
+        internalType: "uint64",
+        name: "window",
+        type: "uint64",
+      },
+    ],
+    name: "setQueryBudget",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "shapeCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "shapeId1",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "shapeId2",
+        type: "uint256",
+      },
+      {
+        internalType: "ebool",
+        name: "hasIntersection",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32[]",
+        name: "witnessPoint",
+        type: "bytes32[]",
+      },
+    ],
+    name: "storeIntersectionResult",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "externalEuint32[]",
+        name: "inputs",
+        type: "bytes32[]",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+      {
+        internalType: "uint8",
+        name: "shapeType",
+        type: "uint8",
+      },
+    ],
+    name: "submitEncryptedShape",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "transferOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "verificationExpiries",
+    outputs: [
+      {
+        internalType: "uint64",
+        name: "",
+        type: "uint64",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "shapeId",
+        type: "uint256",
+      },
+      {
+        internalType: "externalEuint32[]",
+        name: "point",
+        type: "bytes32[]",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "verifyWitness",
+    outputs: [
+      {
+        internalType: "ebool",
+        name: "inside",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x60e0346200061557601f620062e738819003918201601f191683019291906001600160401b03841183851017620005875781606092849260409687528339810103126200061557620000518162000659565b906020836200006282840162000659565b9201519160ff908184169081850362000615575f60606200008262000619565b8281528287820152828a82015201526200009b62000619565b9560607350157cffd6bbfa2dece204a89ec419c23ef5755d9788815273cd3ab3bd6bcc0c0bf3e27912a92043e817b1cf69808883015273a02cda4ca3a71d7c46997716f4283aa851c2881291828c820152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac938491015260018060a01b0319997f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700908b8254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649701908a8254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970290898254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649703908882541617905563ffffffff821615620005e157600392838110159081620005d4575b50156200059b5760805260a0528360c052600891825490680100000000000000008083101562000587576001928381018087558110156200057357855f52865f208160051c01908360f8835492881b161b191690556200022e62000639565b936002855286850193600285525f805260098852838b5f209651169580549661ff008097518a1b169061ffff198099161717905586548381101562000587578181018089558110156200057357875f52885f208160051c019060f8825491851b16908684831b921b1916179055620002a562000639565b828152888101838152825f5260098a52858d5f209251168888845493518c1b1692161717905586548381101562000587578181018089558110156200057357875f52885f208160051c019060f8825491851b1690866002831b921b19161790556200030f62000639565b986004998a81528c868b8301918d835260025f5260098d525f209251168989845493518d1b16921617179055811b6101fe60fe82169116810362000560578754848110156200054d57828101808a558110156200053a57885f52895f208160051c019060f8825491861b16908786831b921b19161790556200039062000639565b9060068252898201908152835f5260098a52858d5f209251168888845493518c1b1692161717905586548381101562000527578181018089558110156200051457875f52885f208160051c019060f8825491851b1690868c831b921b1916179055620003fb62000639565b8981528881018a81528a5f5260098a52858d5f209251168888845493518c1b1692161717905586549283101562000501578201808755821015620004ee57855f5260f8875f208360051c01928354921b1690836005831b921b19161790556200046362000639565b9586526009858701956010875260055f5252875f209551169285549451901b1692161717905533905f5416175f5551335f7f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e08180a3615c7b90816200066c8239608051818181610296015261040d015260a0518181816102ba0152612dde015260c05181610cf30152f35b603288634e487b7160e01b5f525260245ffd5b604189634e487b7160e01b5f525260245ffd5b60328a634e487b7160e01b5f525260245ffd5b60418a634e487b7160e01b5f525260245ffd5b60328b634e487b7160e01b5f525260245ffd5b60418b634e487b7160e01b5f525260245ffd5b60118a634e487b7160e01b5f525260245ffd5b634e487b7160e01b5f52603260045260245ffd5b634e487b7160e01b5f52604160045260245ffd5b875162461bcd60e51b81526004810186905260126024820152710496e76616c696420766572746578206361760741b6044820152606490fd5b6008915011155f620001cf565b875162461bcd60e51b815260048101869052600d60248201526c496e76616c6964207363616c6560981b6044820152606490fd5b5f80fd5b60405190608082016001600160401b038111838210176200058757604052565b60408051919082016001600160401b038111838210176200058757604052565b519063ffffffff82168203620006155756fe6080806040526004361015610012575f80fd5b5f9060e05f35811c91826308e8b83314612f61575081630910606c14612f255781630c020f0814612e02578163135d3a0614612dc25781631d258d9a14612d585781632b5ee21314612d035781632b6ee343146129f15781633857890e146129a4578163391f7c94146129175781633ab5c83e146128eb578163402ff0db146127f557816348fc2e71146127a45781634e74610714612676578163539a9ae81461263c57816358391e3c1461261f5781635a70a6b5146123fb5781635e57bf1e146123a35781636261c49c14611e305781636352211e14611dea57816364d80941146117535750806369e3056a146116f75780636ebd2fcb146116c457806373cd8336146116a75780637641c0631461164357806377945672146115f75780638c8df96b146114725780638da5cb5b1461144b57806393fbfcf8146112ab57806396b2502114610dcb5780639ce0c1c614610db0578063a0b08d1d14610d6b578063a41afc7c14610d17578063b0e7c54b14610cda578063b2a6aea7146109ac578063b7f3931e14610842578063c87f26ec14610800578063ca18e14d146107c1578063da1f12ab146107a4578063e07f9527146105a8578063e27f937014610493578063ebb10aa614610431578063ebd86152146103f0578063ec3856c014610387578063f2fde38b146102e1578063f4366fd2146102795763f86b8f241461021a575f80fd5b34610276576060366003190112610276576001600160401b036024358181116102725761024b9036906004016131aa565b6044359182116102725761026661026f9236906004016131aa565b90600435613de1565b80f35b8280fd5b80fd5b50346102765780600319360112610276576040805163ffffffff807f00000000000000000000000000000000000000000000000000000000000000001682527f0000000000000000000000000000000000000000000000000000000000000000166020820152f35b5034610276576020366003190112610276576102fb612fa1565b81546001600160a01b03808216926103143385146139dd565b169182156103525782907f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e08580a36001600160a01b03191617815580f35b60405162461bcd60e51b815260206004820152600d60248201526c24b73b30b634b21037bbb732b960991b6044820152606490fd5b503461027657602036600319011261027657604060a0916004358152600f602052206001600160401b03600180841b038254169160018101549060036002820154910154916040519485526020850152604084015260ff8116606084015260081c166080820152f35b5034610276578060031936011261027657602060405163ffffffff7f0000000000000000000000000000000000000000000000000000000000000000168152f35b5034610276576020366003190112610276576040906004358152600d6020522061046160ff600583015416613aef565b610472600460038301549201613b31565b9061048f604051928392835260406020840152604083019061302a565b0390f35b503461027657602036600319011261027657600435808252600d602052604082209081546104c2811515613a61565b600583019081549060ff82161580610599575b6104de90613b7f565b855b81811080610574575b156104fc576104f790613bd1565b6104e0565b86955010156105395761ff00191661010017905533907f6065c5b68ef303a60e270e703f4fb95f8001292f7df8d4dcfacb0620acd9144d8380a380f35b60405162461bcd60e51b81526020600482015260136024820152724e6f7420612073657373696f6e20706172747960681b6044820152606490fd5b5061057f8187613bbc565b905460039190911b1c6001600160a01b03163314156104e9565b50600882901c60ff16156104d5565b5034610276576060366003190112610276576004356001600160401b036024358181116107a0576105dd903690600401612fb7565b9060443583811161079c576105f6903690600401612fe7565b85875260209660038852604081209561061460038801541515613206565b600286036107675760048701546001600160a01b03163303610700575b5061063c33886143e4565b84156106ec57610657610650368486613165565b8535614b99565b94600110156106ec5750610688928761067a6106a3979694610682943691613165565b910135614b99565b90615521565b9061069d600160ff6002840154169201613b31565b91615577565b906106ae308361578c565b6106b8338361578c565b604051908282527fe39bda523f4f782a21c7bc640c6aef541c3fe291951167b043bfee8ca914fce8843393a3604051908152f35b634e487b7160e01b81526032600452602490fd5b8782526011895260408220335f52895260405f2054164211610722575f610631565b60405162461bcd60e51b815260048101899052601960248201527f566572696669636174696f6e206e6f7420617070726f766564000000000000006044820152606490fd5b60405162461bcd60e51b8152600481018a9052600d60248201526c125b9d985b1a59081c1bda5b9d609a1b6044820152606490fd5b8580fd5b8380fd5b503461027657806003193601126102765760206040516127118152f35b50346102765760203660031901126102765760209060ff906040906001600160a01b036107ec612fa1565b168152600184522054166040519015158152f35b5034610276576002604060209261081f61081936613014565b90613d0b565b81526004845220015461083460ff8216613aef565b60ff6040519160081c168152f35b503461027657604061085336613014565b9080845261087860209460038652600460018060a01b039586922001541633146131c8565b815f526003845282600460405f20015416610894811515613206565b331461097257610943906001600160401b036108b1600e54613bd1565b9485600e5560ff60036040516108c6816130ae565b3381528981019586526040810188815260608201965f885260808301955f87528b5f52600f8d5260405f209351166001600160601b0360a01b8454161783555160018301555160028201550193511660ff19845416178355511668ffffffffffffffff0082549160081b169068ffffffffffffffff001916179055565b3390827f68bab84245edc6c3bc886cbbe391cda907b4fe28f221b52eb77eed3a383cf85b5f80a4604051908152f35b60405162461bcd60e51b815260048101859052601260248201527110dbdb9cd95b9d081b9bdd081b995959195960721b6044820152606490fd5b5034610cc0576109bb36613014565b815f939293526109f46020916003835260018060a01b039485600460405f2001541633148015610cc4575b6109ef906131c8565b613d0b565b90815f5260048152610a3360405f20610a1360ff600283015416613aef565b835f5260058352610a2e60ff600260405f2001541615613d55565b615490565b937f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0094855491805f80516020615c4f8339815191525416803b15610cc0575f6040518092637d6e912360e11b8252876004830152818381610a97602482018a6146cc565b03925af18015610cb557610ca2575b507f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497025416803b1561079c57856040518092633263b83b60e01b825285600483015260606024830152818381610afe60648201896146cc565b633e1ae3c960e21b604483015203925af18015610c9757908691610c7f575b508290527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf018084526040862054610c6d578286528352604085209581516001600160401b038111610c5957600160401b8111610c59578754818955808210610c34575b5084830197875284872097875b828110610c22575050507ff4730285bd73aa7e9e4c89570a5f6f3fdf04f76bb2d8942470b4afd5bf2859b894959650610bc68154613bd1565b9055604051610bea81610bdc8682018095613d94565b03601f19810183528261312d565b519020600160405191610bfc83613093565b86835284830190815283885260078552604088209251835551910155604051908152a280f35b81518a82015590860190600101610b8d565b8888528186892091820191015b818110610c4e5750610b80565b5f8155600101610c41565b634e487b7160e01b87526041600452602487fd5b604051633f06d22b60e01b8152600490fd5b610c88906130e4565b610c9357845f610b1d565b8480fd5b6040513d88823e3d90fd5b610cad9196506130e4565b5f945f610aa6565b6040513d5f823e3d90fd5b5f80fd5b505f8281526040902060040154861633146109e6565b34610cc0575f366003190112610cc057602060405160ff7f0000000000000000000000000000000000000000000000000000000000000000168152f35b34610cc0576020366003190112610cc0576004355f9081526012602090815260409182902054825163ffffffff808316825282841c1692810192909252821c6001600160401b031691810191909152606090f35b34610cc0576020366003190112610cc0576004355f526004602052606060405f2060ff600282549201546040519283528181161515602084015260081c166040820152f35b34610cc0576020610dc361081936613014565b604051908152f35b34610cc0576080366003190112610cc0576004356024356064356044356001600160401b038211610cc05736602383011215610cc057816004013591610e108361314e565b92610e1e604051948561312d565b8084526024602085019160051b83010191368311610cc057602401905b82821061129b57505050335f52600160205260ff60405f2054161561126557835f526003602052600360405f200154151580611251575b610e7b90613206565b610e8c610e8782615427565b613cca565b5f5b8251811015610eb65780610eb0610e87610eaa600194876139c9565b51615427565b01610e8e565b5091610ec28185613d0b565b93845f526005602052610edf60ff600260405f2001541615613d55565b5f52600360205260018060a01b0380600460405f20015416915f52600460405f2001541693610f0e308561578c565b610f18828561578c565b610f22858561578c565b5f5b8351811015610f6657600190610f4430610f3e83886139c9565b5161578c565b610f5284610f3e83886139c9565b610f6087610f3e83886139c9565b01610f24565b506040518385610f75836130f7565b8252602082019081526001604083015260026060830152825f52600460205260405f209082518255518051906001600160401b0382116111ff57600160401b82116111ff576001830154826001850155808310611227575b50602001600183015f5260205f205f5b83811061121357866110258760ff606060028a019261100e60408201511515859060ff801983541691151516179055565b0151825461ff001916911660081b61ff0016179055565b6040519061103282613112565b5f8252604051611041816130c9565b5f815260208101928352604081015f8152825f52600560205261107760405f2092511515839060ff801983541691151516179055565b6001820193518051906001600160401b0382116111ff57600160401b82116111ff5760209086548388558084106111b2575b5001945f5260205f208160031c915f5b83811061117057506007198116900380611114575b856110ec8660028751151591019060ff801983541691151516179055565b33907f34daaef32bfe9dfa9f6c743b5f833f26aa14c4e55bd21f896ebbb397d19b9d945f80a3005b955f965f5b8181106111385750505094600292916110ec95960155908493866110ce565b909197602061116660019263ffffffff8c5116908560021b60031b9163ffffffff809116831b921b19161790565b9901929101611119565b5f805b600881106111885750838201556001016110b9565b895190999160019160209163ffffffff60058e901b81811b199092169216901b1792019901611173565b6111e090885f52835f20600780870160031c820192601c8860021b16806111e6575b500160031c0190613c93565b876110a9565b5f1990818601918254918a0360031b1c1690558c6111d4565b634e487b7160e01b5f52604160045260245ffd5b600190602084519401938184015501610fdd565b600184015f5260205f20908382015b8183018110611246575050610fcd565b5f8155600101611236565b505f83815260409020600301541515610e72565b60405162461bcd60e51b815260206004820152600e60248201526d139bdd08185d5d1a1bdc9a5e995960921b6044820152606490fd5b8135815260209182019101610e3b565b34610cc057602080600319360112610cc0576001600160401b03600435818111610cc0576112dd903690600401612fb7565b91600283101580611440575b15611405576112f9600c54613bd1565b9283600c55835f52600d855260405f20928282116111ff57600160401b908183116111ff5761132d83865481885587613ca9565b845f52865f205f915b8483106113e15750505061136261134c8361314e565b9261135a604051948561312d565b80845261314e565b8287019190601f1901368337600180950192519384116111ff5783116111ff5761139183835481855584613ca9565b905f52845f205f5b8381106113d05786866040519033817f6c5e54a4b431f9740a3fe6060098a66514c1429d75fdc49180975faaf85527795f80a38152f35b825182820155918601918401611399565b8035926001600160a01b0384168403610cc057896001920193818401550191611336565b60405162461bcd60e51b8152600481018590526013602482015272125b9d985b1a59081c185c9d1e4818dbdd5b9d606a1b6044820152606490fd5b5060088311156112e9565b34610cc0575f366003190112610cc0575f546040516001600160a01b039091168152602090f35b34610cc0576080366003190112610cc05760043560243563ffffffff80821691828103610cc0576044359180831693848403610cc057606435906001600160401b03821695868303610cc057875f5260036020526114e060018060a01b03600460405f2001541633146131c8565b861580156115ed575b156115b7577fa717b6cf9457ce48d21e9ffdaa9dd754ab06544961854e6a1571b6d1aab114a3966115b29460405193611521856130c9565b84526020840192835260408401918252895f52601260205260405f209351166fffffffffffffffff000000000000000067ffffffff000000008554945160201b16925160401b16926fffffffffffffffffffffffffffffffff19161717179055604051938493849193926001600160401b0390604092606085019663ffffffff809216865216602085015216910152565b0390a2005b60405162461bcd60e51b815260206004820152600e60248201526d125b9d985b1a5908189d5919d95d60921b6044820152606490fd5b50818111156114e9565b34610cc0576020366003190112610cc0576001600160a01b03611618612fa1565b165f52600660205261048f61162f60405f20613aa1565b60405191829160208352602083019061302a565b34610cc0576020366003190112610cc0576004355f52600360205261169d60405f2061167460038201541515613206565b611688600160ff6002840154169201613b31565b9060405192839260408452604084019061302a565b9060208301520390f35b34610cc0575f366003190112610cc0576020600c54604051908152f35b34610cc0576020366003190112610cc0576004355f52601060205260206001600160401b0360405f205416604051908152f35b34610cc05761173a61170836613014565b90805f52600360205261173560018060a01b0380600460405f20015416331490811561173c575b506131c8565b613bf0565b005b9050835f523390600460405f20015416148561172f565b34610cc0575f366003190112610cc0576040519081906008928260085491828152602093848092019060085f527ff3f7a9fe364faab93b216da50a3214154f22a0a2b415b23a84c8169e8b636ee3945f5b81601f820110611c5c57846118bf975493838310611c47575b838310611c2f575b838310611c17575b838310611bff575b838310611be8575b838310611bd0575b838310611bb8575b838310611ba0575b838310611b88575b838310611b70575b838310611b58575b838310611b40575b838310611b28575b838310611b10575b838310611af8575b838310611ae0575b838310611ac8575b838310611ab0575b838310611a98575b838310611a80575b838310611a68575b838310611a50575b838310611a38575b838310611a20575b838310611a08575b8383106119f0575b8383106119d8575b8383106119c0575b8383106119aa575b50828210611994575b82821061197e575b5010611970575b509050038361312d565b6118c98251613966565b6118d38351613966565b915f5b84518110156119345760019060ff806118ef83896139c9565b51165f5260098085528160405f20541661190984886139c9565b5281611915848a6139c9565b51165f52845260405f2054881c1661192d82876139c9565b52016118d6565b6119558561048f86611962868860405196879660608852606088019061305d565b918683039087015261305d565b90838203604085015261305d565b60f81c8152018390876118b5565b6001919460ff8560f01c168152019301846118ae565b6001919460ff8560e81c168152019301846118a6565b9460ff85600194971c168152019301848b61189d565b91948160019160ff8760d81c16815201950191611895565b91948160019160ff8760d01c1681520195019161188d565b91948160019160ff8760c81c16815201950191611885565b91948160019160ff8760c01c1681520195019161187d565b91948160019160ff8760b81c16815201950191611875565b91948160019160ff8760b01c1681520195019161186d565b91948160019160ff8760a81c16815201950191611865565b91948160019160ff8760a01c1681520195019161185d565b91948160019160ff8760981c16815201950191611855565b91948160019160ff8760901c1681520195019161184d565b91948160019160ff8760881c16815201950191611845565b91948160019160ff8760801c1681520195019161183d565b91948160019160ff8760781c16815201950191611835565b91948160019160ff8760701c1681520195019161182d565b91948160019160ff8760681c16815201950191611825565b91948160019160ff8760601c1681520195019161181d565b91948160019160ff8760581c16815201950191611815565b91948160019160ff8760501c1681520195019161180d565b91948160019160ff8760481c16815201950191611805565b91948160019160ff8760401c168152019501916117fd565b91948160019160ff8760381c168152019501916117f5565b91948160019160ff8760301c168152019501916117ed565b91948160019160ff8760281c168152019501916117e5565b91948160019160ff87831c168152019501916117dd565b91948160019160ff8760181c168152019501916117d5565b91948160019160ff8760101c168152019501916117cd565b91948160019160ff8760081c168152019501916117c5565b91948160019160ff87168152019501916117bd565b9260019194929550610400908754808c60ff91829182821686521c1686840152808260101c16604084015280828a82828782828d82826060828260181c168188015282826080951c168488015260a096838360281c168882015260c09a848460301c168c830152848460381c1690820152838360401c16610100820152838360481c16610120820152838360501c16610140820152610160848460581c169101521c166101808d0152828260681c166101a08d0152828260701c166101c08d0152828260781c166101e08d01521c166102008a0152828260881c166102208a0152828260901c166102408a0152828260981c166102608a01521c16610280870152828260a81c166102a0870152828260b01c166102c0870152828260b81c166102e08701521c16610300840152808260c81c16610320840152808260d01c16610340840152808260d81c1661036084015280828a1c16610380840152808260e81c166103a08401528160f01c166103c083015260f81c6103e0820152019501910192859287949592956117a4565b34610cc0576020366003190112610cc0576004355f526003602052602060405f20611e1a60038201541515613206565b600401546040516001600160a01b039091168152f35b34610cc057611e3e36613014565b805f526003602052611e6060018060a01b03600460405f2001541633146131c8565b815f52600d60205260405f20611e7881541515613a61565b611e8c60ff600583015460081c1615613b7f565b815f52600360205260ff600260405f20015416600181145f1461236d575060028101805460ff8160081c166123285761ff0019166101001790555b8054915f5b838110806122e7575b15611ee857611ee390613bd1565b611ecc565b84938110156122a257611f18611f02839260018601613bbc565b819391549060031b91821b915f19901b19161790565b9055600282019081549160ff611f2f818516613bdf565b16809360ff1916179055604051908152837f2459477a1522a5419f25610b9064f6b9a95a9b03f5fc3bdc55c9c0baeb7b66ce60203393a3815414611f6f57005b600181015490611f7e82613966565b90611f888361314e565b91611f96604051938461312d565b838352611fa28461314e565b601f19015f5b81811061228f5750505f5b84811061222f575060405192839163d77ed72560e01b8352604483016040600485015281518091526020606485019201905f5b81811061221357505050600319838203016024840152815180825260208201916020808360051b8301019401925f915b8383106121e257505050505090805f92038173__$5e89a520f7bf3a25ac63386fa079836ad6$__5af4918215610cb5575f905f936121bb575b5061205a308261578c565b5f5b835181101561207c5760019061207630610f3e83886139c9565b0161205c565b5090925f5b8181106121425750506003830155600482018151916001600160401b0383116111ff57600160401b83116111ff57815483835580841061211c575b50602001905f5260205f205f5b8381106121085750505050600501805460ff191660011790557fcad4ea6492c4f16b880d5fa1a2d6bd19710eabbd7310e1c6ae5e52179abdde7b5f80a2005b6001906020845194019381840155016120c9565b825f528360205f2091820191015b81811061213757506120bc565b5f815560010161212a565b939161216c6121548685989498613bbc565b905460039190911b1c6001600160a01b03168261578c565b5f5b84518110156121ac57806121a6612187600193886139c9565b516121928988613bbc565b858060a01b0391549060031b1c169061578c565b0161216e565b50919360019095919501612081565b90506121da9192503d805f833e6121d2818361312d565b81019061469f565b91908561204f565b919395509193602080612201600193601f1986820301875289516146cc565b97019301930190928795949293612016565b825160ff16845287955060209384019390920191600101611fe6565b80612241600192838697959701613bbc565b90549060031b1c5f5260036020526122708260405f2060ff600282015416612269858a6139c9565b5201613b31565b61227a82856139c9565b5261228581846139c9565b5001929092611fb3565b6060602082870181019190915201611fa8565b60405162461bcd60e51b815260206004820152601960248201527f4e6f7420616e206f70656e2073657373696f6e207061727479000000000000006044820152606490fd5b506122f28184613bbc565b905460039190911b1c6001600160a01b031633141580611ed5575061231a8160018501613bbc565b90549060031b1c1515611ed5565b60405162461bcd60e51b815260206004820152601c60248201527f53657373696f6e20616c726561647920686173206120636972636c65000000006044820152606490fd5b80151580612398575b6123805750611ec7565b6024906040519063645279c760e11b82526004820152fd5b506002811415612376565b34610cc0576020366003190112610cc0576004355f526003602052608060405f2080549060ff60028201541690600381015490600460018060a01b039101541691604051938452602084015260408301526060820152f35b34610cc05761240c61081936613014565b5f5260206005815260405f2060ff815416926001938360ff600287860195015416926040518096879181885491828152019081985f52825f20945f915b8c8160078501106125b057506124ab9654928d8683831061259a575b838310612582575b838310612569575b838310612550575b838310612537575b83831061251e575b838310612505575b5050106124f8575b50509050939293038661312d565b60405194606086019115158652606083870152518091526080850193915f5b8281106124df57841515604088015286860387f35b835163ffffffff168652948101949281019287016124ca565b1c81520183908a8061249d565b90919563ffffffff8660c01c1681520194018d86612495565b90919563ffffffff8660a01c1681520194018d8661248d565b90919563ffffffff8660801c1681520194018d86612485565b90919563ffffffff8660601c1681520194018d8661247d565b90919563ffffffff8660401c1681520194018d86612475565b90919563ffffffff86831c1681520194018d8661246d565b90919563ffffffff861681520194018d86612465565b91945092600892955061010090875463ffffffff808216835280828c1c168b840152808260401c16604084015260608183821c169084015260808183821c169084015260a08183821c169084015260c09082821c1690830152861c86820152019501930185928a949592612449565b34610cc0575f366003190112610cc0576020600e54604051908152f35b34610cc05761264d61081936613014565b5f52600460205260405f2061266860ff600283015416613aef565b610472600182549201613b31565b34610cc0576020366003190112610cc05760043561269381614c8d565b60038101600160ff198254161781556001600160401b03620151808142160191818311612790577f7c11255f8adc20b078007648255434c1c5331c1c234d17b63617f3e4ab0c250493612707602094839068ffffffffffffffff0082549160081b169068ffffffffffffffff001916179055565b60018101548061275b575082825460081c169060028101545f526011855260405f209060018060a01b039054165f52845260405f20906001600160401b03198254161790555b5460081c16604051908152a2005b61277190600285855460081c1693015490613d0b565b5f526010845260405f20906001600160401b031982541617905561274d565b634e487b7160e01b5f52601160045260245ffd5b34610cc0576020366003190112610cc05760043560036127c382614c8d565b01805460ff191660021790557f2083014bcaba7bc0cf3163ea5cf80f835f25a78b3115a2d1b4a20e072156e47d5f80a2005b34610cc057602080600319360112610cc0576004355f52600d815260405f20805491612822831515613a61565b600191600581015491604051918183878152018096825f52835f20905f5b8181106128cf575050506128629161285c85600193038661312d565b01613aa1565b91604051946080860191608087525180925260a0860196915f5b8181106128b3578789038589015287808860ff6128998d8b61302a565b918181161515604085015260081c16151560608301520390f35b83516001600160a01b031689529784019792840192820161287c565b82546001600160a01b0316845292850192918801918801612840565b34610cc057604060ff61290661290036613014565b90613a15565b835191831682529091166020820152f35b34610cc0576040366003190112610cc057612930612fa1565b6024359081151590818303610cc0577f5594a8659e6b60748d8c0636ac5fabade97d95d262c14b7727c7867c3d3722e19161299b60209260018060a01b039061297d825f541633146139dd565b1694855f526001845260405f209060ff801983541691151516179055565b604051908152a2005b34610cc0576040366003190112610cc0576129bd612f8b565b6004355f52601160205260405f209060018060a01b03165f5260205260206001600160401b0360405f205416604051908152f35b34610cc0576060366003190112610cc0576001600160401b03600435818111610cc057612a22903690600401612fb7565b60249291928035838111610cc057612a3e903690600401612fe7565b929094612a49612f7b565b95612a5383613966565b945f5b848110612cb957505050505060ff80941692835f526020936009855260405f208660405191612a8483613093565b54818116835260081c168682019080825215612ca157878087519351168310918215612c94575b50508015612c6c575b612c4f5750612ac4600254613bd1565b958660025560405191612ad6836130ae565b8783528683019586526040830190815260608301914283526080840194338652895f526003895260405f2094518555600190600186019851988951918211612c3c57600160401b998a8311612c29578b908254848455808510612bff575b5001905f528a5f205f5b838110612bee5750505050509083929160026004950191511660ff19825416179055516003820155019060018060a01b039051166001600160601b0360a01b825416179055335f526006835260405f2090815492831015612bdb5750612bd0611f0283869360017f1fa47dd6d36f381061b6e85d5bcf5b50e2f52cccb4f529b5b7d60a2f223e21599796018155613bbc565b9055604051428152a2005b634e487b7160e01b5f9081526041600452fd5b825182820155918c01918401612b3e565b835f528585845f2092830192015b828110612c1b575050612b34565b5f81558f9450879101612c0d565b89634e487b7160e01b5f5260416004525ffd5b88634e487b7160e01b5f5260416004525ffd5b60449250836040519263eb62201f60e01b84526004840152820152fd5b50600382148015612c8a575b8015612ab45750600181161515612ab4565b5060058214612c78565b5116821190508789612aab565b60405163645279c760e11b8152600481018490528590fd5b600190612cd6612cca368587613165565b8260051b870135614b99565b612ce0828a6139c9565b52612cef30610f3e838b6139c9565b612cfd33610f3e838b6139c9565b01612a56565b34610cc0576040366003190112610cc05761048f612d2a612d22612f8b565b600435613842565b6040805163ffffffff94851681529390921660208401526001600160401b0316908201529081906060820190565b34610cc0576060366003190112610cc05761173a600435602435612d7a612f7b565b91805f526003602052612da660018060a01b0380600460405f200154163314908115612dab57506131c8565b613244565b9050835f523390600460405f20015416148661172f565b34610cc0575f366003190112610cc057602060405163ffffffff7f0000000000000000000000000000000000000000000000000000000000000000168152f35b34610cc057602080600319360112610cc057600435805f526003825260018060a01b039081600460405f20015416612e3b811515613206565b3314612eeb57610943612e4f600e54613bd1565b9283600e556001600160401b0360405191612e69836130ae565b33835260ff6003888501945f86526040810188815260608201965f885260808301955f87528b5f52600f8d5260405f209351166001600160601b0360a01b8454161783555160018301555160028201550193511660ff19845416178355511668ffffffffffffffff0082549160081b169068ffffffffffffffff001916179055565b60405162461bcd60e51b815260048101849052601260248201527110dbdb9cd95b9d081b9bdd081b995959195960721b6044820152606490fd5b34610cc0576020366003190112610cc0576004355f5260056020526040805f2060ff600281835416920154168251911515825215156020820152f35b34610cc0575f366003190112610cc0576020906002548152f35b6044359060ff82168203610cc057565b602435906001600160a01b0382168203610cc057565b600435906001600160a01b0382168203610cc057565b9181601f84011215610cc0578235916001600160401b038311610cc0576020808501948460051b010111610cc057565b9181601f84011215610cc0578235916001600160401b038311610cc05760208381860195010111610cc057565b6040906003190112610cc0576004359060243590565b9081518082526020808093019301915f5b828110613049575050505090565b83518552938101939281019260010161303b565b9081518082526020808093019301915f5b82811061307c575050505090565b835160ff168552938101939281019260010161306e565b604081019081106001600160401b038211176111ff57604052565b60a081019081106001600160401b038211176111ff57604052565b606081019081106001600160401b038211176111ff57604052565b6001600160401b0381116111ff57604052565b608081019081106001600160401b038211176111ff57604052565b602081019081106001600160401b038211176111ff57604052565b90601f801991011681019081106001600160401b038211176111ff57604052565b6001600160401b0381116111ff5760051b60200190565b9291926001600160401b0382116111ff576040519161318e601f8201601f19166020018461312d565b829481845281830111610cc0578281602093845f960137010152565b9080601f83011215610cc0578160206131c593359101613165565b90565b156131cf57565b60405162461bcd60e51b815260206004820152600f60248201526e2737ba1039b430b8329037bbb732b960891b6044820152606490fd5b1561320d57565b60405162461bcd60e51b815260206004820152600f60248201526e14da185c19481b9bdd08199bdd5b99608a1b6044820152606490fd5b929190835f5260039360208581526040805f2091845f52815f209188840154151580613802575b61327490613206565b60ff9889881680159081156137f7575b50156137b35760049081860160018060a01b03908181541682858901541680910361374c575b906132b96132c193928b6143e4565b5416896143e4565b6002928387018c8154168d6132d5826145a7565b15908115613736575b5061372e575b831480613720575b6135b057548c166132fc81614624565b90811561359a575b81613590575b5080613582575b61335d5750505050509061332f9160016133379798871614916146ff565b929091614804565b7f4fbc8340ad1eb62b4d084816a398d5960ca956f0b722954ee659d311bd0c00e85f80a2565b91945092979594506133728786989398613d0b565b94855f526005895261338b8b89845f2001541615613d55565b8281101561357c5791975b82988093805f528583526133b08d8b865f20015416614624565b15613570575b5050825f528a88835f20015416956133cd87614624565b8981988215613565575b821561355b575b50501561351f57895f528482526001835f20015460011c5f199081810190811161350c5780986134af575b50505f908152600b909152209687556001870155848601805462ff00ff1916848a1660101b62ff0000161781559483019283811161349c57018092116134895750613487949561346b9116839061ff0082549160081b169061ff001916179055565b63ff00000082549160181b169063ff00000019161790556150f3565b565b601190634e487b7160e01b5f525260245ffd5b601183634e487b7160e01b5f525260245ffd5b90919750845f528583526001845f20015460011c9182019182116134f9578181029181830414901517156134e65795600b5f613409565b601186634e487b7160e01b5f525260245ffd5b601187634e487b7160e01b5f525260245ffd5b601188634e487b7160e01b5f525260245ffd5b825162461bcd60e51b815280870183905260166024820152752ab739bab83837b93a32b21039b430b832903830b4b960511b6044820152606490fd5b149050895f6133de565b6001811492506133d7565b90995092505f806133b6565b97613396565b508b84870154161515613311565b905015155f61330a565b90506135aa8d8689015416614624565b90613304565b508799939650819a9b9295509761366494986135d08261364c949a613d0b565b805f5260058b526135e8858a845f2001541615613d55565b5f52600a8a52805f209b8c9b8381105f1461371857929a8b935b8060019e8f9687820155555f525281815f200154821c995f525f200154891c958a019160ff198354168355613637878a6145c1565b835461ff001916911660081b61ff0016178255565b9062ff000082549160101b169062ff00001916179055565b61367b61366f615a65565b8085890155309061578c565b850190613687826145ce565b6005860191613695836145ce565b855f5b8381106136ec57505050505f5b8381106136ba57505050505061348790614d4b565b84906136cd6136c7615ab1565b846145fe565b6136e66136da8285613bbc565b30915490871b1c61578c565b016136a5565b6136f76136c7615ab1565b6137106137048285613bbc565b30915490891b1c61578c565b018690613698565b9a8b93613602565b50828d8689015416146132ec565b5f9b506132e4565b6137459150878a0154166145a7565b158e6132de565b6137568b8b613d0b565b5f52601087526001600160401b03865f2054164211156132aa57855162461bcd60e51b8152808601889052601860248201527f436f6d7075746174696f6e206e6f7420617070726f76656400000000000000006044820152606490fd5b815162461bcd60e51b815260048101849052601860248201527f496e76616c6964207769746e65737320737472617465677900000000000000006044820152606490fd5b60019150145f613284565b5082890154151561326b565b8115613818570490565b634e487b7160e01b5f52601260045260245ffd5b63ffffffff918216908216039190821161279057565b91825f52602091601283526040805f209181519261385f846130c9565b549263ffffffff958685168252808201978786831c1689526001600160401b038096861c169480840195808752801561395457916138d891886138a38c954261380e565b169687925f52601386526138b983835f20614b74565b601487525f8381206001600160a01b0390931681529190965220614b74565b9251169081888216105f1461394b576138f09161382c565b905b86829851169081888216105f146139435761390c9161382c565b809680831691161161393a575b50600101908282116127905782809151169116029081169081036127905790565b94506001613919565b50505f61390c565b50505f906138f2565b50505050505050509080925091905f90565b906139708261314e565b61397d604051918261312d565b828152809261398e601f199161314e565b0190602036910137565b8051156139a55760200190565b634e487b7160e01b5f52603260045260245ffd5b8051600110156139a55760400190565b80518210156139a55760209160051b010190565b156139e457565b60405162461bcd60e51b81526020600482015260096024820152682737ba1037bbb732b960b91b6044820152606490fd5b90613a1f91613d0b565b5f52600a602052600260405f2001549060ff8260081c169182613a5a57509050600b602052600260405f2001549060ff8083169260081c1690565b60ff169190565b15613a6857565b60405162461bcd60e51b815260206004820152601160248201527014d95cdcda5bdb881b9bdd08199bdd5b99607a1b6044820152606490fd5b90604051918281549182825260209260208301915f5260205f20935f905b828210613ad5575050506134879250038361312d565b855484526001958601958895509381019390910190613abf565b15613af657565b60405162461bcd60e51b815260206004820152601360248201527214995cdd5b1d081b9bdd0818dbdb5c1d5d1959606a1b6044820152606490fd5b90604051918281549182825260209260208301915f5260205f20935f905b828210613b65575050506134879250038361312d565b855484526001958601958895509381019390910190613b4f565b15613b8657565b60405162461bcd60e51b815260206004820152600e60248201526d14d95cdcda5bdb8818db1bdcd95960921b6044820152606490fd5b80548210156139a5575f5260205f2001905f90565b5f1981146127905760010190565b60ff1660ff81146127905760010190565b90613bfa91613d0b565b805f52600a60205260405f20600281015460ff808260081c16911610613c8957505f52600b60205260405f20600281015460ff808260081c1691161015613c4457613487906150f3565b60405162461bcd60e51b815260206004820152601b60248201527f4e6f20696e74657273656374696f6e20696e2070726f677265737300000000006044820152606490fd5b6134879150614d4b565b818110613c9e575050565b5f8155600101613c93565b91818110613cb657505050565b613487925f5260205f209182019101613c93565b15613cd157565b60405162461bcd60e51b815260206004820152601260248201527112185b991b19481b9bdd08185b1b1bddd95960721b6044820152606490fd5b9080821015613d37576040519060208201928352604082015260408152613d31816130c9565b51902090565b906040519060208201928352604082015260408152613d31816130c9565b15613d5c57565b60405162461bcd60e51b815260206004820152601060248201526f105b1c9958591e481c995d99585b195960821b6044820152606490fd5b80516020809201915f5b828110613dac575050505090565b835185529381019392810192600101613d9e565b5f5b838110613dd15750505f910152565b8181015183820152602001613dc2565b92919091835f52600760205260405f2092604051613dfe81613093565b6020600186549687845201549101908152841561439857845f52600560205260405f2095613e3360ff60028901541615613d55565b805f527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf018060205260405f20541561438657815f5260205260405f2094604051808760208299549384815201905f5260205f20925f5b81811061436d575050613e9e9250038761312d565b8351958660200196876020116127905760400180971161279057604051808651986020880199806020840190613ed4918d613dc0565b820190602082015203602081018252604001613ef0908261312d565b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649703546040516378542ead60e01b815260606004820152936001600160a01b03909116928492839291613f469060648501906146cc565b838103600319016024850152613f5b91615767565b828103600319016044840152613f7091615767565b03815a6020945f91f1908115610cb5575f9161433e575b501561432c577f1af0453083661051f6e56e5c070792320652e612154bf9af8637bb1e7655b99d5f80a2845f526004602052613fc560405f20615490565b906040516020810190613fdc81610bdc8487613d94565b51902090510361432457519080518260051b908382046020148415171561279057036142ea57606061403c9161402c95604051968792602084019660208852604085015251809285850190613dc0565b810103604081018652018461312d565b8251830190602084830312610cc05751926001600160401b038411610cc05760208201603f858301011215610cc057602084820101519061407c8261314e565b9461408a604051968761312d565b828652602060408188019460051b838501010194018411610cc05701604001905b8282106142da575050506140d66140c183613998565b511515859060ff801983541691151516179055565b81515f198101908111612790576140ec90613966565b8051906001600160401b0382116111ff57600160401b82116111ff57602090600187015483600189015580841061428a575b500190600186015f5260205f20905f5b8160031c8110614248575060071981168103806141f3575b5050505060015b82518110156141bb5763ffffffff61416582856139c9565b5116905f1981018181116127905760018701548110156139a5576141b36001938489015f52601c60205f208460031c019360021b1683549060031b9163ffffffff809116831b921b19161790565b90550161414d565b506002909301805460ff19166001179055507fb2056d9b22ed539792ef15049a954e8197707340b4102b79992c357018e09da55f80a2565b925f935f5b8181106142105750505060031c01555f808080614146565b909194602061423e60019263ffffffff895116908560021b60031b9163ffffffff809116831b921b19161790565b96019291016141f8565b5f805b6008811061426057508382015560010161412e565b855190959160019160209163ffffffff60058a901b81811b199092169216901b179201950161424b565b6142ba90600189015f52835f20600780870160031c820192601c8860021b16806142c057500160031c0190613c93565b5f61411e565b5f198501908154905f19908a0360031b1c1690555f6111d4565b81518152602091820191016140ab565b60405162461bcd60e51b8152602060048201526012602482015271496e76616c696420636c656172746578747360701b6044820152606490fd5b505092505050565b60405163cf6c44e960e01b8152600490fd5b614360915060203d602011614366575b614358818361312d565b810190615a4d565b5f613f87565b503d61434e565b845483526001948501948b945060209093019201613e89565b60405163d66ca67560e01b8152600490fd5b60405162461bcd60e51b815260206004820152600f60248201526e125b9d985b1a59081c995c5d595cdd608a1b6044820152606490fd5b90600163ffffffff8093160191821161279057565b90815f5260209160128352604090815f2090825191614402836130c9565b5463ffffffff948582168452868401968683821c1688526001600160401b038093871c1686860190808252158015614584575b6145795761444784809251164261380e565b1697845f526013825261445c89885f20614b74565b9060148352875f209360018060a01b031693845f52835288806144818c8b5f20614b74565b98511681841610918261456a575b50501561452e5761449f906143cf565b936144f58751966144af88613093565b8a88528984890197168752825f526013845285895f20985116978054986bffffffff00000000000000008099518c1b16906001600160601b0319809b16171790556143cf565b978751996145028b613093565b8a52828a01981688525f5260148152855f20915f5252835f209551169285549451901b16921617179055565b865162461bcd60e51b8152600481018390526015602482015274145d595c9e48189d5919d95d08195e18d959591959605a1b6044820152606490fd5b5116878a16109050885f61448f565b505050505050505050565b505f85815260038352879020600401546001600160a01b03848116911614614435565b60ff16600181149081156145b9575090565b600291501490565b9190820180921161279057565b8054905f8155816145dd575050565b5f5260205f20908101905b8181106145f3575050565b5f81556001016145e8565b805490600160401b8210156111ff5781611f0291600161462094018155613bbc565b9055565b60ff1660048114908115614636575090565b600591501490565b9080601f83011215610cc0578151906020916146598161314e565b93614667604051958661312d565b81855260208086019260051b820101928311610cc057602001905b828210614690575050505090565b81518152908301908301614682565b919091604081840312610cc05780519260208201516001600160401b038111610cc0576131c5920161463e565b9081518082526020808093019301915f5b8281106146eb575050505090565b8351855293810193928101926001016146dd565b90929160ff6002830154169060ff6002860154169161472c600161472581869701613b31565b9701613b31565b9384908483116147f5575b505060ff1690816147595750506131c5916147529185615577565b92836156cd565b6147a561478d96935f9560ff604051998a978897633339d5b360e21b8952600489015260a0602489015260a48801906146cc565b921660448601528482036003190160648601526146cc565b9015156084830152038173__$5e89a520f7bf3a25ac63386fa079836ad6$__5af4918215610cb5575f905f936147da57509190565b90506147f19192503d805f833e6121d2818361312d565b9091565b9096945090925060ff5f614737565b90949291926148138683613d0b565b91825f52600560205261483060ff600260405f2001541615613d55565b5f52600360205260018060a01b0380600460405f20015416965f52600460405f200154169361485f308261578c565b614869878261578c565b614873858261578c565b5f5b84518110156148b15760019061488f30610f3e83896139c9565b61489d89610f3e83896139c9565b6148ab87610f3e83896139c9565b01614875565b5093509360ff919550604051936148c7856130f7565b84526020840192835260016040850152166060830152835f52600460205260405f209082518255518051906001600160401b0382116111ff57600160401b82116111ff576001830154826001850155808310614b4b575b50602001600183015f5260205f205f5b838110614b3757505050509060ff6060600261496294019261100e60408201511515859060ff801983541691151516179055565b60405161496e81613112565b5f81526040519061497e826130c9565b5f82526020820190815260408201905f8252845f5260056020526149b560405f2093511515849060ff801983541691151516179055565b51805160018401916001600160401b0382116111ff57600160401b82116111ff576020908354838555808410614aeb575b5001915f5260205f208160031c915f5b838110614aa957506007198116900380614a54575b50505050906002614a2c9251151591019060ff801983541691151516179055565b33827f34daaef32bfe9dfa9f6c743b5f833f26aa14c4e55bd21f896ebbb397d19b9d945f80a3565b925f935f5b818110614a715750505001556002614a2c5f80614a0b565b9091946020614a9f60019263ffffffff895116908560021b60031b9163ffffffff809116831b921b19161790565b9601929101614a59565b5f805b60088110614ac15750838201556001016149f6565b865190969160019160209163ffffffff60058b901b81811b199092169216901b1792019601614aac565b614b1890855f52835f20600780870160031c820192601c8860021b1680614b1e57500160031c0190613c93565b5f6149e6565b5f1990818601918254918a0360031b1c1690555f6111d4565b60019060208451940193818401550161492e565b600184015f528260205f2091820191015b818110614b69575061491e565b5f8155600101614b5c565b54906001600160401b03808316911603614b945760401c63ffffffff1690565b505f90565b6020614be99260018060a01b0392835f80516020615c2f8339815191525416905f60405180978195829463196d0b9b60e01b84526004840152336024840152608060448401526084830190615767565b6004606483015203925af1918215610cb5575f92614c59575b505f80516020615c4f8339815191525416803b15610cc057604051630f8e573b60e21b815260048101839052336024820152905f908290604490829084905af18015610cb557614c50575090565b6131c5906130e4565b9091506020813d602011614c85575b81614c756020938361312d565b81010312610cc05751905f614c02565b3d9150614c68565b5f52600f60205260405f209060018060a01b038083541615614d1257614cc99060028401545f526003602052600460405f2001541633146131c8565b60ff600383015416614cd757565b60405162461bcd60e51b815260206004820152601360248201527252657175657374206e6f742070656e64696e6760681b6044820152606490fd5b60405162461bcd60e51b815260206004820152601160248201527014995c5d595cdd081b9bdd08199bdd5b99607a1b6044820152606490fd5b9081545f52600360209260038452600193614d6a8560405f2001613b31565b948083019384545f5260038352614d858260405f2001613b31565b90828851811c5f915b614fcd575b50505f600386015460018060a01b035f80516020615c2f8339815191525416866040518092630f51ccfb60e41b8252600494858301528160249687925af1968715610cb5575f97614f9d575b505093929190614e02614df18b613998565b51614dfb8c6139b9565b5190615521565b998051851c90815b614eff5750508251841c94855b614e4557505050505050614e2f6133379495826156cd565b9160ff60028254955492015460101c1693614804565b9091929394998a861b60018060ff1b038c168c03614eed576001198101818111614ec957614e7390876139c9565b515f1991808301908111614edb5790614dfb614e8f92896139c9565b908c018c8111614ec95791614eb891614ead614ebe94868d01613bbc565b905490881b1c615b04565b9a615a41565b949392919085614e17565b84601185634e487b7160e01b5f52525ffd5b85601186634e487b7160e01b5f52525ffd5b83601184634e487b7160e01b5f52525ffd5b909a94959394929391928b871b6001600160ff1b038d168d03614ec9576001198101818111614edb57614f3290846139c9565b515f1991808301908111614f8b5790614dfb614f4e92866139c9565b908d018d8111614edb5791614f7891614f6d614f7e9460058e01613bbc565b905490891b1c615b04565b9b615a41565b9081969594939296614e0a565b86601187634e487b7160e01b5f52525ffd5b9080929750813d8311614fc6575b614fb5818361312d565b81010312610cc05751945f80614ddf565b503d614fab565b6002870180549260ff9384811685600892831c168110156150af578481108e81156150a9575088925b8415159081615093575b5061508257888f8b969594938e935f1461505557509161502f916150389594938a8854169060048401936157ea565b51841c906145c1565b93815490615047818316613bdf565b169060ff1916179055614d8e565b9493965050505084820391821161279057889361507d8f8d90615038958c60058401936157ea565b61502f565b505050505050505050505050509050565b90506150a284518c1c866145c1565b115f615000565b92614ff6565b50505050614d93565b9081548082526020809201925f5260205f20915f905b8282106150dc575050505090565b8354855293840193600193840193909101906150ce565b600281019081549160ff90818416938261510c86613bdf565b169060ff191617808255828160101c1685105f146151d857505060018201545f52600360205260405f209173__$7ba824d401ec9c26e671da1c577f0cf278$__9080545f52600160405f20019260028501541690823b15610cc0576151a0956151b860039360015f986040519a8b998a988998638d1c6b1760e01b8a5201600489015260a0602489015260a48801906150b8565b926044870152600319868403016064870152016150b8565b90608483015203915af48015610cb5576151cf5750565b613487906130e4565b92939260081c82165f1901828111612790578216831015615361575460101c1614801561535657600d820154905b1561534c575f80516020615c2f83398151915254604051639cd07acb60e01b81525f60048201819052600560248301529091602091839160449183916001600160a01b03165af1908115610cb5575f9161531a575b505b600e83015460409182519363121e6f8160e21b855260048501526024840152604483015260106064830152808260848173__$7ba824d401ec9c26e671da1c577f0cf278$__5af4918215615310575f915f936152d7575b505080826012856152d09460116134879801550155309061578c565b309061578c565b8193508092503d8311615309575b6152ef818361312d565b81010312610cc057805160209091015190806134876152b4565b503d6152e5565b50513d5f823e3d90fd5b90506020813d602011615344575b816153356020938361312d565b81010312610cc057515f61525b565b3d9150615328565b601282015461525d565b601182015490615206565b6012840154604051639a2775f760e01b815260038601600482018190526024820192909252601f60448201529493505f8560648173__$7ba824d401ec9c26e671da1c577f0cf278$__5af4948515610cb5575f956153df575b506153c96133379582546156cd565b92600185549501549154925460181c1693614804565b94503d805f873e6153f0818761312d565b850194602081870312610cc0578051906001600160401b038211610cc057613337966153c992615420920161463e565b95506153ba565b5f80516020615c4f833981519152546040516382027b6d60e01b81526004810192909252336024830152602090829060449082906001600160a01b03165afa908115610cb5575f91615477575090565b6131c5915060203d60201161436657614358818361312d565b906001808301805490816001019081600111612790576154af8261314e565b916154bd604051938461312d565b8083526154cc601f199161314e565b013660208401378195546154df83613998565b525f5b8381106154f0575050505050565b6154fa8183613bbc565b919054918682019081831161279057879361551a9160031b1c91866139c9565b52016154e2565b919061554f604051615532816130c9565b600281526040366020830137809461554982613998565b526139b9565b52565b90916155696131c5936040845260408401906146cc565b9160208184039101526146cc565b9060ff811690600382036156035750506040516310a3699760e01b815291602091839182916155aa919060048401615552565b038173__$dc4c2708816e5945f72c127a4229afb911$__5af4908115610cb5575f916155d4575090565b90506020813d6020116155fb575b816155ef6020938361312d565b81010312610cc0575190565b3d91506155e2565b61560c90614624565b61567f57604051631f428eff60e31b81526060600482015292602092849283926156559261563e9060648601906146cc565b9160248501526003198483030160448501526146cc565b038173__$5e89a520f7bf3a25ac63386fa079836ad6$__5af4908115610cb5575f916155d4575090565b5060405163fd58d72760e01b815291602091839182916156a3919060048401615552565b038173__$7ba824d401ec9c26e671da1c577f0cf278$__5af4908115610cb5575f916155d4575090565b5f80516020615c2f83398151915254604051639cd07acb60e01b81525f60048083018290526024830152909391602091859160449183916001600160a01b03165af1928315610cb5575f93615731575b5061572b836131c594615521565b91615b04565b92506020833d60201161575f575b8161574c6020938361312d565b81010312610cc05791519161572b61571d565b3d915061573f565b9060209161578081518092818552858086019101613dc0565b601f01601f1916010190565b5f80516020615c4f833981519152546001600160a01b031691823b15610cc057604051635ca4b5b160e11b815260048101929092526001600160a01b03166024820152905f908290604490829084905af18015610cb5576151cf5750565b9392949190946158306040926158178451986347c35d6960e01b8a52608060048b015260848a01906146cc565b90602489015260031992838983030160448a01526146cc565b90868203016064870152835480825286602080930191865f52835f20905f5b85828210615a2a5750505050805f92038173__$dc4c2708816e5945f72c127a4229afb911$__5af48015615a20575f965f9161598c575b505f5b87518110156158b5578061589f6001928a6139c9565b516158ad611f02838a613bbc565b905501615889565b509295509250926003019182549082821561597a575b8192931561596c575b606460018060a01b035f80516020615c2f8339815191525416945f885196879485936363a2db2960e01b8552600485015260248401528160448401525af193841561596357505f93615931575b505090806134879255309061578c565b90809350813d831161595c575b615948818361312d565b81010312610cc0576134879151915f615921565b503d61593e565b513d5f823e3d90fd5b50615975615a65565b6158d4565b819250615985615a65565b92506158cb565b9650503d805f883e61599e818861312d565b8601958281880312610cc05780516001600160401b038111610cc05781019680601f89011215610cc05787516159d38161314e565b986159e086519a8b61312d565b818a5284808b019260051b820101928311610cc05790848094939201905b828210615a105750505001515f615886565b81518152859491820191016159fe565b82513d5f823e3d90fd5b83548652909401938a93506001928301920161584f565b8015612790575f190190565b90816020910312610cc057518015158103610cc05790565b5f602060018060a01b035f80516020615c2f8339815191525416604460405180948193639cd07acb60e01b83528160048401528160248401525af1908115610cb5575f916155d4575090565b5f80516020615c2f83398151915254604051639cd07acb60e01b8152600160048201525f602482018190529091602091839160449183916001600160a01b03165af1908115610cb5575f916155d4575090565b905f91615b1082613998565b5190615b1b85613998565b519160018060a01b035f80516020615c2f833981519152908082541660405195637702dcff60e01b94858852866004890152602488015260448701528560648160209a8b945af1958615610cb55787955f97615bf7575b50915f91615b8c615b85606496956139b9565b519a6139b9565b5191541690604051998a96879586526004860152602485015260448401525af1918215610cb5575f92615bc5575b506131c59250615521565b90915082813d8311615bf0575b615bdc818361312d565b81010312610cc0576131c59151905f615bba565b503d615bd2565b8681939594979298503d8311615c27575b615c12818361312d565b81010312610cc057519486949192905f615b72565b503d615c0856fe9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497019e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700a164736f6c6343000818000a";
+
+type GeometricWitnessConstructorParams =
+  | [linkLibraryAddresses: GeometricWitnessLibraryAddresses, signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: GeometricWitnessConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => {
+  return (
+    typeof xs[0] === "string" ||
+    (Array.isArray as (arg: any) => arg is readonly any[])(xs[0]) ||
+    "_isInterface" in xs[0]
+  );
+};
+
+export class GeometricWitness__factory extends ContractFactory {
+  constructor(...args: GeometricWitnessConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      const [linkLibraryAddresses, signer] = args;
+      super(
+        _abi,
+        GeometricWitness__factory.linkBytecode(linkLibraryAddresses),
+        signer
+      );
+    }
+  }
+
+  static linkBytecode(
+    linkLibraryAddresses: GeometricWitnessLibraryAddresses
+  ): string {
+    let linkedBytecode = _bytecode;
+
+    linkedBytecode = linkedBytecode.replace(
+      new RegExp("__\\$5e89a520f7bf3a25ac63386fa079836ad6\\$__", "g"),
+      linkLibraryAddresses["contracts/AreaGeometry.sol:AreaGeometry"]
+        .replace(/^0x/, "")
+        .toLowerCase()
+    );
+
+    linkedBytecode = linkedBytecode.replace(
+      new RegExp("__\\$7ba824d401ec9c26e671da1c577f0cf278\\$__", "g"),
+      linkLibraryAddresses["contracts/PathGeometry.sol:PathGeometry"]
+        .replace(/^0x/, "")
+        .toLowerCase()
+    );
+
+    linkedBytecode = linkedBytecode.replace(
+      new RegExp("__\\$dc4c2708816e5945f72c127a4229afb911\\$__", "g"),
+      linkLibraryAddresses["contracts/PolygonGeometry.sol:PolygonGeometry"]
+        .replace(/^0x/, "")
+        .toLowerCase()
+    );
+
+    return linkedBytecode;
+  }
+
+  override getDeployTransaction(
+    offset: BigNumberish,
+    scale: BigNumberish,
+    maxVertices: BigNumberish,
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(
+      offset,
+      scale,
+      maxVertices,
+      overrides || {}
+    );
+  }
+  override deploy(
+    offset: BigNumberish,
+    scale: BigNumberish,
+    maxVertices: BigNumberish,
+    overrides?: NonPayableOverrides & { from?: string }
+  ) {
+    return super.deploy(offset, scale, maxVertices, overrides || {}) as Promise<
+      GeometricWitness & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): GeometricWitness__factory {
+    return super.connect(runner) as GeometricWitness__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): GeometricWitnessInterface {
+    return new Interface(_abi) as GeometricWitnessInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): GeometricWitness {
+    return new Contract(address, _abi, runner) as unknown as GeometricWitness;
+  }
+}
+
+export interface GeometricWitnessLibraryAddresses {
+  ["contracts/AreaGeometry.sol:AreaGeometry"]: string;
+  ["contracts/PathGeometry.sol:PathGeometry"]: string;
+  ["contracts/PolygonGeometry.sol:PolygonGeometry"]: string;
+}
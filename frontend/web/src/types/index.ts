@@ -0,0 +1,6 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export type { GeometricWitness } from "./GeometricWitness";
+export * as factories from "./factories";
+export { GeometricWitness__factory } from "./factories/GeometricWitness__factory";
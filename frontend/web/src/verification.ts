@@ -0,0 +1,43 @@
+// verification.ts
+import type { Signer } from "ethers";
+import { ResultDecryptor, userDecryptHandles } from "./decryption";
+import { ShapeEncryptor, buildShapeInput } from "./encryption";
+import { CoordinateEncoding, IDENTITY_ENCODING, Vec2 } from "./geometry";
+import type { GeometricWitness } from "./types";
+
+export type WitnessVerifier = ShapeEncryptor & ResultDecryptor;
+
+// Asks the contract whether a point lies in a shape, edges included, and decrypts the answer for the signer alone.
+// The point is given in real coordinates and encrypted with the coordinate encoding the deployment records.
+export async function verifyWitness(
+  fhevm: WitnessVerifier,
+  contract: GeometricWitness,
+  signer: Signer,
+  shapeId: number | bigint,
+  point: Vec2,
+  encoding: CoordinateEncoding = IDENTITY_ENCODING
+): Promise<boolean> {
+  const contractAddress = await contract.getAddress();
+  const { handles, inputProof } = await buildShapeInput(
+    fhevm,
+    contractAddress,
+    await signer.getAddress(),
+    { type: "Point", x: point.x, y: point.y },
+    encoding
+  );
+
+  const tx = await contract.connect(signer).verifyWitness(shapeId, handles, inputProof);
+  const receipt = await tx.wait();
+  // The answer's handle only reaches an account through the event; the call's return value is for contracts
+  const verified = receipt?.logs
+    .filter(log => log.address === contractAddress)
+    .map(log => contract.interface.parseLog(log))
+    .find(parsed => parsed?.name === "WitnessVerified");
+  if (!verified) {
+    throw new Error("Witness verification emitted no result");
+  }
+
+  const inside: string = verified.args.inside;
+  const cleartexts = await userDecryptHandles(fhevm, contractAddress, signer, [inside]);
+  return Boolean(cleartexts[inside]);
+}
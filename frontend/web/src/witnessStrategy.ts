@@ -0,0 +1,32 @@
+// witnessStrategy.ts
+
+import { ShapeKind } from "./geometry";
+
+// How GeometricWitness chooses a result's witness point. Callers pick Deterministic or Randomized per
+// computeIntersection call, but only pairs of circles and rectangles sample a witness; every other pair gets, and
+// records, the deterministic one. Results stored by an authorized computer are recorded as External.
+export type WitnessStrategy = "Deterministic" | "Randomized" | "External";
+
+// Strategy bytes understood by GeometricWitness
+export const WITNESS_STRATEGIES: Record<WitnessStrategy, number> = {
+  Deterministic: 0,
+  Randomized: 1,
+  External: 2
+};
+
+export const WITNESS_STRATEGY_DESCRIPTIONS: Record<WitnessStrategy, string> = {
+  Deterministic: "a fixed point of the intersection, such as the overlap's centre or the point closest to a circle",
+  Randomized:
+    "for circles and rectangles, a point sampled with on-chain FHE randomness, revealing less about where the shapes " +
+    "meet; other pairs get the deterministic witness",
+  External: "supplied by an authorized computer"
+};
+
+export function witnessStrategyOf(value: number): WitnessStrategy | undefined {
+  return (Object.keys(WITNESS_STRATEGIES) as WitnessStrategy[]).find(strategy => WITNESS_STRATEGIES[strategy] === value);
+}
+
+// Whether a pair of these kinds samples its witness when the Randomized strategy is asked for
+export function canRandomizeWitness(kind1: ShapeKind, kind2: ShapeKind): boolean {
+  return [kind1, kind2].every(kind => kind === "Circle" || kind === "Rectangle");
+}
@@ -1,18 +1,37 @@
-import { HardhatUserConfig } from "hardhat/config";
+import "dotenv/config";
+import { HardhatUserConfig, vars } from "hardhat/config";
 import "@nomicfoundation/hardhat-toolbox";
 import "@nomicfoundation/hardhat-ethers";
 import "@fhevm/hardhat-plugin";
+import "hardhat-deploy";
+
+import "./tasks/typechain";
+
+// Deployer credentials come from the environment (.env) first, then from the hardhat vars store
+// (`npx hardhat vars set DEPLOYER_PRIVATE_KEY`), so keys never have to be typed into a prompt
+const DEPLOYER_PRIVATE_KEY = process.env.DEPLOYER_PRIVATE_KEY || vars.get("DEPLOYER_PRIVATE_KEY", "");
+const MNEMONIC = process.env.MNEMONIC || vars.get("MNEMONIC", "");
+const SEPOLIA_RPC_URL = process.env.SEPOLIA_RPC_URL || vars.get("SEPOLIA_RPC_URL", "https://sepolia.drpc.org");
+
+const remoteAccounts = DEPLOYER_PRIVATE_KEY ? [DEPLOYER_PRIVATE_KEY] : MNEMONIC ? { mnemonic: MNEMONIC } : [];
 
 const config: HardhatUserConfig = {
   defaultNetwork: "hardhat",
+  namedAccounts: {
+    deployer: 0,
+  },
   networks: {
     hardhat: {
       chainId: 31337,
     },
+    localhost: {
+      chainId: 31337,
+      url: "http://127.0.0.1:8545",
+    },
     sepolia: {
       chainId: 11155111,
-      url: "https://sepolia.drpc.org",
-      accounts: [],
+      url: SEPOLIA_RPC_URL,
+      accounts: remoteAccounts,
     },
   },
   solidity: {
@@ -34,6 +53,8 @@ const config: HardhatUserConfig = {
     tests: "./test",
     cache: "./cache",
     artifacts: "./artifacts",
+    deploy: "./deploy",
+    deployments: "./deployments",
   },
   typechain: {
     outDir: "types",
@@ -41,7 +62,7 @@ const config: HardhatUserConfig = {
   },
   etherscan: {
     apiKey: {
-      sepolia: "",
+      sepolia: process.env.ETHERSCAN_API_KEY || vars.get("ETHERSCAN_API_KEY", ""),
     },
   },
   gasReporter: {
@@ -1,2 +0,0 @@
-// Auto-generated file: D:\MyCode\zama\demo\hooks-shared\analytics-api-local.py
-// Generated at: 2025-10-10T11:57:11.239Z
\ No newline at end of file
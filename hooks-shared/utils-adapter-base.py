@@ -1,2 +0,0 @@
-// Auto-generated file: D:\MyCode\zama\demo\hooks-shared\utils-adapter-base.py
-// Generated at: 2025-10-10T11:57:11.231Z
\ No newline at end of file
@@ -1,2 +0,0 @@
-// Auto-generated file: D:\MyCode\zama\demo\simple-database\admin-admin-template.java
-// Generated at: 2025-10-10T11:57:11.202Z
\ No newline at end of file
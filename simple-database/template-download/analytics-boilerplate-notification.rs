@@ -1,2 +0,0 @@
-// Auto-generated file: D:\MyCode\zama\demo\simple-database\template-download\analytics-boilerplate-notification.rs
-// Generated at: 2025-10-10T11:57:11.212Z
\ No newline at end of file
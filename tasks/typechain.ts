@@ -0,0 +1,78 @@
+import { TASK_TYPECHAIN_GENERATE_TYPES } from "@typechain/hardhat/dist/constants";
+import fs from "fs";
+import { subtask } from "hardhat/config";
+import { parseFullyQualifiedName } from "hardhat/utils/contract-names";
+import path from "path";
+import { glob, runTypeChain } from "typechain";
+
+// Contracts the dApp talks to, and where their bindings are generated inside the frontend package
+const FRONTEND_CONTRACTS = ["GeometricWitness"];
+const FRONTEND_TYPES_DIR = path.join("frontend", "web", "src", "types");
+
+// Files typechain writes next to the bindings rather than per contract
+const SHARED_FILES = new Set(["index.ts", "common.ts", "hardhat.d.ts"]);
+
+const listFiles = (dir: string): string[] =>
+  fs
+    .readdirSync(dir, { withFileTypes: true })
+    .flatMap((entry) =>
+      entry.isDirectory() ? listFiles(path.join(dir, entry.name)) : [path.join(dir, entry.name)],
+    );
+
+// Drops directories left with nothing but a barrel file; typechain regenerates the parent barrels without them
+const removeEmptyDirs = (dir: string) => {
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    if (!entry.isDirectory()) continue;
+    const subdir = path.join(dir, entry.name);
+    removeEmptyDirs(subdir);
+    const rest = fs.readdirSync(subdir);
+    if (rest.every((name) => name === "index.ts")) fs.rmSync(subdir, { recursive: true });
+  }
+};
+
+// Removes bindings for contracts that no longer have an artifact. Incremental typechain runs only ever add files,
+// so bindings for deleted or renamed contracts would otherwise stay around and keep compiling against stale ABIs.
+function pruneStaleBindings(outDir: string, contractNames: Set<string>): string[] {
+  if (!fs.existsSync(outDir)) return [];
+
+  const pruned = listFiles(outDir).filter((file) => {
+    const name = path.basename(file);
+    if (!name.endsWith(".ts") || SHARED_FILES.has(name)) return false;
+    return !contractNames.has(name.replace(/(__factory)?\.ts$/, ""));
+  });
+  pruned.forEach((file) => fs.unlinkSync(file));
+  removeEmptyDirs(outDir);
+  return pruned;
+}
+
+subtask(TASK_TYPECHAIN_GENERATE_TYPES).setAction(async (taskArgs, hre, runSuper) => {
+  const result = await runSuper(taskArgs);
+  const { config, artifacts } = hre;
+  const root = config.paths.root;
+
+  const fullyQualifiedNames = await artifacts.getAllFullyQualifiedNames();
+  const contractNames = new Set(fullyQualifiedNames.map((fqn) => parseFullyQualifiedName(fqn).contractName));
+
+  const pruned = pruneStaleBindings(path.resolve(root, config.typechain.outDir), contractNames);
+  if (pruned.length > 0 && !taskArgs.quiet) {
+    console.log(`Pruned ${pruned.length} stale typings from ${config.typechain.outDir}`);
+  }
+
+  // The frontend is built on its own, without the hardhat workspace, so it gets a self-contained copy of the bindings
+  const frontendArtifacts = fullyQualifiedNames
+    .filter((fqn) => FRONTEND_CONTRACTS.includes(parseFullyQualifiedName(fqn).contractName))
+    .map((fqn) => artifacts.formArtifactPathFromFullyQualifiedName(fqn));
+  if (frontendArtifacts.length > 0) {
+    const outDir = path.resolve(root, FRONTEND_TYPES_DIR);
+    fs.rmSync(outDir, { recursive: true, force: true });
+    await runTypeChain({
+      cwd: root,
+      filesToProcess: glob(root, frontendArtifacts),
+      allFiles: glob(root, frontendArtifacts),
+      outDir,
+      target: config.typechain.target,
+    });
+  }
+
+  return result;
+});
@@ -0,0 +1,1003 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { anyUint } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
+import { expect } from "chai";
+import { fhevm } from "hardhat";
+import {
+  userDecryptHandles,
+  userDecryptResult,
+} from "../frontend/web/src/decryption";
+import { buildShapeInput, encryptShape } from "../frontend/web/src/encryption";
+import {
+  DEFAULT_ENCODING,
+  IDENTITY_ENCODING,
+  Shape,
+  decodeWitness,
+  readShapeTypes,
+} from "../frontend/web/src/geometry";
+import { pairKey } from "../frontend/web/src/pairKey";
+import { verifyWitness } from "../frontend/web/src/verification";
+import { WITNESS_STRATEGIES } from "../frontend/web/src/witnessStrategy";
+import { GeometricWitness } from "../types";
+import {
+  PlainShape,
+  Signers,
+  approvePair,
+  approveVerifier,
+  circle,
+  deployFixture,
+  geometricWitnessFactory,
+  getSigners,
+  point,
+  polygon,
+  polyline,
+  rect,
+  segment,
+  submitShape,
+} from "./helpers";
+
+describe("GeometricWitness", function () {
+  let signers: Signers;
+  let contract: GeometricWitness;
+  let contractAddress: string;
+
+  async function compute(shapeId1: bigint, shapeId2: bigint) {
+    await approvePair(contract, shapeId1, shapeId2);
+    const tx = await contract
+      .connect(signers.alice)
+      .computeIntersection(
+        shapeId1,
+        shapeId2,
+        WITNESS_STRATEGIES.Deterministic,
+      );
+    await tx.wait();
+  }
+
+  async function reveal(shapeId1: bigint, shapeId2: bigint) {
+    const tx = await contract
+      .connect(signers.alice)
+      .requestResultDecryption(shapeId1, shapeId2);
+    await tx.wait();
+    await fhevm.awaitDecryptionOracle();
+  }
+
+  before(async function () {
+    signers = await getSigners();
+  });
+
+  beforeEach(async function () {
+    // Check whether the tests are running against an FHEVM mock environment
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+
+    ({ contract, contractAddress } = await deployFixture());
+  });
+
+  it("should have no shapes after deployment", async function () {
+    expect(await contract.shapeCount()).to.eq(0);
+  });
+
+  it("stores a submitted shape that its submitter can user-decrypt", async function () {
+    const id = await submitShape(contract, circle(10, 20, 5), signers.alice);
+    expect(id).to.eq(1);
+
+    const [parameters, shapeType] = await contract.getEncryptedShape(id);
+    expect(shapeType).to.eq(1);
+    expect(parameters.length).to.eq(3);
+
+    const clear = [];
+    for (const handle of parameters) {
+      clear.push(
+        await fhevm.userDecryptEuint(
+          FhevmType.euint32,
+          handle,
+          contractAddress,
+          signers.alice,
+        ),
+      );
+    }
+    expect(clear).to.deep.eq([10n, 20n, 5n]);
+  });
+
+  it("emits ShapeSubmitted with the new id", async function () {
+    const input = fhevm.createEncryptedInput(
+      contractAddress,
+      signers.alice.address,
+    );
+    const encrypted = await input.add32(1).add32(2).encrypt();
+
+    await expect(
+      contract
+        .connect(signers.alice)
+        .submitEncryptedShape(encrypted.handles, encrypted.inputProof, 0),
+    )
+      .to.emit(contract, "ShapeSubmitted")
+      .withArgs(1, (timestamp: bigint) => timestamp > 0n);
+  });
+
+  describe("pair keys", function () {
+    it("matches the TypeScript pairKey in both argument orders", async function () {
+      expect(await contract.pairKey(3, 7)).to.eq(pairKey(3, 7));
+      expect(await contract.pairKey(7, 3)).to.eq(pairKey(3, 7));
+      expect(pairKey(7n, 3n)).to.eq(pairKey(3, 7));
+    });
+
+    it("serves a result computed as (a, b) when queried as (b, a)", async function () {
+      const id1 = await submitShape(contract, point(7, 8), signers.alice);
+      const id2 = await submitShape(contract, circle(5, 5, 10), signers.bob);
+      await compute(id1, id2);
+
+      const [forward] = await contract.getEncryptedIntersectionResult(id1, id2);
+      const [backward] = await contract.getEncryptedIntersectionResult(
+        id2,
+        id1,
+      );
+      expect(backward).to.eq(forward);
+
+      await reveal(id2, id1);
+      const result = await contract.getDecryptedIntersectionResult(id1, id2);
+      expect(result.isRevealed).to.eq(true);
+      expect(result.hasIntersection).to.eq(true);
+    });
+
+    it("keeps a single result when a pair is computed in both orders", async function () {
+      const id1 = await submitShape(contract, point(1, 1), signers.alice);
+      const id2 = await submitShape(contract, point(1, 1), signers.bob);
+      await compute(id1, id2);
+
+      await expect(
+        contract
+          .connect(signers.alice)
+          .computeIntersection(id2, id1, WITNESS_STRATEGIES.Deterministic),
+      )
+        .to.emit(contract, "IntersectionComputed")
+        .withArgs(pairKey(id1, id2));
+      await reveal(id1, id2);
+      await expect(
+        contract.connect(signers.alice).requestResultDecryption(id2, id1),
+      ).to.be.revertedWith("Already revealed");
+    });
+  });
+
+  describe("ownership", function () {
+    it("records the submitter of each shape", async function () {
+      const id1 = await submitShape(contract, point(1, 1), signers.alice);
+      const id2 = await submitShape(contract, point(2, 2), signers.bob);
+      const id3 = await submitShape(contract, point(3, 3), signers.alice);
+
+      expect(await contract.ownerOf(id1)).to.eq(signers.alice.address);
+      expect(await contract.ownerOf(id2)).to.eq(signers.bob.address);
+      expect((await contract.encryptedShapes(id3)).owner).to.eq(
+        signers.alice.address,
+      );
+    });
+
+    it("indexes shapes by owner", async function () {
+      await submitShape(contract, point(1, 1), signers.alice);
+      await submitShape(contract, point(2, 2), signers.bob);
+      await submitShape(contract, point(3, 3), signers.alice);
+
+      expect(await contract.getShapesByOwner(signers.alice)).to.deep.eq([
+        1n,
+        3n,
+      ]);
+      expect(await contract.getShapesByOwner(signers.bob)).to.deep.eq([2n]);
+      expect(await contract.getShapesByOwner(signers.deployer)).to.deep.eq([]);
+    });
+
+    it("lets the owner of either shape request a reveal", async function () {
+      const id1 = await submitShape(contract, point(4, 4), signers.alice);
+      const id2 = await submitShape(contract, point(4, 4), signers.bob);
+      await compute(id1, id2);
+
+      await expect(
+        contract.connect(signers.bob).requestResultDecryption(id1, id2),
+      ).to.emit(contract, "DecryptionRequested");
+    });
+  });
+
+  describe("result writes", function () {
+    // Result handles of (id1, id2), which alice may use as an owner of id1
+    async function existingResult() {
+      const id1 = await submitShape(contract, point(7, 8), signers.alice);
+      const id2 = await submitShape(contract, circle(5, 5, 10), signers.bob);
+      const id3 = await submitShape(contract, point(1, 1), signers.alice);
+      await compute(id1, id2);
+      const [hasIntersection, witnessPoint] =
+        await contract.getEncryptedIntersectionResult(id1, id2);
+      return {
+        id1,
+        id2,
+        id3,
+        hasIntersection,
+        witnessPoint: [...witnessPoint],
+      };
+    }
+
+    it("makes the deployer the owner", async function () {
+      expect(await contract.owner()).to.eq(signers.deployer.address);
+    });
+
+    it("emits IntersectionResultStored when computing a pair", async function () {
+      const id1 = await submitShape(contract, point(1, 1), signers.alice);
+      const id2 = await submitShape(contract, point(1, 1), signers.bob);
+      await approvePair(contract, id1, id2);
+
+      await expect(
+        contract
+          .connect(signers.alice)
+          .computeIntersection(id1, id2, WITNESS_STRATEGIES.Deterministic),
+      )
+        .to.emit(contract, "IntersectionResultStored")
+        .withArgs(pairKey(id1, id2), signers.alice.address);
+    });
+
+    it("stores results from an authorized computer", async function () {
+      const { id1, id3, hasIntersection, witnessPoint } =
+        await existingResult();
+      await expect(
+        contract
+          .connect(signers.deployer)
+          .setAuthorizedComputer(signers.alice, true),
+      )
+        .to.emit(contract, "AuthorizedComputerSet")
+        .withArgs(signers.alice.address, true);
+
+      await expect(
+        contract
+          .connect(signers.alice)
+          .storeIntersectionResult(id1, id3, hasIntersection, witnessPoint),
+      )
+        .to.emit(contract, "IntersectionResultStored")
+        .withArgs(pairKey(id1, id3), signers.alice.address);
+
+      const [stored] = await contract.getEncryptedIntersectionResult(id1, id3);
+      expect(stored).to.eq(hasIntersection);
+      expect(await contract.getWitnessStrategy(id1, id3)).to.eq(
+        WITNESS_STRATEGIES.External,
+      );
+    });
+
+    it("rejects writes from accounts that are not authorized", async function () {
+      const { id1, id3, hasIntersection, witnessPoint } =
+        await existingResult();
+
+      await expect(
+        contract
+          .connect(signers.alice)
+          .storeIntersectionResult(id1, id3, hasIntersection, witnessPoint),
+      ).to.be.revertedWith("Not authorized");
+    });
+
+    it("rejects writes once a computer is revoked", async function () {
+      const { id1, id3, hasIntersection, witnessPoint } =
+        await existingResult();
+      await contract.setAuthorizedComputer(signers.alice, true);
+      await contract.setAuthorizedComputer(signers.alice, false);
+
+      await expect(
+        contract
+          .connect(signers.alice)
+          .storeIntersectionResult(id1, id3, hasIntersection, witnessPoint),
+      ).to.be.revertedWith("Not authorized");
+    });
+
+    it("rejects handles the computer may not use", async function () {
+      const { id1, id3, hasIntersection, witnessPoint } =
+        await existingResult();
+      await contract.setAuthorizedComputer(signers.deployer, true);
+
+      await expect(
+        contract
+          .connect(signers.deployer)
+          .storeIntersectionResult(id1, id3, hasIntersection, witnessPoint),
+      ).to.be.revertedWith("Handle not allowed");
+    });
+
+    it("rejects overwriting a revealed result", async function () {
+      const { id1, id2, hasIntersection, witnessPoint } =
+        await existingResult();
+      await reveal(id1, id2);
+      await contract.setAuthorizedComputer(signers.alice, true);
+
+      await expect(
+        contract
+          .connect(signers.alice)
+          .storeIntersectionResult(id1, id2, hasIntersection, witnessPoint),
+      ).to.be.revertedWith("Already revealed");
+      await expect(
+        contract
+          .connect(signers.alice)
+          .computeIntersection(id1, id2, WITNESS_STRATEGIES.Deterministic),
+      ).to.be.revertedWith("Already revealed");
+    });
+
+    it("lets only the owner manage computers and ownership", async function () {
+      await expect(
+        contract
+          .connect(signers.alice)
+          .setAuthorizedComputer(signers.alice, true),
+      ).to.be.revertedWith("Not owner");
+      await expect(
+        contract.connect(signers.alice).transferOwnership(signers.alice),
+      ).to.be.revertedWith("Not owner");
+
+      await contract.transferOwnership(signers.bob);
+      expect(await contract.owner()).to.eq(signers.bob.address);
+      await expect(
+        contract.setAuthorizedComputer(signers.alice, true),
+      ).to.be.revertedWith("Not owner");
+    });
+  });
+
+  describe("encrypted input", function () {
+    const submitInput = (
+      signer: HardhatEthersSigner,
+      handles: string[],
+      inputProof: string,
+      shapeType: number,
+    ) =>
+      contract
+        .connect(signer)
+        .submitEncryptedShape(handles, inputProof, shapeType);
+
+    it("accepts a typed shape built with buildShapeInput", async function () {
+      const encrypted = await buildShapeInput(
+        fhevm,
+        contractAddress,
+        signers.alice.address,
+        { type: "Rectangle", min: { x: 1, y: 2 }, max: { x: 30, y: 40 } },
+      );
+      await (
+        await submitInput(
+          signers.alice,
+          encrypted.handles,
+          encrypted.inputProof,
+          encrypted.shapeType,
+        )
+      ).wait();
+
+      const [parameters, shapeType] = await contract.getEncryptedShape(1);
+      expect(shapeType).to.eq(2);
+      const clear = [];
+      for (const handle of parameters) {
+        clear.push(
+          await fhevm.userDecryptEuint(
+            FhevmType.euint32,
+            handle,
+            contractAddress,
+            signers.alice,
+          ),
+        );
+      }
+      expect(clear).to.deep.eq([1n, 2n, 30n, 40n]);
+    });
+
+    it("rejects an input proof issued to another account", async function () {
+      const encrypted = await buildShapeInput(
+        fhevm,
+        contractAddress,
+        signers.alice.address,
+        { type: "Point", x: 1, y: 2 },
+      );
+
+      await expect(
+        submitInput(
+          signers.bob,
+          encrypted.handles,
+          encrypted.inputProof,
+          encrypted.shapeType,
+        ),
+      ).to.be.reverted;
+    });
+
+    it("rejects handles that the input proof does not cover", async function () {
+      const shape = { type: "Point" as const, x: 1, y: 2 };
+      const first = await buildShapeInput(
+        fhevm,
+        contractAddress,
+        signers.alice.address,
+        shape,
+      );
+      const second = await buildShapeInput(
+        fhevm,
+        contractAddress,
+        signers.alice.address,
+        shape,
+      );
+
+      await expect(
+        submitInput(
+          signers.alice,
+          second.handles,
+          first.inputProof,
+          first.shapeType,
+        ),
+      ).to.be.reverted;
+    });
+
+    it("rejects the handles of another owner's shape", async function () {
+      const id = await submitShape(contract, point(1234, 5678), signers.alice);
+      const [handles, shapeType] = await contract.getEncryptedShape(id);
+      const own = await buildShapeInput(
+        fhevm,
+        contractAddress,
+        signers.bob.address,
+        { type: "Point", x: 1, y: 2 },
+      );
+
+      for (const inputProof of ["0x", own.inputProof]) {
+        await expect(
+          submitInput(signers.bob, [...handles], inputProof, Number(shapeType)),
+        ).to.be.reverted;
+      }
+      expect(await contract.shapeCount()).to.eq(id);
+    });
+  });
+
+  describe("shape types", function () {
+    it("lists every supported type with its parameter counts", async function () {
+      const [types, minParameterCounts, maxParameterCounts] =
+        await contract.getShapeTypes();
+      expect(types).to.deep.eq([0n, 1n, 2n, 3n, 4n, 5n]);
+      expect(minParameterCounts).to.deep.eq([2n, 3n, 4n, 6n, 4n, 4n]);
+      expect(maxParameterCounts).to.deep.eq([2n, 3n, 4n, 16n, 4n, 16n]);
+      expect(await readShapeTypes(contract)).to.deep.eq(
+        new Map([
+          [0, { min: 2, max: 2 }],
+          [1, { min: 3, max: 3 }],
+          [2, { min: 4, max: 4 }],
+          [3, { min: 6, max: 16 }],
+          [4, { min: 4, max: 4 }],
+          [5, { min: 4, max: 16 }],
+        ]),
+      );
+    });
+
+    it("takes its polygon vertex cap from the deployment", async function () {
+      ({ contract } = await deployFixture(IDENTITY_ENCODING, 4));
+      expect(await contract.maxPolygonVertices()).to.eq(4);
+      expect((await readShapeTypes(contract)).get(3)).to.deep.eq({
+        min: 6,
+        max: 8,
+      });
+
+      const factory = await geometricWitnessFactory();
+      await expect(factory.deploy(0, 1, 2)).to.be.revertedWith(
+        "Invalid vertex cap",
+      );
+      await expect(factory.deploy(0, 1, 9)).to.be.revertedWith(
+        "Invalid vertex cap",
+      );
+    });
+
+    it("rejects a type outside the registry", async function () {
+      await expect(
+        submitShape(
+          contract,
+          { shapeType: 6, parameters: [0, 0, 1, 1] },
+          signers.alice,
+        ),
+      )
+        .to.be.revertedWithCustomError(contract, "UnsupportedShapeType")
+        .withArgs(6);
+    });
+
+    it("rejects a parameter count that does not match the type", async function () {
+      await expect(
+        submitShape(
+          contract,
+          { shapeType: 1, parameters: [1, 2, 3, 4, 5, 6, 7] },
+          signers.alice,
+        ),
+      )
+        .to.be.revertedWithCustomError(contract, "InvalidParameterCount")
+        .withArgs(1, 7);
+      await expect(
+        contract.connect(signers.alice).submitEncryptedShape([], "0x", 0),
+      )
+        .to.be.revertedWithCustomError(contract, "InvalidParameterCount")
+        .withArgs(0, 0);
+    });
+
+    it("rejects polygons outside the vertex cap or with an odd parameter count", async function () {
+      for (const parameters of [
+        [0, 0, 1, 0],
+        [0, 0, 2, 0, 2, 2, 1],
+        Array.from({ length: 18 }, (_, i) => i),
+      ]) {
+        await expect(
+          submitShape(contract, { shapeType: 3, parameters }, signers.alice),
+        )
+          .to.be.revertedWithCustomError(contract, "InvalidParameterCount")
+          .withArgs(3, parameters.length);
+      }
+    });
+
+    it("rejects polylines outside the vertex limit or with an odd parameter count", async function () {
+      for (const parameters of [
+        [0, 0],
+        [0, 0, 2, 0, 2],
+        Array.from({ length: 18 }, (_, i) => i),
+      ]) {
+        await expect(
+          submitShape(contract, { shapeType: 5, parameters }, signers.alice),
+        )
+          .to.be.revertedWithCustomError(contract, "InvalidParameterCount")
+          .withArgs(5, parameters.length);
+      }
+    });
+  });
+
+  describe("coordinate encoding", function () {
+    async function submitEncoded(shape: Shape, signer: HardhatEthersSigner) {
+      const encrypted = await buildShapeInput(
+        fhevm,
+        contractAddress,
+        signer.address,
+        shape,
+        DEFAULT_ENCODING,
+      );
+      await (
+        await contract
+          .connect(signer)
+          .submitEncryptedShape(
+            encrypted.handles,
+            encrypted.inputProof,
+            encrypted.shapeType,
+          )
+      ).wait();
+      return contract.shapeCount();
+    }
+
+    beforeEach(async function () {
+      ({ contract, contractAddress } = await deployFixture(DEFAULT_ENCODING));
+    });
+
+    it("records the encoding it was deployed with", async function () {
+      const [offset, scale] = await contract.getCoordinateEncoding();
+      expect(offset).to.eq(DEFAULT_ENCODING.offset);
+      expect(scale).to.eq(DEFAULT_ENCODING.scale);
+    });
+
+    it("rejects a zero scale", async function () {
+      const factory = await geometricWitnessFactory();
+      await expect(factory.deploy(0, 0, 8)).to.be.revertedWith("Invalid scale");
+    });
+
+    it("round-trips real-valued coordinates through a reveal", async function () {
+      const id1 = await submitEncoded(
+        { type: "Point", x: -2.5, y: 3.25 },
+        signers.alice,
+      );
+      const id2 = await submitEncoded(
+        { type: "Circle", center: { x: -1, y: 1 }, radius: 4.5 },
+        signers.bob,
+      );
+      await compute(id1, id2);
+      await reveal(id1, id2);
+
+      const result = await contract.getDecryptedIntersectionResult(id1, id2);
+      expect(result.hasIntersection).to.eq(true);
+
+      const [offset, scale] = await contract.getCoordinateEncoding();
+      const witness = decodeWitness(result.witnessPoint.map(Number), {
+        offset: Number(offset),
+        scale: Number(scale),
+      });
+      expect(witness).to.deep.eq({ x: -2.5, y: 3.25 });
+    });
+
+    it("keeps negative shapes apart on the grid", async function () {
+      const id1 = await submitEncoded(
+        { type: "Point", x: -10, y: -10 },
+        signers.alice,
+      );
+      const id2 = await submitEncoded(
+        {
+          type: "Rectangle",
+          min: { x: -9.999, y: -20 },
+          max: { x: 0, y: 0 },
+        },
+        signers.bob,
+      );
+      await compute(id1, id2);
+      await reveal(id1, id2);
+
+      const result = await contract.getDecryptedIntersectionResult(id1, id2);
+      expect(result.hasIntersection).to.eq(false);
+    });
+  });
+
+  it("emits IntersectionComputed with the pair's result hash", async function () {
+    const id1 = await submitShape(contract, point(1, 1), signers.alice);
+    const id2 = await submitShape(contract, rect(0, 0, 2, 2), signers.bob);
+    await approvePair(contract, id1, id2);
+
+    await expect(
+      contract
+        .connect(signers.alice)
+        .computeIntersection(id1, id2, WITNESS_STRATEGIES.Deterministic),
+    )
+      .to.emit(contract, "IntersectionComputed")
+      .withArgs(pairKey(id1, id2));
+  });
+
+  it("reveals an intersecting result and its witness through the decryption oracle", async function () {
+    const id1 = await submitShape(contract, point(7, 8), signers.alice);
+    const id2 = await submitShape(contract, circle(5, 5, 10), signers.bob);
+    await compute(id1, id2);
+
+    const before = await contract.getDecryptedIntersectionResult(id1, id2);
+    expect(before.isRevealed).to.eq(false);
+
+    await reveal(id1, id2);
+
+    const result = await contract.getDecryptedIntersectionResult(id1, id2);
+    expect(result.isRevealed).to.eq(true);
+    expect(result.hasIntersection).to.eq(true);
+    expect(result.witnessPoint).to.deep.eq([7n, 8n]);
+  });
+
+  it("reveals a non-intersecting result", async function () {
+    const id1 = await submitShape(contract, rect(0, 0, 10, 10), signers.alice);
+    const id2 = await submitShape(contract, rect(20, 20, 30, 30), signers.bob);
+    await compute(id1, id2);
+
+    await expect(
+      contract.connect(signers.alice).requestResultDecryption(id1, id2),
+    ).to.not.be.reverted;
+    await fhevm.awaitDecryptionOracle();
+
+    const result = await contract.getDecryptedIntersectionResult(id1, id2);
+    expect(result.isRevealed).to.eq(true);
+    expect(result.hasIntersection).to.eq(false);
+  });
+
+  it("emits DecryptionRequested when a reveal is requested", async function () {
+    const id1 = await submitShape(contract, point(3, 3), signers.alice);
+    const id2 = await submitShape(contract, point(3, 3), signers.bob);
+    await compute(id1, id2);
+
+    await expect(
+      contract.connect(signers.alice).requestResultDecryption(id1, id2),
+    )
+      .to.emit(contract, "DecryptionRequested")
+      .withArgs(pairKey(id1, id2), anyUint);
+  });
+
+  it("emits ResultRevealed from the oracle callback", async function () {
+    const id1 = await submitShape(contract, point(3, 3), signers.alice);
+    const id2 = await submitShape(contract, point(3, 3), signers.bob);
+    await compute(id1, id2);
+
+    await (
+      await contract.connect(signers.alice).requestResultDecryption(id1, id2)
+    ).wait();
+    const filter = contract.filters.ResultRevealed(pairKey(id1, id2));
+    await fhevm.awaitDecryptionOracle();
+
+    expect(await contract.queryFilter(filter)).to.have.length(1);
+  });
+
+  it("drops a reveal requested before the pair was computed again", async function () {
+    const id1 = await submitShape(
+      contract,
+      rect(0, 0, 100, 100),
+      signers.alice,
+    );
+    const id2 = await submitShape(
+      contract,
+      rect(50, 50, 150, 150),
+      signers.bob,
+    );
+    await approvePair(contract, id1, id2);
+    const computeRandomized = async () =>
+      (
+        await contract
+          .connect(signers.alice)
+          .computeIntersection(id1, id2, WITNESS_STRATEGIES.Randomized)
+      ).wait();
+    await computeRandomized();
+
+    await (
+      await contract.connect(signers.alice).requestResultDecryption(id1, id2)
+    ).wait();
+    await computeRandomized();
+    await fhevm.awaitDecryptionOracle();
+
+    expect(
+      (await contract.getDecryptedIntersectionResult(id1, id2)).isRevealed,
+    ).to.eq(false);
+
+    // A reveal of the new result goes through and shows its own witness
+    const [, witnessPoint] = await contract.getEncryptedIntersectionResult(
+      id1,
+      id2,
+    );
+    const expected = await Promise.all(
+      witnessPoint.map((handle) =>
+        fhevm.debugger.decryptEuint(FhevmType.euint32, handle),
+      ),
+    );
+    await reveal(id1, id2);
+    const result = await contract.getDecryptedIntersectionResult(id1, id2);
+    expect(result.isRevealed).to.eq(true);
+    expect(result.witnessPoint).to.deep.eq(expected);
+  });
+
+  describe("user decryption", function () {
+    async function computePrivately(shapeId1: bigint, shapeId2: bigint) {
+      await compute(shapeId1, shapeId2);
+      const [hasIntersection, witnessPoint] =
+        await contract.getEncryptedIntersectionResult(shapeId1, shapeId2);
+      return { hasIntersection, witnessPoint: [...witnessPoint] };
+    }
+
+    it("lets both shape owners decrypt the result without revealing it", async function () {
+      const id1 = await submitShape(contract, point(7, 8), signers.alice);
+      const id2 = await submitShape(contract, circle(5, 5, 10), signers.bob);
+      const { hasIntersection, witnessPoint } = await computePrivately(
+        id1,
+        id2,
+      );
+
+      for (const owner of [signers.alice, signers.bob]) {
+        const result = await userDecryptResult(
+          fhevm,
+          contractAddress,
+          owner,
+          hasIntersection,
+          witnessPoint,
+        );
+        expect(result).to.deep.eq({
+          hasIntersection: true,
+          witnessPoint: [7, 8],
+        });
+      }
+
+      const published = await contract.getDecryptedIntersectionResult(id1, id2);
+      expect(published.isRevealed).to.eq(false);
+    });
+
+    it("decrypts a non-intersecting result for its owners", async function () {
+      const id1 = await submitShape(
+        contract,
+        rect(0, 0, 10, 10),
+        signers.alice,
+      );
+      const id2 = await submitShape(
+        contract,
+        rect(20, 20, 30, 30),
+        signers.bob,
+      );
+      const { hasIntersection, witnessPoint } = await computePrivately(
+        id1,
+        id2,
+      );
+
+      const result = await userDecryptResult(
+        fhevm,
+        contractAddress,
+        signers.bob,
+        hasIntersection,
+        witnessPoint,
+      );
+      expect(result.hasIntersection).to.eq(false);
+    });
+
+    it("refuses accounts that own neither shape", async function () {
+      const id1 = await submitShape(contract, point(3, 3), signers.alice);
+      const id2 = await submitShape(contract, point(3, 3), signers.bob);
+      const { hasIntersection, witnessPoint } = await computePrivately(
+        id1,
+        id2,
+      );
+
+      await expect(
+        userDecryptResult(
+          fhevm,
+          contractAddress,
+          signers.deployer,
+          hasIntersection,
+          witnessPoint,
+        ),
+      ).to.be.rejected;
+    });
+  });
+
+  describe("witness verification", function () {
+    it("tells a third party whether a point lies in each kind of shape", async function () {
+      const cases: [PlainShape, { x: number; y: number }, boolean][] = [
+        [point(4, 4), { x: 4, y: 4 }, true],
+        [point(4, 4), { x: 4, y: 5 }, false],
+        [circle(10, 10, 5), { x: 13, y: 14 }, true],
+        [circle(10, 10, 5), { x: 14, y: 14 }, false],
+        [rect(0, 0, 10, 10), { x: 10, y: 0 }, true],
+        [rect(0, 0, 10, 10), { x: 11, y: 5 }, false],
+        [polygon([0, 0], [10, 0], [0, 10]), { x: 5, y: 5 }, true],
+        [polygon([0, 0], [10, 0], [0, 10]), { x: 6, y: 5 }, false],
+        [segment(0, 0, 10, 5), { x: 4, y: 2 }, true],
+        [segment(0, 0, 10, 5), { x: 5, y: 2 }, false],
+        [polyline([0, 0], [10, 0], [10, 10]), { x: 10, y: 7 }, true],
+        [polyline([0, 0], [10, 0], [10, 10]), { x: 7, y: 7 }, false],
+      ];
+
+      for (const [shape, candidate, expected] of cases) {
+        const id = await submitShape(contract, shape, signers.alice);
+        await approveVerifier(contract, id, signers.bob);
+        const inside = await verifyWitness(
+          fhevm,
+          contract,
+          signers.bob,
+          id,
+          candidate,
+        );
+        expect(
+          inside,
+          `${JSON.stringify(candidate)} in ${shape.parameters}`,
+        ).to.eq(expected);
+      }
+    });
+
+    it("encodes the point with the deployment's coordinate encoding", async function () {
+      ({ contract, contractAddress } = await deployFixture(DEFAULT_ENCODING));
+      const { offset } = DEFAULT_ENCODING;
+      const id = await submitShape(
+        contract,
+        circle(offset, offset, 2000),
+        signers.alice,
+      );
+      await approveVerifier(contract, id, signers.bob);
+
+      expect(
+        await verifyWitness(
+          fhevm,
+          contract,
+          signers.bob,
+          id,
+          { x: 1.5, y: -1 },
+          DEFAULT_ENCODING,
+        ),
+      ).to.eq(true);
+      expect(
+        await verifyWitness(
+          fhevm,
+          contract,
+          signers.bob,
+          id,
+          { x: 2, y: 1 },
+          DEFAULT_ENCODING,
+        ),
+      ).to.eq(false);
+    });
+
+    it("grants the answer to the caller only", async function () {
+      const id = await submitShape(contract, point(1, 1), signers.alice);
+      await approveVerifier(contract, id, signers.bob);
+      const encrypted = await encryptShape(
+        fhevm,
+        contractAddress,
+        signers.bob.address,
+        point(1, 1),
+      );
+      const tx = await contract
+        .connect(signers.bob)
+        .verifyWitness(id, encrypted.handles, encrypted.inputProof);
+      const receipt = await tx.wait();
+
+      const [event] = await contract.queryFilter(
+        contract.filters.WitnessVerified(id, signers.bob.address),
+        receipt!.blockNumber,
+      );
+      const inside = event.args.inside;
+      expect(
+        await userDecryptHandles(fhevm, contractAddress, signers.bob, [inside]),
+      ).to.deep.eq({ [inside]: true });
+      await expect(
+        userDecryptHandles(fhevm, contractAddress, signers.alice, [inside]),
+      ).to.be.rejected;
+    });
+
+    it("reverts for an unknown shape or a point without two coordinates", async function () {
+      const id = await submitShape(contract, point(1, 1), signers.alice);
+      const encrypted = await encryptShape(
+        fhevm,
+        contractAddress,
+        signers.bob.address,
+        circle(1, 1, 1),
+      );
+
+      await expect(
+        contract
+          .connect(signers.bob)
+          .verifyWitness(
+            42,
+            encrypted.handles.slice(0, 2),
+            encrypted.inputProof,
+          ),
+      ).to.be.revertedWith("Shape not found");
+      await expect(
+        contract
+          .connect(signers.bob)
+          .verifyWitness(id, encrypted.handles, encrypted.inputProof),
+      ).to.be.revertedWith("Invalid point");
+    });
+  });
+
+  describe("reverts", function () {
+    it("with Shape not found when computing against an unknown shape", async function () {
+      const id = await submitShape(contract, point(1, 1), signers.alice);
+
+      await expect(
+        contract
+          .connect(signers.alice)
+          .computeIntersection(id, 42, WITNESS_STRATEGIES.Deterministic),
+      ).to.be.revertedWith("Shape not found");
+      await expect(
+        contract
+          .connect(signers.alice)
+          .computeIntersection(42, id, WITNESS_STRATEGIES.Deterministic),
+      ).to.be.revertedWith("Shape not found");
+    });
+
+    it("with Shape not found when reading an unknown shape", async function () {
+      await expect(contract.getEncryptedShape(1)).to.be.revertedWith(
+        "Shape not found",
+      );
+      await expect(contract.ownerOf(1)).to.be.revertedWith("Shape not found");
+    });
+
+    it("with Not shape owner when a third party computes a pair", async function () {
+      const id1 = await submitShape(contract, point(1, 1), signers.alice);
+      const id2 = await submitShape(contract, point(1, 1), signers.bob);
+
+      await expect(
+        contract
+          .connect(signers.deployer)
+          .computeIntersection(id1, id2, WITNESS_STRATEGIES.Deterministic),
+      ).to.be.revertedWith("Not shape owner");
+    });
+
+    it("with Not shape owner when a third party requests a reveal", async function () {
+      const id1 = await submitShape(contract, point(1, 1), signers.alice);
+      const id2 = await submitShape(contract, point(1, 1), signers.bob);
+      await compute(id1, id2);
+
+      await expect(
+        contract.connect(signers.deployer).requestResultDecryption(id1, id2),
+      ).to.be.revertedWith("Not shape owner");
+    });
+
+    it("with Result not computed before computeIntersection ran", async function () {
+      const id1 = await submitShape(contract, point(1, 1), signers.alice);
+      const id2 = await submitShape(contract, point(1, 1), signers.bob);
+
+      await expect(
+        contract.connect(signers.alice).requestResultDecryption(id1, id2),
+      ).to.be.revertedWith("Result not computed");
+      await expect(
+        contract.getEncryptedIntersectionResult(id1, id2),
+      ).to.be.revertedWith("Result not computed");
+    });
+
+    it("with Already revealed when requesting decryption twice", async function () {
+      const id1 = await submitShape(contract, point(1, 1), signers.alice);
+      const id2 = await submitShape(contract, point(2, 2), signers.bob);
+      await compute(id1, id2);
+      await reveal(id1, id2);
+
+      await expect(
+        contract.connect(signers.alice).requestResultDecryption(id1, id2),
+      ).to.be.revertedWith("Already revealed");
+    });
+
+    it("with Invalid request for a callback on an unknown request id", async function () {
+      await expect(
+        contract.decryptIntersectionResult(12345, "0x", "0x"),
+      ).to.be.revertedWith("Invalid request");
+    });
+  });
+});
@@ -0,0 +1,331 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import {
+  UNLIMITED_QUERIES,
+  readQueryBudget,
+  readRemainingQueries,
+} from "../frontend/web/src/budget";
+import { verifyWitness } from "../frontend/web/src/verification";
+import { WITNESS_STRATEGIES } from "../frontend/web/src/witnessStrategy";
+import { GeometricWitness } from "../types";
+import {
+  approvePair,
+  approveVerifier,
+  circle,
+  deployFixture,
+  point,
+  rect,
+  submitShape,
+} from "./helpers";
+
+const HOUR = 60 * 60;
+const DAY = 24 * HOUR;
+
+describe("GeometricWitness query budgets", function () {
+  let accounts: HardhatEthersSigner[];
+  let contract: GeometricWitness;
+
+  // Submits a point for `signer`, has the pair approved and checks it against the shape
+  async function computeAgainst(
+    shapeId: bigint,
+    signer: HardhatEthersSigner,
+    x = 1,
+    y = 1,
+  ) {
+    const probeId = await submitShape(contract, point(x, y), signer);
+    await approvePair(contract, probeId, shapeId);
+    return contract
+      .connect(signer)
+      .computeIntersection(probeId, shapeId, WITNESS_STRATEGIES.Deterministic);
+  }
+
+  before(async function () {
+    accounts = await ethers.getSigners();
+  });
+
+  beforeEach(async function () {
+    // Check whether the tests are running against an FHEVM mock environment
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+
+    ({ contract } = await deployFixture());
+    // Windows are aligned to multiples of their length. Starting each scenario at the start of a day, and so of an
+    // hour, keeps its queries in one window however long it runs.
+    await time.increaseTo((Math.floor((await time.latest()) / DAY) + 1) * DAY);
+  });
+
+  it("leaves a shape unlimited until its owner sets a budget", async function () {
+    const [, alice, bob] = accounts;
+    const shapeId = await submitShape(contract, circle(10, 10, 5), bob);
+
+    expect(await readQueryBudget(contract, shapeId)).to.eq(undefined);
+    expect(
+      await readRemainingQueries(contract, shapeId, alice.address),
+    ).to.deep.eq({
+      remaining: UNLIMITED_QUERIES,
+      remainingForCounterparty: UNLIMITED_QUERIES,
+      windowEnd: undefined,
+    });
+    for (let i = 0; i < 3; i++) {
+      await (await computeAgainst(shapeId, alice)).wait();
+    }
+  });
+
+  it("counts computations against the shape and each counterparty", async function () {
+    const [deployer, alice, bob, carol] = accounts;
+    const shapeId = await submitShape(contract, circle(10, 10, 5), bob);
+    await expect(contract.connect(bob).setQueryBudget(shapeId, 3, 2, HOUR))
+      .to.emit(contract, "QueryBudgetSet")
+      .withArgs(shapeId, 3, 2, HOUR);
+    expect(await readQueryBudget(contract, shapeId)).to.deep.eq({
+      maxQueries: 3,
+      maxPerCounterparty: 2,
+      windowSeconds: HOUR,
+    });
+
+    await (await computeAgainst(shapeId, alice)).wait();
+    await (await computeAgainst(shapeId, alice)).wait();
+    await expect(computeAgainst(shapeId, alice)).to.be.revertedWith(
+      "Query budget exceeded",
+    );
+    const windowEnd = (Math.floor((await time.latest()) / HOUR) + 1) * HOUR;
+    expect(
+      await readRemainingQueries(contract, shapeId, alice.address),
+    ).to.deep.eq({ remaining: 1, remainingForCounterparty: 0, windowEnd });
+
+    await (await computeAgainst(shapeId, carol)).wait();
+    expect(
+      await readRemainingQueries(contract, shapeId, deployer.address),
+    ).to.deep.eq({ remaining: 0, remainingForCounterparty: 0, windowEnd });
+    await expect(computeAgainst(shapeId, deployer)).to.be.revertedWith(
+      "Query budget exceeded",
+    );
+  });
+
+  it("counts witness checks by their caller", async function () {
+    const [, alice, bob] = accounts;
+    const shapeId = await submitShape(contract, rect(0, 0, 10, 10), bob);
+    await (
+      await contract.connect(bob).setQueryBudget(shapeId, 5, 1, HOUR)
+    ).wait();
+    await approveVerifier(contract, shapeId, alice);
+
+    expect(
+      await verifyWitness(fhevm, contract, alice, shapeId, { x: 5, y: 5 }),
+    ).to.eq(true);
+    await expect(
+      verifyWitness(fhevm, contract, alice, shapeId, { x: 6, y: 6 }),
+    ).to.be.revertedWith("Query budget exceeded");
+  });
+
+  it("counts witness checks together with computations once approved", async function () {
+    const [, alice, bob, carol] = accounts;
+    const shapeId = await submitShape(contract, rect(0, 0, 10, 10), bob);
+    await (
+      await contract.connect(bob).setQueryBudget(shapeId, 2, 2, HOUR)
+    ).wait();
+
+    // A check the owner never approved is refused before it can spend the budget
+    await expect(
+      verifyWitness(fhevm, contract, carol, shapeId, { x: 5, y: 5 }),
+    ).to.be.revertedWith("Verification not approved");
+    expect(
+      await readRemainingQueries(contract, shapeId, carol.address),
+    ).to.deep.include({ remaining: 2, remainingForCounterparty: 2 });
+
+    await approveVerifier(contract, shapeId, alice);
+    expect(
+      await verifyWitness(fhevm, contract, alice, shapeId, { x: 5, y: 5 }),
+    ).to.eq(true);
+    await (await computeAgainst(shapeId, alice)).wait();
+    await expect(
+      verifyWitness(fhevm, contract, alice, shapeId, { x: 6, y: 6 }),
+    ).to.be.revertedWith("Query budget exceeded");
+  });
+
+  it("keeps a copy of a shape from escaping or running up its budget", async function () {
+    const [, alice, bob] = accounts;
+    const shapeId = await submitShape(contract, circle(10, 10, 5), bob);
+    await (
+      await contract.connect(bob).setQueryBudget(shapeId, 2, 1, HOUR)
+    ).wait();
+    const [handles, shapeType] = await contract.getEncryptedShape(shapeId);
+
+    // The shape's handles carry no input proof for anyone else, so they cannot be registered again
+    await expect(
+      contract
+        .connect(alice)
+        .submitEncryptedShape([...handles], "0x", shapeType),
+    ).to.be.reverted;
+    expect(await contract.shapeCount()).to.eq(shapeId);
+    expect(
+      await readRemainingQueries(contract, shapeId, alice.address),
+    ).to.deep.include({ remaining: 2, remainingForCounterparty: 1 });
+
+    await (await computeAgainst(shapeId, alice)).wait();
+    await expect(computeAgainst(shapeId, alice)).to.be.revertedWith(
+      "Query budget exceeded",
+    );
+  });
+
+  it("refills the budget when its window ends", async function () {
+    const [, alice, bob] = accounts;
+    const shapeId = await submitShape(contract, circle(10, 10, 5), bob);
+    await (
+      await contract.connect(bob).setQueryBudget(shapeId, 1, 1, HOUR)
+    ).wait();
+    await (await computeAgainst(shapeId, alice)).wait();
+
+    const { windowEnd } = await readRemainingQueries(
+      contract,
+      shapeId,
+      alice.address,
+    );
+    await time.increaseTo(windowEnd!);
+    expect(
+      await readRemainingQueries(contract, shapeId, alice.address),
+    ).to.deep.include({ remaining: 1, remainingForCounterparty: 1 });
+    await (await computeAgainst(shapeId, alice)).wait();
+  });
+
+  it("does not count the owner's own queries", async function () {
+    const [, , bob] = accounts;
+    const shapeId = await submitShape(contract, circle(10, 10, 5), bob);
+    await (
+      await contract.connect(bob).setQueryBudget(shapeId, 0, 0, HOUR)
+    ).wait();
+
+    await (await computeAgainst(shapeId, bob)).wait();
+    expect(
+      await verifyWitness(fhevm, contract, bob, shapeId, { x: 10, y: 10 }),
+    ).to.eq(true);
+  });
+
+  it("lifts the budget when the owner sets a zero window", async function () {
+    const [, alice, bob] = accounts;
+    const shapeId = await submitShape(contract, circle(10, 10, 5), bob);
+    await (
+      await contract.connect(bob).setQueryBudget(shapeId, 0, 0, HOUR)
+    ).wait();
+    await expect(computeAgainst(shapeId, alice)).to.be.revertedWith(
+      "Query budget exceeded",
+    );
+
+    await (await contract.connect(bob).setQueryBudget(shapeId, 0, 0, 0)).wait();
+    expect(await readQueryBudget(contract, shapeId)).to.eq(undefined);
+    await (await computeAgainst(shapeId, alice)).wait();
+  });
+
+  describe("reverts", function () {
+    it("with Not shape owner when anyone else sets a budget", async function () {
+      const [, alice, bob] = accounts;
+      const shapeId = await submitShape(contract, circle(10, 10, 5), bob);
+
+      await expect(
+        contract.connect(alice).setQueryBudget(shapeId, 100, 100, HOUR),
+      ).to.be.revertedWith("Not shape owner");
+    });
+
+    it("with Invalid budget when the counterparty limit exceeds the overall one", async function () {
+      const [, , bob] = accounts;
+      const shapeId = await submitShape(contract, circle(10, 10, 5), bob);
+
+      await expect(
+        contract.connect(bob).setQueryBudget(shapeId, 2, 3, HOUR),
+      ).to.be.revertedWith("Invalid budget");
+    });
+  });
+
+  // An attacker who knows one point of a victim's circle binary-searches along a row for the circle's edge, checking
+  // one point shape per query. The victim approves every request, so only the budget stands in the way.
+  describe("binary-search probe", function () {
+    const centre = { x: 600, y: 400 };
+    const radius = 137;
+    const searchEnd = 1024;
+
+    let victimShape: bigint;
+
+    // Searches (centre.x, searchEnd] for the last x inside the circle, spreading queries over the attackers in turn
+    // and stopping at the first refused one. Returns the interval the edge is still known to lie in, and why the
+    // search stopped early if it did.
+    async function probeEdge(attackers: HardhatEthersSigner[]) {
+      let inside = centre.x;
+      let outside = searchEnd;
+      let queries = 0;
+      while (outside - inside > 1) {
+        const x = Math.floor((inside + outside) / 2);
+        const attacker = attackers[queries % attackers.length];
+        try {
+          await (
+            await computeAgainst(victimShape, attacker, x, centre.y)
+          ).wait();
+        } catch (e) {
+          return { inside, outside, queries, refusal: (e as Error).message };
+        }
+        queries++;
+
+        const [hasIntersection] = await contract.getEncryptedIntersectionResult(
+          victimShape,
+          await contract.shapeCount(),
+        );
+        if (await fhevm.debugger.decryptEbool(hasIntersection)) {
+          inside = x;
+        } else {
+          outside = x;
+        }
+      }
+      return { inside, outside, queries, refusal: undefined };
+    }
+
+    beforeEach(async function () {
+      victimShape = await submitShape(
+        contract,
+        circle(centre.x, centre.y, radius),
+        accounts[2],
+      );
+    });
+
+    it("recovers the radius exactly without a budget", async function () {
+      const probe = await probeEdge([accounts[1]]);
+
+      expect(probe.refusal).to.eq(undefined);
+      expect(probe.inside - centre.x).to.eq(radius);
+      expect(probe.queries).to.be.at.most(
+        Math.ceil(Math.log2(searchEnd - centre.x)),
+      );
+    });
+
+    it("is stopped by the per-counterparty limit", async function () {
+      await (
+        await contract
+          .connect(accounts[2])
+          .setQueryBudget(victimShape, 10, 3, DAY)
+      ).wait();
+
+      const probe = await probeEdge([accounts[1]]);
+
+      expect(probe.refusal).to.include("Query budget exceeded");
+      expect(probe.queries).to.eq(3);
+      expect(probe.outside - probe.inside).to.be.greaterThan(40);
+    });
+
+    it("is stopped by the overall limit when spread over several accounts", async function () {
+      await (
+        await contract
+          .connect(accounts[2])
+          .setQueryBudget(victimShape, 5, 3, DAY)
+      ).wait();
+
+      const attackers = [accounts[1], accounts[3], accounts[4], accounts[5]];
+      const probe = await probeEdge(attackers);
+
+      expect(probe.refusal).to.include("Query budget exceeded");
+      expect(probe.queries).to.eq(5);
+      expect(probe.outside - probe.inside).to.be.greaterThan(10);
+    });
+  });
+});
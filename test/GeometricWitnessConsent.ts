@@ -0,0 +1,351 @@
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { fhevm } from "hardhat";
+import {
+  CONSENT_PERIOD_SECONDS,
+  readComputationRequest,
+} from "../frontend/web/src/consent";
+import { verifyWitness } from "../frontend/web/src/verification";
+import { WITNESS_STRATEGIES } from "../frontend/web/src/witnessStrategy";
+import { GeometricWitness } from "../types";
+import {
+  Signers,
+  circle,
+  deployFixture,
+  getSigners,
+  point,
+  rect,
+  submitShape,
+} from "./helpers";
+
+describe("GeometricWitness consent", function () {
+  let signers: Signers;
+  let contract: GeometricWitness;
+  let aliceShape: bigint;
+  let bobShape: bigint;
+
+  // Has alice ask bob to check her shape against his, returning the request id
+  async function requestCheck() {
+    await (
+      await contract
+        .connect(signers.alice)
+        .requestComputation(aliceShape, bobShape)
+    ).wait();
+    return contract.computationRequestCount();
+  }
+
+  function compute(signer = signers.alice) {
+    return contract
+      .connect(signer)
+      .computeIntersection(
+        aliceShape,
+        bobShape,
+        WITNESS_STRATEGIES.Deterministic,
+      );
+  }
+
+  before(async function () {
+    signers = await getSigners();
+  });
+
+  beforeEach(async function () {
+    // Check whether the tests are running against an FHEVM mock environment
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+
+    ({ contract } = await deployFixture());
+    aliceShape = await submitShape(contract, point(7, 8), signers.alice);
+    bobShape = await submitShape(contract, circle(5, 5, 10), signers.bob);
+  });
+
+  it("records a request for the owner of the target shape to decide", async function () {
+    await expect(
+      contract.connect(signers.alice).requestComputation(aliceShape, bobShape),
+    )
+      .to.emit(contract, "ComputationRequested")
+      .withArgs(1, bobShape, signers.alice.address);
+
+    expect(await readComputationRequest(contract, 1)).to.deep.eq({
+      id: 1,
+      requester: signers.alice.address,
+      shapeId: Number(aliceShape),
+      targetShapeId: Number(bobShape),
+      state: "pending",
+      expiresAt: undefined,
+    });
+  });
+
+  it("refuses to compute shapes of two owners before an approval", async function () {
+    await expect(compute()).to.be.revertedWith("Computation not approved");
+    await requestCheck();
+    await expect(compute()).to.be.revertedWith("Computation not approved");
+  });
+
+  it("lets either owner compute the pair once its target's owner approves", async function () {
+    const requestId = await requestCheck();
+
+    const tx = await contract
+      .connect(signers.bob)
+      .approveComputation(requestId);
+    await tx.wait();
+    const expiresAt = (await time.latest()) + CONSENT_PERIOD_SECONDS;
+    await expect(tx)
+      .to.emit(contract, "ComputationApproved")
+      .withArgs(requestId, expiresAt);
+    expect(await readComputationRequest(contract, requestId)).to.include({
+      state: "approved",
+      expiresAt,
+    });
+    expect(
+      await contract.approvalExpiries(
+        await contract.pairKey(bobShape, aliceShape),
+      ),
+    ).to.eq(expiresAt);
+
+    await expect(compute()).to.emit(contract, "IntersectionComputed");
+    await expect(compute(signers.bob)).to.emit(
+      contract,
+      "IntersectionComputed",
+    );
+  });
+
+  it("keeps the pair closed after a rejection", async function () {
+    const requestId = await requestCheck();
+
+    await expect(contract.connect(signers.bob).rejectComputation(requestId))
+      .to.emit(contract, "ComputationRejected")
+      .withArgs(requestId);
+    expect((await readComputationRequest(contract, requestId)).state).to.eq(
+      "rejected",
+    );
+    await expect(compute()).to.be.revertedWith("Computation not approved");
+  });
+
+  it("lets an approval expire after the consent period", async function () {
+    const requestId = await requestCheck();
+    await (
+      await contract.connect(signers.bob).approveComputation(requestId)
+    ).wait();
+
+    await time.increase(CONSENT_PERIOD_SECONDS + 1);
+    await expect(compute()).to.be.revertedWith("Computation not approved");
+    expect(
+      (await readComputationRequest(contract, requestId, await time.latest()))
+        .state,
+    ).to.eq("expired");
+
+    // A fresh approval opens the pair again
+    const renewal = await requestCheck();
+    await (
+      await contract.connect(signers.bob).approveComputation(renewal)
+    ).wait();
+    await expect(compute()).to.emit(contract, "IntersectionComputed");
+  });
+
+  it("needs no consent between shapes of one owner", async function () {
+    const otherShape = await submitShape(
+      contract,
+      rect(0, 0, 10, 10),
+      signers.alice,
+    );
+
+    await expect(
+      contract
+        .connect(signers.alice)
+        .computeIntersection(
+          aliceShape,
+          otherShape,
+          WITNESS_STRATEGIES.Deterministic,
+        ),
+    ).to.emit(contract, "IntersectionComputed");
+    await expect(
+      contract
+        .connect(signers.alice)
+        .requestComputation(aliceShape, otherShape),
+    ).to.be.revertedWith("Consent not needed");
+    await expect(
+      contract.connect(signers.alice).requestVerification(otherShape),
+    ).to.be.revertedWith("Consent not needed");
+  });
+
+  it("keeps an outsider's shape from probing a pair approved for others", async function () {
+    const requestId = await requestCheck();
+    await (
+      await contract.connect(signers.bob).approveComputation(requestId)
+    ).wait();
+    const probe = await submitShape(contract, point(5, 5), signers.deployer);
+
+    await expect(
+      contract
+        .connect(signers.deployer)
+        .computeIntersection(probe, bobShape, WITNESS_STRATEGIES.Deterministic),
+    ).to.be.revertedWith("Computation not approved");
+  });
+
+  it("refuses witness checks against another owner's shape before an approval", async function () {
+    const check = () =>
+      verifyWitness(fhevm, contract, signers.alice, bobShape, { x: 5, y: 5 });
+
+    await expect(check()).to.be.revertedWith("Verification not approved");
+    await (
+      await contract.connect(signers.alice).requestVerification(bobShape)
+    ).wait();
+    await expect(check()).to.be.revertedWith("Verification not approved");
+
+    // The owner checks points against its own shape freely
+    expect(
+      await verifyWitness(fhevm, contract, signers.bob, bobShape, {
+        x: 5,
+        y: 5,
+      }),
+    ).to.eq(true);
+  });
+
+  it("keeps the owners of an approved pair from checking points against each other's shape", async function () {
+    const requestId = await requestCheck();
+    await (
+      await contract.connect(signers.bob).approveComputation(requestId)
+    ).wait();
+
+    await expect(
+      verifyWitness(fhevm, contract, signers.alice, bobShape, { x: 5, y: 5 }),
+    ).to.be.revertedWith("Verification not approved");
+    await expect(
+      verifyWitness(fhevm, contract, signers.bob, aliceShape, { x: 7, y: 8 }),
+    ).to.be.revertedWith("Verification not approved");
+    expect(await contract.verificationExpiries(bobShape, signers.alice)).to.eq(
+      0,
+    );
+  });
+
+  it("lets an account check points against a shape once its owner approves them", async function () {
+    await (
+      await contract.connect(signers.alice).requestVerification(bobShape)
+    ).wait();
+    const requestId = await contract.computationRequestCount();
+    const request = await readComputationRequest(contract, requestId);
+    expect(request.shapeId).to.eq(0);
+    expect(request.targetShapeId).to.eq(Number(bobShape));
+
+    await (
+      await contract.connect(signers.bob).approveComputation(requestId)
+    ).wait();
+    const { expiresAt } = await contract.computationRequests(requestId);
+    expect(await contract.verificationExpiries(bobShape, signers.alice)).to.eq(
+      expiresAt,
+    );
+
+    expect(
+      await verifyWitness(fhevm, contract, signers.alice, bobShape, {
+        x: 5,
+        y: 5,
+      }),
+    ).to.eq(true);
+    expect(
+      await verifyWitness(fhevm, contract, signers.alice, bobShape, {
+        x: 20,
+        y: 20,
+      }),
+    ).to.eq(false);
+    // Neither the pair nor the other direction comes with it
+    await expect(compute()).to.be.revertedWith("Computation not approved");
+    await expect(
+      verifyWitness(fhevm, contract, signers.bob, aliceShape, { x: 7, y: 8 }),
+    ).to.be.revertedWith("Verification not approved");
+    await expect(
+      verifyWitness(fhevm, contract, signers.deployer, bobShape, {
+        x: 5,
+        y: 5,
+      }),
+    ).to.be.revertedWith("Verification not approved");
+
+    await time.increase(CONSENT_PERIOD_SECONDS + 1);
+    await expect(
+      verifyWitness(fhevm, contract, signers.alice, bobShape, { x: 5, y: 5 }),
+    ).to.be.revertedWith("Verification not approved");
+  });
+
+  it("keeps an outsider from copying a shape to skip its owner's approval", async function () {
+    const [handles, shapeType] = await contract.getEncryptedShape(bobShape);
+
+    // Only submissions with an input proof remain, and bob's handles carry none for the outsider
+    expect(
+      contract.interface.hasFunction("submitEncryptedShape(bytes32[],uint8)"),
+    ).to.eq(false);
+    await expect(
+      contract
+        .connect(signers.deployer)
+        .submitEncryptedShape([...handles], "0x", shapeType),
+    ).to.be.reverted;
+    expect(await contract.shapeCount()).to.eq(bobShape);
+    await expect(
+      verifyWitness(fhevm, contract, signers.deployer, bobShape, {
+        x: 5,
+        y: 5,
+      }),
+    ).to.be.revertedWith("Verification not approved");
+  });
+
+  describe("reverts", function () {
+    it("with Request not found for an unknown request", async function () {
+      await expect(
+        contract.connect(signers.bob).approveComputation(1),
+      ).to.be.revertedWith("Request not found");
+      await expect(
+        contract.connect(signers.bob).rejectComputation(1),
+      ).to.be.revertedWith("Request not found");
+    });
+
+    it("with Not shape owner when anyone but the target's owner decides", async function () {
+      const requestId = await requestCheck();
+
+      for (const signer of [signers.alice, signers.deployer]) {
+        await expect(
+          contract.connect(signer).approveComputation(requestId),
+        ).to.be.revertedWith("Not shape owner");
+        await expect(
+          contract.connect(signer).rejectComputation(requestId),
+        ).to.be.revertedWith("Not shape owner");
+      }
+    });
+
+    it("with Not shape owner when requesting with another's shape", async function () {
+      await expect(
+        contract
+          .connect(signers.deployer)
+          .requestComputation(aliceShape, bobShape),
+      ).to.be.revertedWith("Not shape owner");
+    });
+
+    it("with Shape not found for an unknown target", async function () {
+      await expect(
+        contract.connect(signers.alice).requestComputation(aliceShape, 42),
+      ).to.be.revertedWith("Shape not found");
+      await expect(
+        contract.connect(signers.alice).requestVerification(42),
+      ).to.be.revertedWith("Shape not found");
+    });
+
+    it("with Request not pending once a request was decided", async function () {
+      const approved = await requestCheck();
+      await (
+        await contract.connect(signers.bob).approveComputation(approved)
+      ).wait();
+      const rejected = await requestCheck();
+      await (
+        await contract.connect(signers.bob).rejectComputation(rejected)
+      ).wait();
+
+      for (const requestId of [approved, rejected]) {
+        await expect(
+          contract.connect(signers.bob).approveComputation(requestId),
+        ).to.be.revertedWith("Request not pending");
+        await expect(
+          contract.connect(signers.bob).rejectComputation(requestId),
+        ).to.be.revertedWith("Request not pending");
+      }
+    });
+  });
+});
@@ -0,0 +1,959 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { fhevm } from "hardhat";
+import {
+  MAX_POLYLINE_VERTICES,
+  SAFE_COORDINATE_MAX,
+  SAFE_POLYGON_COORDINATE_MAX,
+  SAFE_RADIUS_MAX,
+} from "../frontend/web/src/geometry";
+import {
+  WITNESS_STRATEGIES,
+  WitnessStrategy,
+} from "../frontend/web/src/witnessStrategy";
+import { GeometricWitness } from "../types";
+import {
+  PlainShape,
+  Signers,
+  approvePair,
+  circle,
+  deployFixture,
+  getSigners,
+  point,
+  polygon,
+  polyline,
+  rect,
+  segment,
+  submitShape,
+} from "./helpers";
+
+const clamp = (v: bigint, lo: bigint, hi: bigint) =>
+  v < lo ? lo : v > hi ? hi : v;
+const distSq = (x1: bigint, y1: bigint, x2: bigint, y2: bigint) =>
+  (x1 - x2) ** 2n + (y1 - y2) ** 2n;
+
+// Cross product of (a - o) and (p - o): positive when p lies left of the line from o to a
+const cross = (o: bigint[], a: bigint[], p: bigint[]) =>
+  (a[0] - o[0]) * (p[1] - o[1]) - (a[1] - o[1]) * (p[0] - o[0]);
+const vertices = (q: bigint[]) =>
+  Array.from({ length: q.length / 2 }, (_, i) => [q[2 * i], q[2 * i + 1]]);
+const insidePolygon = (q: bigint[], p: bigint[]) =>
+  vertices(q).every((v, i, vs) => cross(v, vs[(i + 1) % vs.length], p) >= 0n);
+// Some edge of the first polygon has every vertex of the second strictly outside it
+const separates = (a: bigint[], b: bigint[]) =>
+  vertices(a).some((v, i, vs) =>
+    vertices(b).every((p) => cross(v, vs[(i + 1) % vs.length], p) < 0n),
+  );
+
+const isPath = (shape: PlainShape) => shape.shapeType >= 4;
+const segmentsOf = (q: bigint[]) =>
+  vertices(q)
+    .slice(1)
+    .map((v, i) => [vertices(q)[i], v]);
+const inBox = (a: bigint[], b: bigint[], p: bigint[]) =>
+  [0, 1].every(
+    (k) =>
+      p[k] >= (a[k] < b[k] ? a[k] : b[k]) &&
+      p[k] <= (a[k] > b[k] ? a[k] : b[k]),
+  );
+const onSegment = (a: bigint[], b: bigint[], p: bigint[]) =>
+  cross(a, b, p) === 0n && inBox(a, b, p);
+// Segments AB and CD share a point, by the orientation test
+const segmentsMeet = (a: bigint[], b: bigint[], c: bigint[], d: bigint[]) =>
+  (cross(a, b, c) * cross(a, b, d) < 0n &&
+    cross(c, d, a) * cross(c, d, b) < 0n) ||
+  onSegment(a, b, c) ||
+  onSegment(a, b, d) ||
+  onSegment(c, d, a) ||
+  onSegment(c, d, b);
+// The squared distance from p to segment AB is at most k
+const nearSegment = (a: bigint[], b: bigint[], p: bigint[], k: bigint) => {
+  const dot = (p[0] - a[0]) * (b[0] - a[0]) + (p[1] - a[1]) * (b[1] - a[1]);
+  const lengthSq = distSq(a[0], a[1], b[0], b[1]);
+  if (dot <= 0n) return distSq(p[0], p[1], a[0], a[1]) <= k;
+  if (dot >= lengthSq) return distSq(p[0], p[1], b[0], b[1]) <= k;
+  return cross(a, b, p) ** 2n <= k * lengthSq;
+};
+// A path pair's witness may be rounded off the path, but by less than a grid step on each axis
+const nearPath = (shape: PlainShape, p: bigint[]) =>
+  segmentsOf(shape.parameters.map(BigInt)).some(([a, b]) =>
+    nearSegment(a, b, p, 2n),
+  );
+const rectEdges = (q: bigint[]) =>
+  segmentsOf([q[0], q[1], q[2], q[1], q[2], q[3], q[0], q[3], q[0], q[1]]);
+
+// Whether a shape of another type meets segment CD
+function meetsSegment(shape: PlainShape, c: bigint[], d: bigint[]): boolean {
+  const p = shape.parameters.map(BigInt);
+  switch (shape.shapeType) {
+    case 0:
+      return onSegment(c, d, p);
+    case 1:
+      return nearSegment(c, d, p, p[2] ** 2n);
+    case 2:
+      return (
+        contains(shape, c) ||
+        contains(shape, d) ||
+        rectEdges(p).some(([e, f]) => segmentsMeet(c, d, e, f))
+      );
+    case 4:
+    case 5:
+      return segmentsOf(p).some(([a, b]) => segmentsMeet(a, b, c, d));
+    default:
+      throw new Error(`No reference for shape type ${shape.shapeType}`);
+  }
+}
+
+// Plaintext reference for the encrypted predicates in GeometricWitness, exact at any magnitude
+function intersects(a: PlainShape, b: PlainShape): boolean {
+  if (a.shapeType > b.shapeType) [a, b] = [b, a];
+  const [p, q] = [a.parameters.map(BigInt), b.parameters.map(BigInt)];
+  if (isPath(b)) {
+    return segmentsOf(q).some(([c, d]) => meetsSegment(a, c, d));
+  }
+
+  switch (`${a.shapeType}-${b.shapeType}`) {
+    case "0-0":
+      return p[0] === q[0] && p[1] === q[1];
+    case "0-1":
+      return distSq(p[0], p[1], q[0], q[1]) <= q[2] ** 2n;
+    case "0-2":
+      return p[0] >= q[0] && p[0] <= q[2] && p[1] >= q[1] && p[1] <= q[3];
+    case "1-1":
+      return distSq(p[0], p[1], q[0], q[1]) <= (p[2] + q[2]) ** 2n;
+    case "1-2":
+      return (
+        distSq(p[0], p[1], clamp(p[0], q[0], q[2]), clamp(p[1], q[1], q[3])) <=
+        p[2] ** 2n
+      );
+    case "2-2":
+      return p[0] <= q[2] && q[0] <= p[2] && p[1] <= q[3] && q[1] <= p[3];
+    case "0-3":
+      return insidePolygon(q, p);
+    case "3-3":
+      return !separates(p, q) && !separates(q, p);
+    default:
+      throw new Error(
+        `No reference for shape pair ${a.shapeType}-${b.shapeType}`,
+      );
+  }
+}
+
+// Plaintext reference for whether a shape contains a grid point, edges included
+function contains(shape: PlainShape, [x, y]: bigint[]): boolean {
+  const p = shape.parameters.map(BigInt);
+  switch (shape.shapeType) {
+    case 0:
+      return x === p[0] && y === p[1];
+    case 1:
+      return distSq(x, y, p[0], p[1]) <= p[2] ** 2n;
+    case 2:
+      return x >= p[0] && x <= p[2] && y >= p[1] && y <= p[3];
+    case 3:
+      return insidePolygon(p, [x, y]);
+    case 4:
+    case 5:
+      return segmentsOf(p).some(([a, b]) => onSegment(a, b, [x, y]));
+    default:
+      throw new Error(`No reference for shape type ${shape.shapeType}`);
+  }
+}
+
+const cases: [string, PlainShape, PlainShape][] = [
+  ["identical points", point(3, 4), point(3, 4)],
+  ["distinct points", point(3, 4), point(4, 3)],
+  ["point inside circle", point(12, 9), circle(10, 10, 5)],
+  [
+    "point on circle boundary, below-left of the centre",
+    point(6, 7),
+    circle(10, 10, 5),
+  ],
+  ["point outside circle", point(16, 10), circle(10, 10, 5)],
+  ["point inside rectangle", point(5, 5), rect(0, 0, 10, 10)],
+  ["point on rectangle edge", point(10, 3), rect(0, 0, 10, 10)],
+  ["point outside rectangle", point(11, 3), rect(0, 0, 10, 10)],
+  ["overlapping circles", circle(10, 10, 5), circle(16, 10, 3)],
+  ["touching circles", circle(10, 10, 5), circle(18, 10, 3)],
+  ["separate circles", circle(10, 10, 5), circle(20, 20, 3)],
+  ["circle crossing a rectangle edge", circle(14, 5, 5), rect(0, 0, 10, 10)],
+  [
+    "circle just outside a rectangle corner",
+    circle(14, 14, 5),
+    rect(0, 0, 10, 10),
+  ],
+  ["circle containing a rectangle", circle(5, 5, 20), rect(2, 2, 4, 4)],
+  ["overlapping rectangles", rect(0, 0, 10, 10), rect(5, 5, 15, 15)],
+  ["rectangles sharing an edge", rect(0, 0, 10, 10), rect(10, 0, 20, 10)],
+  ["separate rectangles", rect(0, 0, 10, 10), rect(11, 11, 20, 20)],
+  ["point below-left of a circle centre", point(0, 0), circle(3, 4, 5)],
+  ["circle inside another circle", circle(50, 50, 40), circle(55, 45, 3)],
+  ["circles meeting diagonally", circle(10, 40, 12), circle(30, 20, 17)],
+  [
+    "circles with a lens thinner than a grid step",
+    circle(0, 0, 5),
+    circle(7, 7, 5),
+  ],
+  [
+    "circles whose centres are nearly a radius sum apart",
+    circle(10, 10, 22),
+    circle(23, 55, 25),
+  ],
+  [
+    "rectangle inside another rectangle",
+    rect(0, 0, 100, 100),
+    rect(3, 7, 4, 9),
+  ],
+  ["circle touching a rectangle corner", circle(13, 14, 5), rect(0, 0, 10, 10)],
+];
+
+const triangle = polygon([0, 0], [10, 0], [0, 10]);
+const octagon = (cx: number, cy: number, r: number) =>
+  polygon(
+    [cx + r, cy],
+    [cx + 2 * r, cy + r],
+    [cx + 2 * r, cy + 2 * r],
+    [cx + r, cy + 3 * r],
+    [cx, cy + 3 * r],
+    [cx - r, cy + 2 * r],
+    [cx - r, cy + r],
+    [cx, cy],
+  );
+const polygonCases: [string, PlainShape, PlainShape][] = [
+  ["point inside a triangle", point(2, 3), triangle],
+  ["point on a triangle's slanted edge", point(4, 6), triangle],
+  ["point just past a triangle's slanted edge", point(5, 6), triangle],
+  ["point at a triangle vertex", point(10, 0), triangle],
+  ["point left of a triangle", point(1, 20), triangle],
+  ["point inside an octagon", point(25, 30), octagon(20, 20, 10)],
+  ["point outside an octagon corner", point(11, 21), octagon(20, 20, 10)],
+  [
+    "triangles holding a vertex of each other",
+    triangle,
+    polygon([5, 2], [12, 2], [5, 9]),
+  ],
+  [
+    "triangle inside a quadrilateral",
+    polygon([1, 1], [30, 1], [30, 30], [1, 30]),
+    polygon([2, 2], [4, 2], [3, 5]),
+  ],
+  ["triangles sharing an edge", triangle, polygon([10, 0], [10, 10], [0, 10])],
+  [
+    "triangles separated along an edge of the first",
+    triangle,
+    polygon([6, 6], [12, 6], [6, 12]),
+  ],
+  [
+    "triangles separated along an edge of the second",
+    polygon([6, 6], [12, 6], [6, 12]),
+    triangle,
+  ],
+  [
+    "polygons crossing like a plus sign",
+    polygon([0, 4], [12, 4], [12, 8], [0, 8]),
+    polygon([4, 0], [8, 0], [8, 12], [4, 12]),
+  ],
+  ["overlapping octagons", octagon(20, 20, 10), octagon(35, 25, 10)],
+];
+
+const pathCases: [string, PlainShape, PlainShape][] = [
+  ["point on a segment", point(5, 5), segment(0, 0, 10, 10)],
+  ["point at the end of a segment", point(10, 10), segment(0, 0, 10, 10)],
+  ["point beside a segment", point(5, 6), segment(0, 0, 10, 10)],
+  [
+    "point on a segment's line past its end",
+    point(11, 11),
+    segment(0, 0, 10, 10),
+  ],
+  [
+    "point on a polyline's second segment",
+    point(15, 5),
+    polyline([0, 0], [10, 0], [20, 10]),
+  ],
+  [
+    "point at a polyline's bend",
+    point(10, 0),
+    polyline([0, 0], [10, 0], [20, 10]),
+  ],
+  [
+    "point inside a polyline's bend",
+    point(11, 0),
+    polyline([0, 0], [10, 0], [20, 10]),
+  ],
+  ["crossing segments", segment(0, 0, 10, 7), segment(0, 7, 10, 0)],
+  [
+    "segments touching at their ends",
+    segment(0, 0, 5, 5),
+    segment(5, 5, 10, 0),
+  ],
+  ["segment ending on another", segment(0, 0, 10, 0), segment(5, 0, 5, 8)],
+  [
+    "overlapping collinear segments",
+    segment(0, 0, 10, 10),
+    segment(5, 5, 20, 20),
+  ],
+  ["separate collinear segments", segment(0, 0, 4, 4), segment(5, 5, 9, 9)],
+  ["parallel segments", segment(0, 0, 10, 0), segment(0, 1, 10, 1)],
+  [
+    "segments whose lines cross past their ends",
+    segment(0, 0, 4, 4),
+    segment(10, 0, 6, 4),
+  ],
+  ["segment through a circle", segment(0, 10, 30, 10), circle(15, 12, 5)],
+  ["segment ending in a circle", segment(0, 0, 14, 10), circle(15, 12, 5)],
+  ["segment tangent to a circle", segment(0, 0, 30, 0), circle(15, 5, 5)],
+  ["segment passing a circle", segment(0, 0, 30, 0), circle(15, 6, 5)],
+  [
+    "segment stopping short of a circle",
+    segment(0, 0, 10, 0),
+    circle(16, 3, 5),
+  ],
+  ["segment through a rectangle", segment(0, 5, 30, 8), rect(10, 0, 20, 10)],
+  [
+    "segment cutting a rectangle corner",
+    segment(5, 12, 12, 5),
+    rect(0, 0, 10, 10),
+  ],
+  [
+    "segment passing a rectangle corner",
+    segment(8, 14, 14, 8),
+    rect(0, 0, 10, 10),
+  ],
+  ["segment inside a rectangle", segment(2, 2, 5, 5), rect(0, 0, 10, 10)],
+  [
+    "segment along a rectangle edge",
+    segment(0, 10, 30, 10),
+    rect(10, 0, 20, 10),
+  ],
+  [
+    "polyline crossing a rectangle with its middle segment",
+    polyline([0, 0], [5, 20], [25, 20], [30, 0]),
+    rect(10, 10, 20, 30),
+  ],
+  [
+    "polyline meeting a circle with its second segment",
+    polyline([0, 0], [10, 10], [20, 0]),
+    circle(16, 8, 3),
+  ],
+  [
+    "crossing polylines",
+    polyline([0, 5], [10, 5], [10, 20]),
+    polyline([0, 0], [10, 10], [20, 0]),
+  ],
+  [
+    "nested polylines",
+    polyline([0, 0], [10, 0], [10, 10]),
+    polyline([2, 2], [8, 2], [8, 8]),
+  ],
+  [
+    "segment meeting a polyline's last segment",
+    segment(30, 0, 30, 10),
+    polyline([0, 0], [10, 0], [20, 5], [40, 5]),
+  ],
+];
+
+// Polygon pairs whose intersection holds no vertex of either polygon; the witness is then only guaranteed to lie
+// in the first polygon
+const crossingPolygons = new Set(["polygons crossing like a plus sign"]);
+
+// Values at the edges of the safe ranges, where 32-bit squares and sums would wrap
+const MAX = SAFE_COORDINATE_MAX;
+const R = SAFE_RADIUS_MAX;
+const PMAX = SAFE_POLYGON_COORDINATE_MAX;
+const boundaryCases: [string, PlainShape, PlainShape][] = [
+  ["point at the far corner from a circle", point(0, 0), circle(MAX, MAX, R)],
+  ["point on a maximal circle", point(0, 0), circle(R, 0, R)],
+  ["point one unit outside a maximal circle", point(0, 0), circle(R + 1, 0, R)],
+  [
+    "point inside a circle at the top of the range",
+    point(MAX, MAX),
+    circle(MAX - 1000, MAX, 1000),
+  ],
+  ["maximal circles touching", circle(0, 0, R), circle(MAX, 0, MAX - R)],
+  [
+    "maximal circles one unit apart",
+    circle(0, 0, R),
+    circle(MAX, 0, MAX - R - 1),
+  ],
+  [
+    "circles at opposite corners of the range",
+    circle(0, 0, R),
+    circle(MAX, MAX, R),
+  ],
+  [
+    "maximal circle touching a rectangle",
+    circle(0, 0, R),
+    rect(R, 0, MAX, MAX),
+  ],
+  [
+    "maximal circle just short of a rectangle",
+    circle(0, 0, R),
+    rect(R + 1, 0, MAX, MAX),
+  ],
+  [
+    "point on the far corner of a full-range rectangle",
+    point(MAX, MAX),
+    rect(0, 0, MAX, MAX),
+  ],
+  [
+    "full-range rectangles sharing a corner",
+    rect(0, 0, MAX, MAX),
+    rect(MAX, MAX, MAX, MAX),
+  ],
+  [
+    "point at the far corner from a full-range polygon",
+    point(MAX, MAX),
+    polygon([0, 0], [PMAX, 0], [PMAX, PMAX], [0, PMAX]),
+  ],
+  [
+    "point on the far vertex of a full-range polygon",
+    point(PMAX, PMAX),
+    polygon([0, 0], [PMAX, 0], [PMAX, PMAX], [0, PMAX]),
+  ],
+  [
+    "full-range triangles one step apart",
+    polygon([0, 0], [PMAX, PMAX], [0, PMAX]),
+    polygon([1, 0], [PMAX, 0], [PMAX, PMAX - 1]),
+  ],
+  [
+    "point one step off a full-range diagonal",
+    point(PMAX - 1, PMAX),
+    segment(0, 0, PMAX, PMAX),
+  ],
+  [
+    "full-range diagonals crossing",
+    segment(0, 0, PMAX, PMAX),
+    segment(0, PMAX, PMAX, 0),
+  ],
+  [
+    "full-range segment passing a circle at the top of the range",
+    segment(0, PMAX, PMAX, PMAX),
+    circle(MAX, MAX, MAX - PMAX),
+  ],
+  [
+    "full-range segment crossing a full-range rectangle",
+    segment(0, PMAX, PMAX, 0),
+    rect(PMAX / 2, PMAX / 2 - 10, MAX, MAX),
+  ],
+];
+
+// Circle pairs whose lens only holds grid points at corners that mix rounding directions, which a sampled witness
+// has no HCU left to try; it is then only guaranteed to lie in the first circle
+const thinLenses = new Set(["circles with a lens thinner than a grid step"]);
+
+// Whether two circles share a grid point, scanning the columns of their bounding boxes' overlap
+function lensHoldsGridPoint(a: PlainShape, b: PlainShape): boolean {
+  const [p, q] = [a.parameters, b.parameters];
+  const from = Math.max(p[0] - p[2], q[0] - q[2]);
+  const to = Math.min(p[0] + p[2], q[0] + q[2]);
+  for (let x = from; x <= to; x++) {
+    const [h1, h2] = [p, q].map((c) =>
+      Math.floor(Math.sqrt(c[2] ** 2 - (x - c[0]) ** 2)),
+    );
+    if (Math.max(p[1] - h1, q[1] - h2) <= Math.min(p[1] + h1, q[1] + h2)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+describe("GeometricWitness intersection", function () {
+  let signers: Signers;
+  let contract: GeometricWitness;
+
+  async function computeAndDecrypt(
+    shapeId1: bigint,
+    shapeId2: bigint,
+    signer: HardhatEthersSigner,
+    strategy: WitnessStrategy = "Deterministic",
+  ) {
+    await approvePair(contract, shapeId1, shapeId2);
+    const tx = await contract
+      .connect(signer)
+      .computeIntersection(shapeId1, shapeId2, WITNESS_STRATEGIES[strategy]);
+    await tx.wait();
+    await finishIntersection(shapeId1, shapeId2, signer);
+
+    const [hasIntersection, witnessPoint] =
+      await contract.getEncryptedIntersectionResult(shapeId1, shapeId2);
+    const witness = [];
+    for (const handle of witnessPoint) {
+      witness.push(
+        await fhevm.debugger.decryptEuint(FhevmType.euint32, handle),
+      );
+    }
+    return {
+      hasIntersection: await fhevm.debugger.decryptEbool(hasIntersection),
+      witness,
+    };
+  }
+
+  // Polygon and path pairs take several transactions until the result is written
+  async function finishIntersection(
+    shapeId1: bigint,
+    shapeId2: bigint,
+    signer: HardhatEthersSigner,
+  ) {
+    let [done, total] = await contract.getIntersectionProgress(
+      shapeId1,
+      shapeId2,
+    );
+    while (done < total) {
+      await (
+        await contract.connect(signer).advanceIntersection(shapeId1, shapeId2)
+      ).wait();
+      [done, total] = await contract.getIntersectionProgress(
+        shapeId1,
+        shapeId2,
+      );
+    }
+  }
+
+  // The witness must lie in both shapes when they meet, and be masked to (0, 0) when they do not
+  async function expectReferenceResult(
+    name: string,
+    shape1: PlainShape,
+    shape2: PlainShape,
+    strategy: WitnessStrategy = "Deterministic",
+  ) {
+    const id1 = await submitShape(contract, shape1, signers.alice);
+    const id2 = await submitShape(contract, shape2, signers.bob);
+    const { hasIntersection, witness } = await computeAndDecrypt(
+      id1,
+      id2,
+      signers.alice,
+      strategy,
+    );
+
+    expect(hasIntersection).to.eq(intersects(shape1, shape2));
+    if (hasIntersection && (isPath(shape1) || isPath(shape2))) {
+      for (const shape of [shape1, shape2]) {
+        expect(
+          isPath(shape) ? nearPath(shape, witness) : contains(shape, witness),
+          `witness ${witness} in ${JSON.stringify(shape)}`,
+        ).to.eq(true);
+      }
+    } else if (
+      hasIntersection &&
+      (crossingPolygons.has(name) ||
+        (strategy === "Randomized" && thinLenses.has(name)))
+    ) {
+      expect(contains(shape1, witness), `witness ${witness} in shape 1`).to.eq(
+        true,
+      );
+    } else if (hasIntersection) {
+      expect(contains(shape1, witness), `witness ${witness} in shape 1`).to.eq(
+        true,
+      );
+      expect(contains(shape2, witness), `witness ${witness} in shape 2`).to.eq(
+        true,
+      );
+    } else {
+      expect(witness).to.deep.eq([0n, 0n]);
+    }
+  }
+
+  before(async function () {
+    signers = await getSigners();
+  });
+
+  beforeEach(async function () {
+    // Check whether the tests are running against an FHEVM mock environment
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+
+    ({ contract } = await deployFixture());
+  });
+
+  for (const [name, shape1, shape2] of boundaryCases) {
+    it(`matches the plaintext reference at the range boundary for ${name}`, async function () {
+      await expectReferenceResult(name, shape1, shape2);
+    });
+  }
+
+  for (const [name, shape1, shape2] of cases) {
+    it(`matches the plaintext reference for ${name}`, async function () {
+      await expectReferenceResult(name, shape1, shape2);
+    });
+  }
+
+  it("reports circles meeting in a lens holding no grid point, with a witness in the first", async function () {
+    const [shape1, shape2] = [circle(92, 29, 28), circle(54, 5, 17)];
+    expect(intersects(shape1, shape2)).to.eq(true);
+    expect(lensHoldsGridPoint(shape1, shape2)).to.eq(false);
+    const id1 = await submitShape(contract, shape1, signers.alice);
+    const id2 = await submitShape(contract, shape2, signers.bob);
+
+    const { hasIntersection, witness } = await computeAndDecrypt(
+      id1,
+      id2,
+      signers.alice,
+    );
+    expect(hasIntersection).to.eq(true);
+    expect(contains(shape1, witness), `witness ${witness} in shape 1`).to.eq(
+      true,
+    );
+  });
+
+  it("leaves few meeting circles without a shared grid point", function () {
+    let meeting = 0;
+    let empty = 0;
+    for (let x = 0; x <= 100; x += 7) {
+      for (let y = 0; y <= 100; y += 5) {
+        for (let r1 = 1; r1 <= 60; r1 += 3) {
+          for (let r2 = 1; r2 <= 60; r2 += 4) {
+            const [shape1, shape2] = [circle(0, 0, r1), circle(x, y, r2)];
+            if (!intersects(shape1, shape2)) continue;
+            meeting++;
+            if (!lensHoldsGridPoint(shape1, shape2)) empty++;
+          }
+        }
+      }
+    }
+    expect(empty / meeting).to.be.below(0.01);
+  });
+
+  describe("polygons", function () {
+    for (const [name, shape1, shape2] of polygonCases) {
+      it(`match the plaintext reference for ${name}`, async function () {
+        await expectReferenceResult(name, shape1, shape2);
+      });
+    }
+
+    it("report their progress across transactions", async function () {
+      const id1 = await submitShape(
+        contract,
+        octagon(20, 20, 10),
+        signers.alice,
+      );
+      const id2 = await submitShape(contract, triangle, signers.bob);
+      await approvePair(contract, id1, id2);
+      await (
+        await contract
+          .connect(signers.alice)
+          .computeIntersection(id1, id2, WITNESS_STRATEGIES.Deterministic)
+      ).wait();
+
+      const [tested, total] = await contract.getIntersectionProgress(id1, id2);
+      expect(total).to.eq(11n);
+      expect(tested).to.be.greaterThan(0n);
+      expect(tested).to.be.lessThan(total);
+
+      await finishIntersection(id1, id2, signers.alice);
+      await (
+        await contract.connect(signers.bob).computeIntersection(id2, id1, 0)
+      ).wait();
+      expect(await contract.getIntersectionProgress(id1, id2)).to.deep.eq([
+        tested,
+        total,
+      ]);
+
+      await finishIntersection(id1, id2, signers.alice);
+      expect(await contract.getIntersectionProgress(id2, id1)).to.deep.eq([
+        11n,
+        11n,
+      ]);
+      await expect(
+        contract.connect(signers.alice).advanceIntersection(id1, id2),
+      ).to.be.revertedWith("No intersection in progress");
+    });
+
+    it("record a deterministic witness whichever strategy is asked for", async function () {
+      const id1 = await submitShape(contract, triangle, signers.alice);
+      const id2 = await submitShape(
+        contract,
+        polygon([5, 5], [15, 5], [5, 15]),
+        signers.bob,
+      );
+
+      const deterministic = await computeAndDecrypt(id1, id2, signers.alice);
+      const randomized = await computeAndDecrypt(
+        id1,
+        id2,
+        signers.alice,
+        "Randomized",
+      );
+      expect(randomized.witness).to.deep.eq(deterministic.witness);
+      expect(await contract.getWitnessStrategy(id1, id2)).to.eq(
+        WITNESS_STRATEGIES.Deterministic,
+      );
+    });
+
+    it("only advance for the owners of the pair", async function () {
+      const id1 = await submitShape(
+        contract,
+        octagon(20, 20, 10),
+        signers.alice,
+      );
+      const id2 = await submitShape(contract, triangle, signers.bob);
+      await approvePair(contract, id1, id2);
+      await (
+        await contract.connect(signers.alice).computeIntersection(id1, id2, 0)
+      ).wait();
+
+      await expect(
+        contract.connect(signers.deployer).advanceIntersection(id1, id2),
+      ).to.be.reverted;
+    });
+
+    it("cannot be paired with circles or rectangles", async function () {
+      const polygonId = await submitShape(contract, triangle, signers.alice);
+      for (const other of [circle(0, 0, 5), rect(0, 0, 5, 5)]) {
+        const otherId = await submitShape(contract, other, signers.bob);
+        await approvePair(contract, polygonId, otherId);
+        await expect(
+          contract
+            .connect(signers.alice)
+            .computeIntersection(polygonId, otherId, 0),
+        ).to.be.revertedWith("Unsupported shape pair");
+      }
+    });
+  });
+
+  describe("segments and polylines", function () {
+    for (const [name, shape1, shape2] of pathCases) {
+      it(`match the plaintext reference for ${name}`, async function () {
+        await expectReferenceResult(name, shape1, shape2);
+      });
+    }
+
+    it("place a crossing's witness next to it, toward the first path's start", async function () {
+      const id1 = await submitShape(
+        contract,
+        segment(0, 0, 10, 7),
+        signers.alice,
+      );
+      const id2 = await submitShape(
+        contract,
+        segment(0, 7, 10, 0),
+        signers.bob,
+      );
+
+      // The segments cross at (5, 3.5)
+      const { witness } = await computeAndDecrypt(id2, id1, signers.bob);
+      expect(witness).to.deep.eq([5n, 3n]);
+    });
+
+    it("check a point against a polyline of the most vertices in one transaction", async function () {
+      const zigzag = polyline(
+        ...Array.from(
+          { length: MAX_POLYLINE_VERTICES },
+          (_, i) => [10 * i, 10 * (i % 2)] as [number, number],
+        ),
+      );
+      const last = 10 * (MAX_POLYLINE_VERTICES - 1);
+      await expectReferenceResult(
+        "point on a zigzag's last segment",
+        point(last - 5, 5),
+        zigzag,
+      );
+      await expectReferenceResult(
+        "point beside a zigzag's last segment",
+        point(last - 5, 4),
+        zigzag,
+      );
+    });
+
+    it("report their progress across transactions", async function () {
+      const id1 = await submitShape(
+        contract,
+        segment(30, 0, 30, 10),
+        signers.alice,
+      );
+      const id2 = await submitShape(
+        contract,
+        polyline([0, 0], [10, 0], [20, 5], [40, 5]),
+        signers.bob,
+      );
+      await approvePair(contract, id1, id2);
+      await (
+        await contract.connect(signers.bob).computeIntersection(id2, id1, 0)
+      ).wait();
+
+      // A step per segment pair, two of long division and a closing one
+      expect(await contract.getIntersectionProgress(id1, id2)).to.deep.eq([
+        1n,
+        6n,
+      ]);
+      await finishIntersection(id1, id2, signers.alice);
+      expect(await contract.getIntersectionProgress(id2, id1)).to.deep.eq([
+        6n,
+        6n,
+      ]);
+      await expect(
+        contract.connect(signers.alice).advanceIntersection(id1, id2),
+      ).to.be.revertedWith("No intersection in progress");
+    });
+
+    it("record the same deterministic witness whichever strategy is asked for", async function () {
+      const id1 = await submitShape(
+        contract,
+        segment(0, 10, 30, 10),
+        signers.alice,
+      );
+      const id2 = await submitShape(contract, circle(15, 12, 5), signers.bob);
+
+      const deterministic = await computeAndDecrypt(id1, id2, signers.alice);
+      const randomized = await computeAndDecrypt(
+        id1,
+        id2,
+        signers.alice,
+        "Randomized",
+      );
+      expect(randomized.witness).to.deep.eq(deterministic.witness);
+      expect(await contract.getWitnessStrategy(id1, id2)).to.eq(
+        WITNESS_STRATEGIES.Deterministic,
+      );
+    });
+
+    it("cannot be paired with polygons", async function () {
+      const pathId = await submitShape(
+        contract,
+        segment(0, 0, 5, 5),
+        signers.alice,
+      );
+      const polygonId = await submitShape(contract, triangle, signers.bob);
+      await approvePair(contract, pathId, polygonId);
+      await expect(
+        contract
+          .connect(signers.alice)
+          .computeIntersection(pathId, polygonId, 0),
+      ).to.be.revertedWith("Unsupported shape pair");
+    });
+  });
+
+  describe("randomized witnesses", function () {
+    for (const [name, shape1, shape2] of cases) {
+      if (!intersects(shape1, shape2)) continue;
+      it(`lie in both shapes for ${name}`, async function () {
+        await expectReferenceResult(name, shape1, shape2, "Randomized");
+      });
+    }
+
+    it("are masked when the shapes do not meet", async function () {
+      await expectReferenceResult(
+        "separate rectangles",
+        rect(0, 0, 10, 10),
+        rect(11, 11, 20, 20),
+        "Randomized",
+      );
+    });
+
+    it("vary between computations of the same pair", async function () {
+      const id1 = await submitShape(
+        contract,
+        rect(0, 0, 1000000, 1000000),
+        signers.alice,
+      );
+      const id2 = await submitShape(
+        contract,
+        rect(500, 500, 2000000, 2000000),
+        signers.bob,
+      );
+
+      const witnesses = new Set<string>();
+      for (let i = 0; i < 3; i++) {
+        const { witness } = await computeAndDecrypt(
+          id1,
+          id2,
+          signers.alice,
+          "Randomized",
+        );
+        witnesses.add(witness.join(","));
+      }
+      expect(witnesses.size).to.be.greaterThan(1);
+    });
+
+    it("are recorded with the result", async function () {
+      const id1 = await submitShape(contract, circle(10, 10, 5), signers.alice);
+      const id2 = await submitShape(contract, rect(0, 0, 10, 10), signers.bob);
+
+      await computeAndDecrypt(id1, id2, signers.alice, "Randomized");
+      expect(await contract.getWitnessStrategy(id2, id1)).to.eq(
+        WITNESS_STRATEGIES.Randomized,
+      );
+
+      await computeAndDecrypt(id1, id2, signers.alice);
+      expect(await contract.getWitnessStrategy(id1, id2)).to.eq(
+        WITNESS_STRATEGIES.Deterministic,
+      );
+    });
+
+    it("are recorded as deterministic for pairs with a point", async function () {
+      const id1 = await submitShape(contract, point(12, 9), signers.alice);
+      const id2 = await submitShape(contract, circle(10, 10, 5), signers.bob);
+
+      const { witness } = await computeAndDecrypt(
+        id1,
+        id2,
+        signers.alice,
+        "Randomized",
+      );
+      expect(witness).to.deep.eq([12n, 9n]);
+      expect(await contract.getWitnessStrategy(id1, id2)).to.eq(
+        WITNESS_STRATEGIES.Deterministic,
+      );
+    });
+
+    it("reverts on an unknown strategy", async function () {
+      const id1 = await submitShape(contract, point(1, 1), signers.alice);
+      const id2 = await submitShape(contract, point(1, 1), signers.bob);
+
+      for (const strategy of [WITNESS_STRATEGIES.External, 7]) {
+        await expect(
+          contract
+            .connect(signers.alice)
+            .computeIntersection(id1, id2, strategy),
+        ).to.be.revertedWith("Invalid witness strategy");
+      }
+    });
+  });
+
+  it("evaluates a pair the same way regardless of argument order", async function () {
+    const shape1 = rect(0, 0, 10, 10);
+    const shape2 = point(4, 6);
+    const id1 = await submitShape(contract, shape1, signers.alice);
+    const id2 = await submitShape(contract, shape2, signers.bob);
+
+    const forward = await computeAndDecrypt(id1, id2, signers.alice);
+    const backward = await computeAndDecrypt(id2, id1, signers.alice);
+    expect(forward.hasIntersection).to.eq(true);
+    expect(backward).to.deep.eq(forward);
+  });
+
+  it("uses the point as witness for point-in-shape checks", async function () {
+    const id1 = await submitShape(contract, point(7, 8), signers.alice);
+    const id2 = await submitShape(contract, circle(5, 5, 10), signers.bob);
+    await approvePair(contract, id1, id2);
+
+    await (
+      await contract
+        .connect(signers.alice)
+        .computeIntersection(id2, id1, WITNESS_STRATEGIES.Deterministic)
+    ).wait();
+
+    const [, witnessPoint] = await contract.getEncryptedIntersectionResult(
+      id2,
+      id1,
+    );
+    expect(witnessPoint.length).to.eq(2);
+    expect(
+      await fhevm.debugger.decryptEuint(FhevmType.euint32, witnessPoint[0]),
+    ).to.eq(7n);
+    expect(
+      await fhevm.debugger.decryptEuint(FhevmType.euint32, witnessPoint[1]),
+    ).to.eq(8n);
+  });
+
+  it("reverts when a shape does not exist", async function () {
+    const id1 = await submitShape(contract, point(1, 1), signers.alice);
+
+    await expect(
+      contract
+        .connect(signers.alice)
+        .computeIntersection(id1, 99, WITNESS_STRATEGIES.Deterministic),
+    ).to.be.revertedWith("Shape not found");
+  });
+});
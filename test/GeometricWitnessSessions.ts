@@ -0,0 +1,381 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import {
+  MAX_SESSION_PARTIES,
+  readSession,
+  userDecryptSession,
+} from "../frontend/web/src/session";
+import { GeometricWitness } from "../types";
+import {
+  PlainShape,
+  circle,
+  deployFixture,
+  point,
+  polygon,
+  rect,
+  submitShape,
+} from "./helpers";
+
+const GRID = 60n;
+
+const distSq = (x1: bigint, y1: bigint, x2: bigint, y2: bigint) =>
+  (x1 - x2) ** 2n + (y1 - y2) ** 2n;
+
+// Plaintext reference for whether a point, circle or rectangle contains a grid point, edges included
+function contains(shape: PlainShape, [x, y]: bigint[]): boolean {
+  const p = shape.parameters.map(BigInt);
+  switch (shape.shapeType) {
+    case 0:
+      return x === p[0] && y === p[1];
+    case 1:
+      return distSq(x, y, p[0], p[1]) <= p[2] ** 2n;
+    case 2:
+      return x >= p[0] && x <= p[2] && y >= p[1] && y <= p[3];
+    default:
+      throw new Error(`No reference for shape type ${shape.shapeType}`);
+  }
+}
+
+// Whether every shape holds a common grid point. The points, rectangles and single circle a session may hold share
+// a grid point whenever they share any point, so searching the grid the cases are drawn on is exact.
+function sharePoint(shapes: PlainShape[]): boolean {
+  for (let x = 0n; x <= GRID; x++) {
+    for (let y = 0n; y <= GRID; y++) {
+      if (shapes.every((shape) => contains(shape, [x, y]))) return true;
+    }
+  }
+  return false;
+}
+
+const cases: [string, PlainShape[]][] = [
+  [
+    "three overlapping rectangles",
+    [rect(0, 0, 20, 20), rect(10, 5, 30, 25), rect(15, 0, 40, 12)],
+  ],
+  [
+    "rectangles that share an edge with a third",
+    [rect(0, 0, 10, 10), rect(10, 0, 20, 10), rect(5, 10, 15, 20)],
+  ],
+  [
+    "rectangles where one misses the others' overlap",
+    [rect(0, 0, 10, 10), rect(5, 5, 15, 15), rect(12, 0, 20, 4)],
+  ],
+  [
+    "a circle reaching the rectangles' overlap",
+    [circle(20, 20, 10), rect(0, 0, 14, 14), rect(12, 10, 30, 30)],
+  ],
+  [
+    "a circle meeting each rectangle but not their overlap",
+    [circle(20, 20, 9), rect(0, 0, 14, 14), rect(8, 0, 40, 13)],
+  ],
+  [
+    "a point inside a rectangle and a circle",
+    [point(12, 12), rect(0, 0, 20, 20), circle(15, 15, 5)],
+  ],
+  [
+    "a point inside a rectangle but outside a circle",
+    [point(5, 5), rect(0, 0, 20, 20), circle(15, 15, 5)],
+  ],
+  [
+    "matching points inside a rectangle",
+    [point(3, 4), rect(0, 0, 5, 5), point(3, 4)],
+  ],
+  ["points at different places", [point(3, 3), point(3, 4)]],
+  ["a point on the edge of a circle", [circle(10, 10, 5), point(13, 14)]],
+  [
+    "a circle with rectangles inside it",
+    [circle(30, 30, 25), rect(20, 20, 40, 40), rect(25, 10, 35, 50)],
+  ],
+];
+
+describe("GeometricWitness sessions", function () {
+  let accounts: HardhatEthersSigner[];
+  let contract: GeometricWitness;
+
+  async function createSession(parties: HardhatEthersSigner[]) {
+    await (
+      await contract
+        .connect(parties[0])
+        .createSession(parties.map((party) => party.address))
+    ).wait();
+    return contract.sessionCount();
+  }
+
+  // Submits each party's shape, opens a session for them and has each join in turn
+  async function runSession(
+    shapes: PlainShape[],
+    parties: HardhatEthersSigner[] = accounts.slice(1, 1 + shapes.length),
+  ) {
+    const shapeIds = [];
+    for (let i = 0; i < shapes.length; i++) {
+      shapeIds.push(await submitShape(contract, shapes[i], parties[i]));
+    }
+    const sessionId = await createSession(parties);
+    for (let i = 0; i < shapes.length; i++) {
+      await (
+        await contract.connect(parties[i]).joinSession(sessionId, shapeIds[i])
+      ).wait();
+    }
+    return sessionId;
+  }
+
+  async function decryptResult(sessionId: bigint) {
+    const [hasCommonPoint, witnessPoint] =
+      await contract.getSessionResult(sessionId);
+    const witness = [];
+    for (const handle of witnessPoint) {
+      witness.push(
+        await fhevm.debugger.decryptEuint(FhevmType.euint32, handle),
+      );
+    }
+    return {
+      hasCommonPoint: await fhevm.debugger.decryptEbool(hasCommonPoint),
+      witness,
+    };
+  }
+
+  before(async function () {
+    accounts = await ethers.getSigners();
+  });
+
+  beforeEach(async function () {
+    // Check whether the tests are running against an FHEVM mock environment
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+
+    ({ contract } = await deployFixture());
+  });
+
+  for (const [name, shapes] of cases) {
+    it(`matches the plaintext reference for ${name}`, async function () {
+      const sessionId = await runSession(shapes);
+      const { hasCommonPoint, witness } = await decryptResult(sessionId);
+
+      expect(hasCommonPoint).to.eq(sharePoint(shapes));
+      if (hasCommonPoint) {
+        for (const shape of shapes) {
+          expect(
+            contains(shape, witness),
+            `witness ${witness} in ${JSON.stringify(shape)}`,
+          ).to.eq(true);
+        }
+      } else {
+        expect(witness).to.deep.eq([0n, 0n]);
+      }
+    });
+  }
+
+  it("lists its parties and the shapes they join with", async function () {
+    const [, alice, bob, carol] = accounts;
+    const aliceShape = await submitShape(contract, rect(0, 0, 9, 9), alice);
+    const bobShape = await submitShape(contract, point(4, 4), bob);
+
+    await expect(
+      contract
+        .connect(alice)
+        .createSession([alice.address, bob.address, carol.address]),
+    )
+      .to.emit(contract, "SessionCreated")
+      .withArgs(1, alice.address);
+    await expect(contract.connect(bob).joinSession(1, bobShape))
+      .to.emit(contract, "SessionJoined")
+      .withArgs(1, bob.address, bobShape);
+    await (await contract.connect(alice).joinSession(1, aliceShape)).wait();
+
+    expect(await readSession(contract, 1)).to.deep.eq({
+      id: 1,
+      parties: [
+        { address: alice.address, shapeId: Number(aliceShape) },
+        { address: bob.address, shapeId: Number(bobShape) },
+        { address: carol.address, shapeId: undefined },
+      ],
+      state: "open",
+    });
+    await expect(contract.getSessionResult(1)).to.be.revertedWith(
+      "Result not computed",
+    );
+  });
+
+  it("computes when the last party joins and lets every party decrypt the result", async function () {
+    const parties = accounts.slice(1, 4);
+    const shapes = [rect(0, 0, 10, 10), circle(12, 12, 5), rect(6, 6, 20, 20)];
+    const shapeIds = [];
+    for (let i = 0; i < shapes.length; i++) {
+      shapeIds.push(await submitShape(contract, shapes[i], parties[i]));
+    }
+    const sessionId = await createSession(parties);
+    await (
+      await contract.connect(parties[0]).joinSession(sessionId, shapeIds[0])
+    ).wait();
+    await (
+      await contract.connect(parties[1]).joinSession(sessionId, shapeIds[1])
+    ).wait();
+
+    await expect(
+      contract.connect(parties[2]).joinSession(sessionId, shapeIds[2]),
+    )
+      .to.emit(contract, "SessionComputed")
+      .withArgs(sessionId);
+    expect((await readSession(contract, sessionId)).state).to.eq("computed");
+
+    for (const party of parties) {
+      expect(
+        await userDecryptSession(fhevm, contract, party, sessionId),
+      ).to.deep.eq({ hasIntersection: true, witnessPoint: [10, 10] });
+    }
+    await expect(userDecryptSession(fhevm, contract, accounts[0], sessionId)).to
+      .be.rejected;
+  });
+
+  it("lets a party listed twice join with two shapes", async function () {
+    const [, alice, bob] = accounts;
+    const sessionId = await runSession(
+      [rect(0, 0, 10, 10), rect(5, 5, 15, 15), point(7, 8)],
+      [alice, bob, alice],
+    );
+
+    expect((await readSession(contract, sessionId)).state).to.eq("computed");
+    expect(await decryptResult(sessionId)).to.deep.eq({
+      hasCommonPoint: true,
+      witness: [7n, 8n],
+    });
+  });
+
+  it("checks the most parties in one transaction", async function () {
+    const shapes = [
+      circle(30, 30, 20),
+      ...Array.from({ length: MAX_SESSION_PARTIES - 1 }, (_, i) =>
+        rect(i, 2 * i, 40 + i, 45 - i),
+      ),
+    ];
+    const sessionId = await runSession(shapes);
+    const { hasCommonPoint, witness } = await decryptResult(sessionId);
+
+    expect(hasCommonPoint).to.eq(true);
+    expect(witness).to.deep.eq([30n, 30n]);
+  });
+
+  it("lets any party cancel a session a party never joins", async function () {
+    const [, alice, bob, carol] = accounts;
+    const aliceShape = await submitShape(contract, rect(0, 0, 9, 9), alice);
+    const carolShape = await submitShape(contract, point(4, 4), carol);
+    const sessionId = await createSession([alice, bob, carol]);
+    await (
+      await contract.connect(alice).joinSession(sessionId, aliceShape)
+    ).wait();
+
+    await expect(contract.connect(bob).cancelSession(sessionId))
+      .to.emit(contract, "SessionCancelled")
+      .withArgs(sessionId, bob.address);
+    expect((await readSession(contract, sessionId)).state).to.eq("cancelled");
+    await expect(
+      contract.connect(carol).joinSession(sessionId, carolShape),
+    ).to.be.revertedWith("Session closed");
+    await expect(contract.getSessionResult(sessionId)).to.be.revertedWith(
+      "Result not computed",
+    );
+  });
+
+  describe("reverts", function () {
+    it("with Invalid party count for fewer than two or too many parties", async function () {
+      const addresses = accounts.map((account) => account.address);
+
+      await expect(
+        contract.createSession(addresses.slice(0, 1)),
+      ).to.be.revertedWith("Invalid party count");
+      await expect(
+        contract.createSession(addresses.slice(0, MAX_SESSION_PARTIES + 1)),
+      ).to.be.revertedWith("Invalid party count");
+    });
+
+    it("with Session not found for an unknown session", async function () {
+      const [, alice] = accounts;
+      const shapeId = await submitShape(contract, point(1, 1), alice);
+
+      await expect(
+        contract.connect(alice).joinSession(1, shapeId),
+      ).to.be.revertedWith("Session not found");
+      await expect(contract.getSession(1)).to.be.revertedWith(
+        "Session not found",
+      );
+    });
+
+    it("with Not an open session party for outsiders and parties that already joined", async function () {
+      const [deployer, alice, bob, carol] = accounts;
+      const aliceShape = await submitShape(contract, point(1, 1), alice);
+      const carolShape = await submitShape(contract, point(1, 1), carol);
+      const sessionId = await createSession([alice, bob]);
+      await (
+        await contract.connect(alice).joinSession(sessionId, aliceShape)
+      ).wait();
+
+      await expect(
+        contract.connect(alice).joinSession(sessionId, aliceShape),
+      ).to.be.revertedWith("Not an open session party");
+      await expect(
+        contract.connect(carol).joinSession(sessionId, carolShape),
+      ).to.be.revertedWith("Not an open session party");
+      await expect(
+        contract.connect(deployer).joinSession(sessionId, aliceShape),
+      ).to.be.revertedWith("Not shape owner");
+    });
+
+    it("with UnsupportedShapeType for shapes other than points, circles and rectangles", async function () {
+      const [, alice, bob] = accounts;
+      const shapeId = await submitShape(
+        contract,
+        polygon([0, 0], [4, 0], [0, 4]),
+        alice,
+      );
+      const sessionId = await createSession([alice, bob]);
+
+      await expect(contract.connect(alice).joinSession(sessionId, shapeId))
+        .to.be.revertedWithCustomError(contract, "UnsupportedShapeType")
+        .withArgs(3);
+    });
+
+    it("with Not a session party when an outsider cancels", async function () {
+      const [deployer, alice, bob] = accounts;
+      const sessionId = await createSession([alice, bob]);
+
+      await expect(
+        contract.connect(deployer).cancelSession(sessionId),
+      ).to.be.revertedWith("Not a session party");
+      await expect(contract.connect(alice).cancelSession(2)).to.be.revertedWith(
+        "Session not found",
+      );
+    });
+
+    it("with Session closed once a session is computed or cancelled", async function () {
+      const [, alice, bob] = accounts;
+      const computed = await runSession([point(1, 1), rect(0, 0, 2, 2)]);
+      const cancelled = await createSession([alice, bob]);
+      await (await contract.connect(alice).cancelSession(cancelled)).wait();
+
+      await expect(
+        contract.connect(alice).cancelSession(computed),
+      ).to.be.revertedWith("Session closed");
+      await expect(
+        contract.connect(bob).cancelSession(cancelled),
+      ).to.be.revertedWith("Session closed");
+    });
+
+    it("with Session already has a circle for a second circle", async function () {
+      const [, alice, bob] = accounts;
+      const aliceShape = await submitShape(contract, circle(5, 5, 5), alice);
+      const bobShape = await submitShape(contract, circle(8, 5, 5), bob);
+      const sessionId = await createSession([alice, bob]);
+      await (
+        await contract.connect(alice).joinSession(sessionId, aliceShape)
+      ).wait();
+
+      await expect(
+        contract.connect(bob).joinSession(sessionId, bobShape),
+      ).to.be.revertedWith("Session already has a circle");
+    });
+  });
+});
@@ -0,0 +1,444 @@
+import { expect } from "chai";
+import {
+  DEFAULT_ENCODING,
+  IDENTITY_ENCODING,
+  SAFE_COORDINATE_MAX,
+  SAFE_POLYGON_COORDINATE_MAX,
+  SAFE_RADIUS_MAX,
+  SAFE_RANGES,
+  ShapeKind,
+  Vec2,
+  addVertex,
+  decodeCoordinate,
+  encodeCoordinate,
+  formatShape,
+  parseDraftShape,
+  parseShape,
+  polygonError,
+  realRanges,
+  serializeShape,
+  supportedKinds,
+  unsupportedPairReason,
+} from "../frontend/web/src/geometry";
+
+const U64_LIMIT = 2n ** 64n;
+
+describe("geometry safe ranges", function () {
+  it("are the largest values whose widened arithmetic fits in 64 bits", function () {
+    const max = BigInt(SAFE_COORDINATE_MAX);
+    expect(2n * max ** 2n < U64_LIMIT).to.eq(true);
+    expect(2n * (max + 1n) ** 2n < U64_LIMIT).to.eq(false);
+
+    const radius = BigInt(SAFE_RADIUS_MAX);
+    expect((2n * radius) ** 2n < U64_LIMIT).to.eq(true);
+    expect((2n * (radius + 1n)) ** 2n < U64_LIMIT).to.eq(false);
+  });
+
+  it("advertises a radius limit only for circles", function () {
+    expect(SAFE_RANGES.Circle.radius).to.eq(SAFE_RADIUS_MAX);
+    expect(SAFE_RANGES.Point.radius).to.eq(undefined);
+    expect(SAFE_RANGES.Rectangle.coordinate).to.eq(SAFE_COORDINATE_MAX);
+  });
+
+  it("accepts coordinates at the top of the range", function () {
+    const result = parseShape(
+      "Rectangle",
+      JSON.stringify([0, 0, SAFE_COORDINATE_MAX, SAFE_COORDINATE_MAX]),
+    );
+    expect(result.errors).to.eq(undefined);
+  });
+
+  it("rejects coordinates past the top of the range", function () {
+    const result = parseShape(
+      "Point",
+      JSON.stringify([SAFE_COORDINATE_MAX + 1, 0]),
+    );
+    expect(result.errors?.coordinates).to.deep.eq([
+      `point.x: must be a number between 0 and ${SAFE_COORDINATE_MAX}`,
+    ]);
+  });
+
+  it("checks circle radii against the radius limit", function () {
+    expect(
+      parseShape("Circle", JSON.stringify([0, 0, SAFE_RADIUS_MAX])).errors,
+    ).to.eq(undefined);
+    expect(
+      parseShape("Circle", JSON.stringify([0, 0, SAFE_RADIUS_MAX + 1])).errors
+        ?.coordinates,
+    ).to.deep.eq([`radius: must be a number between 0 and ${SAFE_RADIUS_MAX}`]);
+  });
+
+  it("rejects negative coordinates", function () {
+    expect(
+      parseShape("Point", JSON.stringify([-1, 0])).errors?.coordinates,
+    ).to.have.length(1);
+  });
+
+  it("refuses to serialize shapes outside the range", function () {
+    expect(
+      serializeShape({
+        type: "Circle",
+        center: { x: SAFE_COORDINATE_MAX, y: 0 },
+        radius: SAFE_RADIUS_MAX,
+      }).parameters,
+    ).to.deep.eq([SAFE_COORDINATE_MAX, 0, SAFE_RADIUS_MAX]);
+    expect(() =>
+      serializeShape({
+        type: "Circle",
+        center: { x: 0, y: 0 },
+        radius: SAFE_RADIUS_MAX + 1,
+      }),
+    ).to.throw("outside the safe range");
+    expect(() =>
+      serializeShape({ type: "Point", x: SAFE_COORDINATE_MAX + 1, y: 0 }),
+    ).to.throw("outside the safe range");
+  });
+});
+
+describe("geometry coordinate encoding", function () {
+  it("shifts and scales coordinates onto the grid and back", function () {
+    const encoded = encodeCoordinate(-2.5, DEFAULT_ENCODING);
+    expect(encoded).to.eq(DEFAULT_ENCODING.offset - 2500);
+    expect(decodeCoordinate(encoded, DEFAULT_ENCODING)).to.eq(-2.5);
+  });
+
+  it("scales radii without shifting them", function () {
+    expect(
+      serializeShape(
+        { type: "Circle", center: { x: -1, y: 0.125 }, radius: 4.5 },
+        DEFAULT_ENCODING,
+      ).parameters,
+    ).to.deep.eq([
+      DEFAULT_ENCODING.offset - 1000,
+      DEFAULT_ENCODING.offset + 125,
+      4500,
+    ]);
+  });
+
+  it("accepts negative and fractional coordinates within the decoded range", function () {
+    const { coordinate } = realRanges("Point", DEFAULT_ENCODING);
+    expect(coordinate.min).to.eq(-DEFAULT_ENCODING.offset / 1000);
+    expect(
+      parseShape(
+        "Point",
+        JSON.stringify([coordinate.min, 0.1]),
+        DEFAULT_ENCODING,
+      ).errors,
+    ).to.eq(undefined);
+    expect(
+      parseShape(
+        "Point",
+        JSON.stringify([coordinate.min - 1, 0]),
+        DEFAULT_ENCODING,
+      ).errors?.coordinates,
+    ).to.deep.eq([
+      `point.x: must be a number between ${coordinate.min} and ${coordinate.max}`,
+    ]);
+  });
+
+  it("rejects values finer than the grid step", function () {
+    expect(
+      parseShape("Point", JSON.stringify([0.0005, 0]), DEFAULT_ENCODING).errors
+        ?.coordinates,
+    ).to.deep.eq(["point.x: must be a multiple of 0.001"]);
+    expect(
+      parseShape("Point", JSON.stringify([1.5, 0]), IDENTITY_ENCODING).errors
+        ?.coordinates,
+    ).to.deep.eq(["point.x: must be a multiple of 1"]);
+    expect(() => serializeShape({ type: "Point", x: 1.5, y: 0 })).to.throw(
+      "not a multiple of 1",
+    );
+  });
+});
+
+describe("geometry shape-type registry", function () {
+  const registry = new Map([
+    [0, { min: 2, max: 2 }],
+    [2, { min: 4, max: 4 }],
+    [3, { min: 6, max: 8 }],
+  ]);
+
+  it("offers only the kinds a deployment registers", function () {
+    expect(supportedKinds(registry)).to.deep.eq([
+      "Point",
+      "Rectangle",
+      "Polygon",
+    ]);
+    expect(supportedKinds(new Map())).to.deep.eq([]);
+  });
+
+  it("rejects kinds missing from the registry", function () {
+    const circle = JSON.stringify([0, 0, 1]);
+    expect(parseShape("Circle", circle).errors).to.eq(undefined);
+    expect(
+      parseShape("Circle", circle, IDENTITY_ENCODING, registry).errors?.type,
+    ).to.eq("Circle shapes are not supported by the contract yet");
+    expect(
+      parseShape(
+        "Segment",
+        JSON.stringify([0, 0, 1, 1]),
+        IDENTITY_ENCODING,
+        registry,
+      ).errors?.type,
+    ).to.eq("Segment shapes are not supported by the contract yet");
+  });
+
+  it("caps polygon vertices at the deployment's limit", function () {
+    const pentagon = JSON.stringify([
+      [0, 0],
+      [2, 0],
+      [3, 2],
+      [1, 3],
+      [-1, 2],
+    ]);
+    expect(parseShape("Polygon", pentagon, DEFAULT_ENCODING).errors).to.eq(
+      undefined,
+    );
+    expect(
+      parseShape("Polygon", pentagon, DEFAULT_ENCODING, registry).errors
+        ?.coordinates,
+    ).to.deep.eq(["vertices: at most 4 are supported"]);
+  });
+});
+
+describe("geometry polylines", function () {
+  const route = JSON.stringify([
+    [0, 0],
+    [4, 0],
+    [4, 3],
+  ]);
+
+  it("parse from a vertex list and serialize in order", function () {
+    const result = parseShape("Polyline", route);
+    expect(result.errors).to.eq(undefined);
+    expect(serializeShape(result.shape!)).to.deep.eq({
+      shapeType: 5,
+      parameters: [0, 0, 4, 0, 4, 3],
+    });
+  });
+
+  it("need two vertices, each different from the one before", function () {
+    expect(
+      parseShape("Polyline", JSON.stringify([[0, 0]])).errors?.coordinates,
+    ).to.deep.eq([
+      'vertices: expected at least 2 points as [[x, y], ...] or {"vertices": [...]}',
+    ]);
+    expect(
+      parseShape(
+        "Polyline",
+        JSON.stringify([
+          [0, 0],
+          [1, 1],
+          [1, 1],
+        ]),
+      ).errors?.coordinates,
+    ).to.deep.eq(["vertices: consecutive vertices must differ"]);
+  });
+
+  it("cap vertices at the deployment's limit", function () {
+    const registry = new Map([[5, { min: 4, max: 4 }]]);
+    expect(
+      parseShape("Polyline", route, IDENTITY_ENCODING, registry).errors
+        ?.coordinates,
+    ).to.deep.eq(["vertices: at most 2 are supported"]);
+  });
+
+  it("keep their coordinates within the cross-product range", function () {
+    expect(SAFE_RANGES.Polyline.coordinate).to.eq(SAFE_POLYGON_COORDINATE_MAX);
+    expect(SAFE_RANGES.Segment.coordinate).to.eq(SAFE_POLYGON_COORDINATE_MAX);
+    expect(() =>
+      serializeShape({
+        type: "Segment",
+        start: { x: 0, y: 0 },
+        end: { x: SAFE_POLYGON_COORDINATE_MAX + 1, y: 0 },
+      }),
+    ).to.throw("outside the safe range");
+  });
+});
+
+describe("geometry polygons", function () {
+  it("pairs polygons only with points and other polygons", function () {
+    expect(unsupportedPairReason("Polygon", "Polygon")).to.eq(undefined);
+    expect(unsupportedPairReason("Point", "Polygon")).to.eq(undefined);
+    for (const kind of [
+      "Circle",
+      "Rectangle",
+      "Segment",
+      "Polyline",
+    ] as ShapeKind[]) {
+      expect(unsupportedPairReason("Polygon", kind)).to.eq(
+        "Polygons can only be checked against points and other polygons",
+      );
+      expect(unsupportedPairReason(kind, "Polygon")).to.not.eq(undefined);
+    }
+    expect(unsupportedPairReason("Circle", "Polyline")).to.eq(undefined);
+  });
+
+  const square: Vec2[] = [
+    { x: 0, y: 0 },
+    { x: 1, y: 0 },
+    { x: 1, y: 1 },
+    { x: 0, y: 1 },
+  ];
+
+  it("accepts convex polygons listed counter-clockwise", function () {
+    expect(polygonError(square)).to.eq(undefined);
+    expect(
+      polygonError(
+        [
+          { x: -1.5, y: 0 },
+          { x: 0.25, y: -2 },
+          { x: 0.5, y: 0.1 },
+        ],
+        DEFAULT_ENCODING,
+      ),
+    ).to.eq(undefined);
+  });
+
+  it("rejects clockwise, concave, self-crossing and degenerate polygons", function () {
+    expect(polygonError([...square].reverse())).to.eq(
+      "vertices: must be listed counter-clockwise",
+    );
+    expect(
+      polygonError([
+        { x: 0, y: 0 },
+        { x: 4, y: 0 },
+        { x: 1, y: 1 },
+        { x: 0, y: 4 },
+      ]),
+    ).to.eq("vertices: must form a convex polygon");
+    // A pentagram turns left at every vertex but winds around twice
+    const star = [0, 2, 4, 1, 3].map((k) => ({
+      x: Math.round(100 * Math.cos((2 * Math.PI * k) / 5)),
+      y: Math.round(100 * Math.sin((2 * Math.PI * k) / 5)),
+    }));
+    expect(polygonError(star)).to.eq("vertices: must not cross each other");
+    expect(
+      polygonError([
+        { x: 0, y: 0 },
+        { x: 1, y: 0 },
+        { x: 2, y: 0 },
+        { x: 1, y: 1 },
+      ]),
+    ).to.eq("vertices: no three consecutive vertices may lie on one line");
+  });
+
+  it("checks polygons when parsing and serializing", function () {
+    const clockwise = JSON.stringify([
+      [0, 0],
+      [0, 1],
+      [1, 0],
+    ]);
+    expect(parseShape("Polygon", clockwise).errors?.coordinates).to.deep.eq([
+      "vertices: must be listed counter-clockwise",
+    ]);
+    expect(() =>
+      serializeShape({ type: "Polygon", vertices: [...square].reverse() }),
+    ).to.throw("must be listed counter-clockwise");
+    expect(
+      serializeShape({ type: "Polygon", vertices: square }).parameters,
+    ).to.deep.eq([0, 0, 1, 0, 1, 1, 0, 1]);
+  });
+
+  it("keeps polygon coordinates within the cross-product range", function () {
+    const max = BigInt(SAFE_POLYGON_COORDINATE_MAX);
+    // The clamped point sits one past the range, so differences reach max + 1
+    expect(2n * (max + 1n) ** 2n < 2n ** 63n).to.eq(true);
+    expect(() =>
+      serializeShape({
+        type: "Polygon",
+        vertices: [
+          { x: 0, y: 0 },
+          { x: SAFE_POLYGON_COORDINATE_MAX + 1, y: 0 },
+          { x: 0, y: 1 },
+        ],
+      }),
+    ).to.throw("outside the safe range");
+  });
+});
+
+describe("geometry drawing", function () {
+  // Clicks vertices the way the create modal's canvas does: each click adds to the shape the coordinates preview as
+  // and writes the result back as the coordinates JSON
+  function clickVertices(kind: "Polygon" | "Polyline", clicks: Vec2[]) {
+    let coordinates = "";
+    for (const click of clicks) {
+      const draft = parseDraftShape(kind, coordinates, DEFAULT_ENCODING);
+      const next = addVertex(draft, kind, click);
+      if (next) coordinates = formatShape(next);
+    }
+    return coordinates;
+  }
+
+  function parsed(kind: ShapeKind, coordinates: string) {
+    return parseShape(kind, coordinates, DEFAULT_ENCODING).shape;
+  }
+
+  it("builds a polygon from three clicked vertices", function () {
+    const clicks = [
+      { x: -10, y: -5 },
+      { x: 10, y: -5 },
+      { x: 0, y: 8 },
+    ];
+    const coordinates = clickVertices("Polygon", clicks);
+
+    expect(parsed("Polygon", coordinates)).to.deep.eq({
+      type: "Polygon",
+      vertices: clicks,
+    });
+  });
+
+  it("keeps a polygon that cannot be submitted yet as a draft", function () {
+    const clockwise = clickVertices("Polygon", [
+      { x: 0, y: 0 },
+      { x: 0, y: 10 },
+      { x: 10, y: 0 },
+    ]);
+    expect(parsed("Polygon", clockwise)).to.eq(undefined);
+    expect(
+      parseDraftShape("Polygon", clockwise, DEFAULT_ENCODING),
+    ).to.deep.include({ type: "Polygon" });
+    expect(parseDraftShape("Polygon", "", DEFAULT_ENCODING)).to.eq(undefined);
+    expect(
+      parseDraftShape("Polygon", "[[0, 0], [0.0001, 1]]", DEFAULT_ENCODING),
+    ).to.eq(undefined);
+  });
+
+  it("builds a polyline from two clicked vertices", function () {
+    const clicks = [
+      { x: -10, y: -5 },
+      { x: 10, y: 5 },
+    ];
+    const coordinates = clickVertices("Polyline", clicks);
+
+    expect(parsed("Polyline", coordinates)).to.deep.eq({
+      type: "Polyline",
+      vertices: clicks,
+    });
+    expect(
+      parseDraftShape(
+        "Polyline",
+        clickVertices("Polyline", [clicks[0]]),
+        DEFAULT_ENCODING,
+      ),
+    ).to.deep.eq({ type: "Polyline", vertices: [clicks[0]] });
+  });
+
+  it("ignores a click on the last vertex", function () {
+    const coordinates = clickVertices("Polygon", [
+      { x: 0, y: 0 },
+      { x: 0, y: 0 },
+      { x: 10, y: 0 },
+      { x: 0, y: 10 },
+    ]);
+
+    expect(parsed("Polygon", coordinates)).to.deep.eq({
+      type: "Polygon",
+      vertices: [
+        { x: 0, y: 0 },
+        { x: 10, y: 0 },
+        { x: 0, y: 10 },
+      ],
+    });
+  });
+});
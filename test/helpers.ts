@@ -0,0 +1,151 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { ethers, fhevm } from "hardhat";
+import { encryptShape } from "../frontend/web/src/encryption";
+import {
+  CoordinateEncoding,
+  IDENTITY_ENCODING,
+  MAX_POLYGON_VERTICES,
+  PlainShape,
+} from "../frontend/web/src/geometry";
+import { GeometricWitness, GeometricWitness__factory } from "../types";
+
+export type Signers = {
+  deployer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+};
+
+export type { PlainShape };
+
+export const point = (x: number, y: number): PlainShape => ({
+  shapeType: 0,
+  parameters: [x, y],
+});
+export const circle = (cx: number, cy: number, r: number): PlainShape => ({
+  shapeType: 1,
+  parameters: [cx, cy, r],
+});
+// Vertices in the counter-clockwise order the contract expects
+export const polygon = (...vertices: [number, number][]): PlainShape => ({
+  shapeType: 3,
+  parameters: vertices.flat(),
+});
+export const segment = (
+  x1: number,
+  y1: number,
+  x2: number,
+  y2: number,
+): PlainShape => ({
+  shapeType: 4,
+  parameters: [x1, y1, x2, y2],
+});
+export const polyline = (...vertices: [number, number][]): PlainShape => ({
+  shapeType: 5,
+  parameters: vertices.flat(),
+});
+export const rect = (
+  minX: number,
+  minY: number,
+  maxX: number,
+  maxY: number,
+): PlainShape => ({
+  shapeType: 2,
+  parameters: [minX, minY, maxX, maxY],
+});
+
+export async function getSigners(): Promise<Signers> {
+  const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+  return { deployer: ethSigners[0], alice: ethSigners[1], bob: ethSigners[2] };
+}
+
+// Deploys the geometry libraries and returns a GeometricWitness factory linked against them
+export async function geometricWitnessFactory(): Promise<GeometricWitness__factory> {
+  const areaGeometry = await ethers.deployContract("AreaGeometry");
+  const pathGeometry = await ethers.deployContract("PathGeometry");
+  const polygonGeometry = await ethers.deployContract("PolygonGeometry");
+  return (await ethers.getContractFactory("GeometricWitness", {
+    libraries: {
+      AreaGeometry: await areaGeometry.getAddress(),
+      PathGeometry: await pathGeometry.getAddress(),
+      PolygonGeometry: await polygonGeometry.getAddress(),
+    },
+  })) as GeometricWitness__factory;
+}
+
+// Deploys with the identity encoding by default, so shapes are given directly in grid units
+export async function deployFixture(
+  encoding: CoordinateEncoding = IDENTITY_ENCODING,
+  maxVertices: number = MAX_POLYGON_VERTICES,
+) {
+  const factory = await geometricWitnessFactory();
+  const contract = (await factory.deploy(
+    encoding.offset,
+    encoding.scale,
+    maxVertices,
+  )) as GeometricWitness;
+  const contractAddress = await contract.getAddress();
+
+  return { contract, contractAddress };
+}
+
+// Encrypts the shape for `signer`, submits it and returns the new shape id
+export async function submitShape(
+  contract: GeometricWitness,
+  shape: PlainShape,
+  signer: HardhatEthersSigner,
+): Promise<bigint> {
+  const encrypted = await encryptShape(
+    fhevm,
+    await contract.getAddress(),
+    signer.address,
+    shape,
+  );
+
+  const tx = await contract
+    .connect(signer)
+    .submitEncryptedShape(
+      encrypted.handles,
+      encrypted.inputProof,
+      encrypted.shapeType,
+    );
+  await tx.wait();
+
+  return contract.shapeCount();
+}
+
+// Has the owner of shapeId1 request a check against shapeId2 and its owner approve it, as computeIntersection
+// requires of shapes with different owners
+export async function approvePair(
+  contract: GeometricWitness,
+  shapeId1: bigint,
+  shapeId2: bigint,
+) {
+  const requester = await ethers.getSigner(await contract.ownerOf(shapeId1));
+  const approver = await ethers.getSigner(await contract.ownerOf(shapeId2));
+  if (requester.address === approver.address) return;
+
+  await (
+    await contract.connect(requester).requestComputation(shapeId1, shapeId2)
+  ).wait();
+  await (
+    await contract
+      .connect(approver)
+      .approveComputation(await contract.computationRequestCount())
+  ).wait();
+}
+
+// Has `verifier` request point checks against shapeId and the shape's owner approve them, as verifyWitness requires
+// of anyone but the owner
+export async function approveVerifier(
+  contract: GeometricWitness,
+  shapeId: bigint,
+  verifier: HardhatEthersSigner,
+) {
+  const owner = await ethers.getSigner(await contract.ownerOf(shapeId));
+  await (await contract.connect(verifier).requestVerification(shapeId)).wait();
+  await (
+    await contract
+      .connect(owner)
+      .approveComputation(await contract.computationRequestCount())
+  ).wait();
+}
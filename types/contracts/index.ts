@@ -1,5 +1,4 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
-export type { CsrFeedbackFHE } from "./CsrFeedbackFHE";
-export type { UniversalAdapter } from "./UniversalAdapter";
+export type { GeometricWitness } from "./GeometricWitness";
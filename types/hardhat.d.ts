@@ -46,13 +46,9 @@ declare module "hardhat/types/runtime" {
       signerOrOptions?: ethers.Signer | FactoryOptions
     ): Promise<Contracts.IInputVerifier__factory>;
     getContractFactory(
-      name: "CsrFeedbackFHE",
+      name: "GeometricWitness",
       signerOrOptions?: ethers.Signer | FactoryOptions
-    ): Promise<Contracts.CsrFeedbackFHE__factory>;
-    getContractFactory(
-      name: "UniversalAdapter",
-      signerOrOptions?: ethers.Signer | FactoryOptions
-    ): Promise<Contracts.UniversalAdapter__factory>;
+    ): Promise<Contracts.GeometricWitness__factory>;
 
     getContractAt(
       name: "EthereumConfig",
@@ -95,15 +91,10 @@ declare module "hardhat/types/runtime" {
       signer?: ethers.Signer
     ): Promise<Contracts.IInputVerifier>;
     getContractAt(
-      name: "CsrFeedbackFHE",
-      address: string | ethers.Addressable,
-      signer?: ethers.Signer
-    ): Promise<Contracts.CsrFeedbackFHE>;
-    getContractAt(
-      name: "UniversalAdapter",
+      name: "GeometricWitness",
       address: string | ethers.Addressable,
       signer?: ethers.Signer
-    ): Promise<Contracts.UniversalAdapter>;
+    ): Promise<Contracts.GeometricWitness>;
 
     deployContract(
       name: "EthereumConfig",
@@ -138,13 +129,9 @@ declare module "hardhat/types/runtime" {
       signerOrOptions?: ethers.Signer | DeployContractOptions
     ): Promise<Contracts.IInputVerifier>;
     deployContract(
-      name: "CsrFeedbackFHE",
+      name: "GeometricWitness",
       signerOrOptions?: ethers.Signer | DeployContractOptions
-    ): Promise<Contracts.CsrFeedbackFHE>;
-    deployContract(
-      name: "UniversalAdapter",
-      signerOrOptions?: ethers.Signer | DeployContractOptions
-    ): Promise<Contracts.UniversalAdapter>;
+    ): Promise<Contracts.GeometricWitness>;
 
     deployContract(
       name: "EthereumConfig",
@@ -187,15 +174,10 @@ declare module "hardhat/types/runtime" {
       signerOrOptions?: ethers.Signer | DeployContractOptions
     ): Promise<Contracts.IInputVerifier>;
     deployContract(
-      name: "CsrFeedbackFHE",
-      args: any[],
-      signerOrOptions?: ethers.Signer | DeployContractOptions
-    ): Promise<Contracts.CsrFeedbackFHE>;
-    deployContract(
-      name: "UniversalAdapter",
+      name: "GeometricWitness",
       args: any[],
       signerOrOptions?: ethers.Signer | DeployContractOptions
-    ): Promise<Contracts.UniversalAdapter>;
+    ): Promise<Contracts.GeometricWitness>;
 
     // default types
     getContractFactory(